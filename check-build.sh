@@ -0,0 +1,14 @@
+#!/bin/bash
+# Smoke check of the production build: the bundle reads the stylesheet, XSDs and JSON Schema from
+# dist/, so convert a sample with a library bundle built the same way next to it
+set -e
+npx esbuild server/epcis-transformer/index.ts --platform=node --packages=external --bundle --format=esm --outfile=dist/build-check.js --log-level=warning
+trap 'rm -f dist/build-check.js' EXIT
+node --input-type=module -e "
+import fs from 'fs';
+import { convertToEpcis20Xml, convertToJsonLd } from './dist/build-check.js';
+const xml = fs.readFileSync('sample-epcis12.xml', 'utf8');
+const xml20 = await convertToEpcis20Xml(xml, { validateXml: true, preserveComments: false, validateEpcs: false, engine: 'xslt' });
+await convertToJsonLd(xml20, { prettyPrint: true, includeContext: true, validate: true, validateEpcs: false });
+console.log('Build check passed');
+"
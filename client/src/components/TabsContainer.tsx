@@ -7,21 +7,33 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
-import { RefreshCwIcon, Diff, ArrowRight, CloudIcon, WifiIcon, WifiOffIcon } from 'lucide-react';
+import { RefreshCwIcon, Diff, ArrowRight, CloudIcon, WifiIcon, WifiOffIcon, AlertTriangleIcon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { 
   convertToEpcis20Xml, 
+  convertToEpcis12Xml,
   convertToJsonLd,
-  convertToEpcis20XmlViaOpenEpcis,
-  convertToJsonLdViaOpenEpcis,
-  convertFrom12ToJsonLdViaOpenEpcis,
-  testOpenEpcisConnection
+  convertJsonLdToXml,
+  convertFrom12ToJsonLd,
+  listEngines,
+  testEngineConnection
 } from '@/lib/api';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from "@/components/ui/badge";
-import type { StatusMessage, XmlTransformOptions, JsonLdTransformOptions } from '@shared/schema';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type {
+  StatusMessage,
+  XmlTransformOptions,
+  Xml12TransformOptions,
+  JsonLdTransformOptions,
+  JsonLdToXmlOptions,
+  ConversionWarning
+} from '@shared/schema';
 import { nanoid } from 'nanoid';
 
+// Conversion engine the engine tab starts on, the others come from /api/engines
+const DEFAULT_ENGINE = 'openepcis';
+
 interface TabsContainerProps {
   addStatusMessage: (message: StatusMessage) => void;
 }
@@ -34,50 +46,89 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
   const [xmlFileContent, setXmlFileContent] = useState<string | null>(null);
   const [xmlOptions, setXmlOptions] = useState<XmlTransformOptions>({
     validateXml: false,
-    preserveComments: false
+    preserveComments: false,
+    validateEpcs: false
   });
   const [xmlResult, setXmlResult] = useState<string | null>(null);
   const [xmlProcessing, setXmlProcessing] = useState(false);
   const [showXmlDiff, setShowXmlDiff] = useState(false);
   
+  // EPCIS 2.0 to 1.2 downgrade state
+  const [downgradeFile, setDowngradeFile] = useState<File | null>(null);
+  const [downgradeFileContent, setDowngradeFileContent] = useState<string | null>(null);
+  const [downgradeOptions, setDowngradeOptions] = useState<Xml12TransformOptions>({
+    validateXml: false,
+    preserveComments: false
+  });
+  const [downgradeResult, setDowngradeResult] = useState<string | null>(null);
+  const [downgradeWarnings, setDowngradeWarnings] = useState<ConversionWarning[]>([]);
+  const [downgradeProcessing, setDowngradeProcessing] = useState(false);
+  
+  // JSON-LD to XML state
+  const [jsonLdFile, setJsonLdFile] = useState<File | null>(null);
+  const [jsonLdFileContent, setJsonLdFileContent] = useState<string | null>(null);
+  const [jsonLdToXmlOptions, setJsonLdToXmlOptions] = useState<JsonLdToXmlOptions>({
+    epcisVersion: '2.0'
+  });
+  const [jsonLdXmlResult, setJsonLdXmlResult] = useState<string | null>(null);
+  const [jsonLdXmlWarnings, setJsonLdXmlWarnings] = useState<ConversionWarning[]>([]);
+  const [jsonLdXmlProcessing, setJsonLdXmlProcessing] = useState(false);
+  
   // JSON-LD transformation state
   const [jsonFile, setJsonFile] = useState<File | null>(null);
   const [jsonFileContent, setJsonFileContent] = useState<string | null>(null);
   const [jsonOptions, setJsonOptions] = useState<JsonLdTransformOptions>({
     prettyPrint: true,
-    includeContext: true
+    includeContext: true,
+    validate: false,
+    validateEpcs: false
   });
   const [jsonResult, setJsonResult] = useState<string | null>(null);
   const [jsonProcessing, setJsonProcessing] = useState(false);
   const [useXmlResultAsInput, setUseXmlResultAsInput] = useState(false);
   
-  // OpenEPCIS API state
+  // Conversion engine state
   const [openEpcisApiStatus, setOpenEpcisApiStatus] = useState<'loading' | 'connected' | 'disconnected'>('loading');
   const [openEpcisXmlFile, setOpenEpcisXmlFile] = useState<File | null>(null);
   const [openEpcisXmlContent, setOpenEpcisXmlContent] = useState<string | null>(null);
   const [openEpcisResult, setOpenEpcisResult] = useState<string | null>(null);
   const [openEpcisProcessing, setOpenEpcisProcessing] = useState(false);
+  const [engines, setEngines] = useState<string[]>([DEFAULT_ENGINE]);
+  const [engine, setEngine] = useState(DEFAULT_ENGINE);
   const [openEpcisMode, setOpenEpcisMode] = useState<'xml12-to-xml20' | 'xml20-to-jsonld' | 'xml12-to-jsonld'>('xml12-to-xml20');
   
   const { toast } = useToast();
   
-  // Check OpenEPCIS API connection when the tab is selected
+  // Load the engines the server offers
+  useEffect(() => {
+    listEngines()
+      .then(setEngines)
+      .catch((error) => {
+        toast({
+          title: 'Engines Unavailable',
+          description: (error as Error).message,
+          variant: 'destructive'
+        });
+      });
+  }, [toast]);
+  
+  // Check the connection of the selected engine when the tab is selected or the engine changes
   useEffect(() => {
     if (activeTab === 'openepcis') {
       const checkConnection = async () => {
         setOpenEpcisApiStatus('loading');
         try {
-          await testOpenEpcisConnection();
+          await testEngineConnection(engine);
           setOpenEpcisApiStatus('connected');
           toast({
-            title: 'OpenEPCIS API Connected',
-            description: 'Successfully connected to OpenEPCIS API endpoints',
+            title: 'Engine Connected',
+            description: `Successfully connected with the ${engine} engine`,
           });
         } catch (error) {
           setOpenEpcisApiStatus('disconnected');
           toast({
-            title: 'OpenEPCIS API Unavailable',
-            description: 'Could not connect to OpenEPCIS API. Using local implementation.',
+            title: 'Engine Unavailable',
+            description: `Could not connect with the ${engine} engine`,
             variant: 'destructive'
           });
         }
@@ -85,9 +136,9 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
       
       checkConnection();
     }
-  }, [activeTab, toast]);
+  }, [activeTab, engine, toast]);
   
-  // Handle OpenEPCIS file selection
+  // Handle engine tab file selection
   const handleOpenEpcisFileSelect = async (file: File) => {
     try {
       const content = await readFileAsText(file);
@@ -98,8 +149,8 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
       addStatusMessage({
         id: nanoid(),
         type: 'info',
-        title: `File "${file.name}" selected for OpenEPCIS API`,
-        description: 'Ready for transformation via OpenEPCIS API',
+        title: `File "${file.name}" selected for the ${engine} engine`,
+        description: `Ready for transformation with the ${engine} engine`,
         timestamp: new Date().toISOString()
       });
     } catch (error) {
@@ -136,6 +187,56 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
     }
   };
   
+  // Handle EPCIS 2.0 file selection for the downgrade
+  const handleDowngradeFileSelect = async (file: File) => {
+    try {
+      const content = await readFileAsText(file);
+      setDowngradeFile(file);
+      setDowngradeFileContent(content);
+      setDowngradeResult(null); // Clear previous results
+      setDowngradeWarnings([]);
+      
+      addStatusMessage({
+        id: nanoid(),
+        type: 'info',
+        title: `File "${file.name}" selected`,
+        description: 'Ready for EPCIS 1.2 conversion',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      toast({
+        title: 'File Read Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+  
+  // Handle JSON-LD file selection for the conversion back to XML
+  const handleJsonLdFileSelect = async (file: File) => {
+    try {
+      const content = await readFileAsText(file);
+      setJsonLdFile(file);
+      setJsonLdFileContent(content);
+      setJsonLdXmlResult(null); // Clear previous results
+      setJsonLdXmlWarnings([]);
+      
+      addStatusMessage({
+        id: nanoid(),
+        type: 'info',
+        title: `File "${file.name}" selected`,
+        description: 'Ready for XML conversion',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      toast({
+        title: 'File Read Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+  
   // Handle JSON file selection
   const handleJsonFileSelect = async (file: File) => {
     try {
@@ -209,6 +310,108 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
     }
   };
   
+  // Perform EPCIS 2.0 to 1.2 downgrade
+  const handleDowngradeTransform = async () => {
+    if (!downgradeFile || !downgradeFileContent) return;
+    
+    setDowngradeProcessing(true);
+    const statusId = nanoid();
+    
+    addStatusMessage({
+      id: statusId,
+      type: 'processing',
+      title: 'Processing XML downgrade',
+      description: 'Converting EPCIS 2.0 to 1.2 format',
+      timestamp: new Date().toISOString()
+    });
+    
+    try {
+      const { result, warnings } = await convertToEpcis12Xml(downgradeFileContent, downgradeOptions);
+      
+      // Data EPCIS 1.2 cannot represent is reported rather than dropped silently
+      addStatusMessage({
+        id: statusId,
+        type: warnings.length > 0 ? 'warning' : 'success',
+        title: 'XML downgrade complete',
+        description: warnings.length > 0
+          ? `EPCIS 1.2 XML generated, ${warnings.length} element(s) could not be represented`
+          : 'EPCIS 1.2 XML generated successfully',
+        timestamp: new Date().toISOString()
+      });
+      
+      setDowngradeResult(result);
+      setDowngradeWarnings(warnings);
+    } catch (error) {
+      // Handle error
+      addStatusMessage({
+        id: statusId,
+        type: 'error',
+        title: 'XML downgrade failed',
+        description: (error as Error).message,
+        timestamp: new Date().toISOString()
+      });
+      
+      toast({
+        title: 'Transformation Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setDowngradeProcessing(false);
+    }
+  };
+  
+  // Perform JSON-LD to XML conversion
+  const handleJsonLdToXmlTransform = async () => {
+    if (!jsonLdFile || !jsonLdFileContent) return;
+    
+    setJsonLdXmlProcessing(true);
+    const statusId = nanoid();
+    const version = jsonLdToXmlOptions.epcisVersion;
+    
+    addStatusMessage({
+      id: statusId,
+      type: 'processing',
+      title: 'Processing JSON-LD conversion',
+      description: `Converting EPCIS 2.0 JSON-LD to EPCIS ${version} XML`,
+      timestamp: new Date().toISOString()
+    });
+    
+    try {
+      const { result, warnings } = await convertJsonLdToXml(jsonLdFileContent, jsonLdToXmlOptions);
+      
+      addStatusMessage({
+        id: statusId,
+        type: warnings.length > 0 ? 'warning' : 'success',
+        title: 'JSON-LD conversion complete',
+        description: warnings.length > 0
+          ? `EPCIS ${version} XML generated, ${warnings.length} field(s) could not be written`
+          : `EPCIS ${version} XML generated successfully`,
+        timestamp: new Date().toISOString()
+      });
+      
+      setJsonLdXmlResult(result);
+      setJsonLdXmlWarnings(warnings);
+    } catch (error) {
+      // Handle error
+      addStatusMessage({
+        id: statusId,
+        type: 'error',
+        title: 'JSON-LD conversion failed',
+        description: (error as Error).message,
+        timestamp: new Date().toISOString()
+      });
+      
+      toast({
+        title: 'Transformation Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setJsonLdXmlProcessing(false);
+    }
+  };
+  
   // Perform JSON-LD transformation
   const handleJsonTransform = async () => {
     // Determine what content to use as input
@@ -282,7 +485,7 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
     }
   };
   
-  // Perform transformation using the OpenEPCIS API
+  // Perform transformation with the selected engine
   const handleOpenEpcisTransform = async () => {
     if (!openEpcisXmlFile || !openEpcisXmlContent) {
       toast({
@@ -312,7 +515,7 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
     addStatusMessage({
       id: statusId,
       type: 'processing',
-      title: 'Processing via OpenEPCIS API',
+      title: `Processing with the ${engine} engine`,
       description: operationDescription,
       timestamp: new Date().toISOString()
     });
@@ -323,15 +526,15 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
       // Perform the appropriate transformation based on the selected mode
       switch (openEpcisMode) {
         case 'xml12-to-xml20':
-          result = await convertToEpcis20XmlViaOpenEpcis(openEpcisXmlContent, xmlOptions);
+          result = await convertToEpcis20Xml(openEpcisXmlContent, xmlOptions, engine);
           break;
           
         case 'xml20-to-jsonld':
-          result = await convertToJsonLdViaOpenEpcis(openEpcisXmlContent, jsonOptions);
+          result = await convertToJsonLd(openEpcisXmlContent, jsonOptions, engine);
           break;
           
         case 'xml12-to-jsonld':
-          result = await convertFrom12ToJsonLdViaOpenEpcis(openEpcisXmlContent, jsonOptions);
+          result = await convertFrom12ToJsonLd(openEpcisXmlContent, jsonOptions, engine);
           break;
       }
       
@@ -339,8 +542,8 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
       addStatusMessage({
         id: statusId,
         type: 'success',
-        title: 'OpenEPCIS transformation complete',
-        description: `Successfully processed via OpenEPCIS API`,
+        title: 'Engine transformation complete',
+        description: `Successfully processed with the ${engine} engine`,
         timestamp: new Date().toISOString()
       });
       
@@ -350,13 +553,13 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
       addStatusMessage({
         id: statusId,
         type: 'error',
-        title: 'OpenEPCIS transformation failed',
+        title: 'Engine transformation failed',
         description: (error as Error).message,
         timestamp: new Date().toISOString()
       });
       
       toast({
-        title: 'OpenEPCIS API Error',
+        title: 'Engine Error',
         description: (error as Error).message,
         variant: 'destructive'
       });
@@ -392,12 +595,24 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
             >
               EPCIS 2.0 XML to JSON-LD
             </TabsTrigger>
+            <TabsTrigger 
+              value="xml12" 
+              className="px-6 py-4 font-medium text-sm data-[state=active]:text-primary data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none"
+            >
+              EPCIS 2.0 to 1.2 XML
+            </TabsTrigger>
+            <TabsTrigger 
+              value="jsonld-xml" 
+              className="px-6 py-4 font-medium text-sm data-[state=active]:text-primary data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none"
+            >
+              JSON-LD to XML
+            </TabsTrigger>
             <TabsTrigger 
               value="openepcis" 
               className="px-6 py-4 font-medium text-sm data-[state=active]:text-primary data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none"
             >
               <CloudIcon className="w-4 h-4 mr-1 inline" />
-              OpenEPCIS API
+              Conversion Engines
             </TabsTrigger>
             <TabsTrigger 
               value="module" 
@@ -516,6 +731,91 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
           )}
         </TabsContent>
         
+        {/* EPCIS 2.0 to 1.2 Downgrade Tab */}
+        <TabsContent value="xml12" className="p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Convert EPCIS 2.0 XML to EPCIS 1.2 XML</h3>
+          
+          <FileUploader 
+            onFileSelect={handleDowngradeFileSelect}
+            accept=".xml"
+            title="Upload EPCIS 2.0 XML File"
+            description="File should be a valid EPCIS 2.0 XML document"
+          />
+          
+          <div className="bg-gray-50 rounded-md p-4 mb-6">
+            <h4 className="text-sm font-medium text-gray-700 mb-3">Transformation Options</h4>
+            <div className="flex items-center mb-2">
+              <Checkbox 
+                id="downgrade-validate-xml" 
+                checked={downgradeOptions.validateXml}
+                onCheckedChange={(checked) => 
+                  setDowngradeOptions({...downgradeOptions, validateXml: checked as boolean})
+                }
+              />
+              <Label htmlFor="downgrade-validate-xml" className="ml-2 text-sm text-gray-700">
+                Validate XML before transformation
+              </Label>
+            </div>
+            <div className="flex items-center">
+              <Checkbox 
+                id="downgrade-preserve-comments" 
+                checked={downgradeOptions.preserveComments}
+                onCheckedChange={(checked) => 
+                  setDowngradeOptions({...downgradeOptions, preserveComments: checked as boolean})
+                }
+              />
+              <Label htmlFor="downgrade-preserve-comments" className="ml-2 text-sm text-gray-700">
+                Preserve XML comments
+              </Label>
+            </div>
+          </div>
+          
+          <Button 
+            className="w-full"
+            disabled={!downgradeFile || downgradeProcessing}
+            onClick={handleDowngradeTransform}
+          >
+            {downgradeProcessing ? (
+              <>
+                <RefreshCwIcon className="mr-2 h-4 w-4 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              <>
+                <RefreshCwIcon className="mr-2 h-4 w-4" />
+                Transform to EPCIS 1.2 XML
+              </>
+            )}
+          </Button>
+          
+          {downgradeResult && (
+            <div className="mt-6">
+              {downgradeWarnings.length > 0 && (
+                <Alert className="bg-amber-50 border-amber-200 mb-4">
+                  <AlertTriangleIcon className="h-4 w-4 text-amber-500 mr-2" />
+                  <AlertTitle className="text-amber-700">Data not representable in EPCIS 1.2</AlertTitle>
+                  <AlertDescription className="text-amber-600">
+                    <ul className="list-disc list-inside text-sm">
+                      {downgradeWarnings.map((warning, index) => (
+                        <li key={`${warning.path}-${index}`}>
+                          <code>{warning.path}</code>: {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              
+              <TransformResult 
+                content={downgradeResult} 
+                fileName="epcis12.xml" 
+                contentType="application/xml" 
+                language="xml"
+              />
+            </div>
+          )}
+        </TabsContent>
+        
         {/* JSON-LD Transformation Tab */}
         <TabsContent value="json" className="p-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Transform EPCIS 2.0 XML to JSON-LD</h3>
@@ -587,6 +887,18 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
                 Include JSON-LD @context
               </Label>
             </div>
+            <div className="flex items-center mt-2">
+              <Checkbox 
+                id="validate-jsonld" 
+                checked={jsonOptions.validate}
+                onCheckedChange={(checked) => 
+                  setJsonOptions({...jsonOptions, validate: checked as boolean})
+                }
+              />
+              <Label htmlFor="validate-jsonld" className="ml-2 text-sm text-gray-700">
+                Validate output against the EPCIS 2.0 JSON Schema
+              </Label>
+            </div>
           </div>
           
           <Button 
@@ -617,36 +929,125 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
           )}
         </TabsContent>
         
-        {/* OpenEPCIS API Tab */}
+        {/* JSON-LD to XML Tab */}
+        <TabsContent value="jsonld-xml" className="p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Convert EPCIS 2.0 JSON-LD to XML</h3>
+          
+          <FileUploader 
+            onFileSelect={handleJsonLdFileSelect}
+            accept=".jsonld,.json"
+            title="Upload EPCIS 2.0 JSON-LD File"
+            description="File should be a valid EPCIS 2.0 JSON-LD document"
+          />
+          
+          <div className="bg-gray-50 rounded-md p-4 mb-6">
+            <h4 className="text-sm font-medium text-gray-700 mb-3">Transformation Options</h4>
+            <div className="flex items-center">
+              <Checkbox 
+                id="jsonld-xml-epcis12" 
+                checked={jsonLdToXmlOptions.epcisVersion === '1.2'}
+                onCheckedChange={(checked) => 
+                  setJsonLdToXmlOptions({...jsonLdToXmlOptions, epcisVersion: checked ? '1.2' : '2.0'})
+                }
+              />
+              <Label htmlFor="jsonld-xml-epcis12" className="ml-2 text-sm text-gray-700">
+                Produce EPCIS 1.2 XML instead of 2.0
+              </Label>
+            </div>
+          </div>
+          
+          <Button 
+            className="w-full"
+            disabled={!jsonLdFile || jsonLdXmlProcessing}
+            onClick={handleJsonLdToXmlTransform}
+          >
+            {jsonLdXmlProcessing ? (
+              <>
+                <RefreshCwIcon className="mr-2 h-4 w-4 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              <>
+                <RefreshCwIcon className="mr-2 h-4 w-4" />
+                Transform to EPCIS {jsonLdToXmlOptions.epcisVersion} XML
+              </>
+            )}
+          </Button>
+          
+          {jsonLdXmlResult && (
+            <div className="mt-6">
+              {jsonLdXmlWarnings.length > 0 && (
+                <Alert className="bg-amber-50 border-amber-200 mb-4">
+                  <AlertTriangleIcon className="h-4 w-4 text-amber-500 mr-2" />
+                  <AlertTitle className="text-amber-700">Fields not written to XML</AlertTitle>
+                  <AlertDescription className="text-amber-600">
+                    <ul className="list-disc list-inside text-sm">
+                      {jsonLdXmlWarnings.map((warning, index) => (
+                        <li key={`${warning.path}-${index}`}>
+                          <code>{warning.path}</code>: {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              
+              <TransformResult 
+                content={jsonLdXmlResult} 
+                fileName={jsonLdToXmlOptions.epcisVersion === '1.2' ? 'epcis12.xml' : 'epcis20.xml'} 
+                contentType="application/xml" 
+                language="xml"
+              />
+            </div>
+          )}
+        </TabsContent>
+        
+        {/* Conversion Engines Tab */}
         <TabsContent value="openepcis" className="p-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4">
             <CloudIcon className="w-5 h-5 inline-block mr-2" />
-            OpenEPCIS API Transformation
+            Conversion Engine Transformation
           </h3>
           
+          <div className="bg-gray-50 rounded-md p-4 mb-6">
+            <Label htmlFor="conversion-engine" className="text-sm font-medium text-gray-700">
+              Conversion engine
+            </Label>
+            <Select value={engine} onValueChange={setEngine}>
+              <SelectTrigger id="conversion-engine" className="mt-2 w-full md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {engines.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
           <div className="mb-6">
             {openEpcisApiStatus === 'loading' ? (
               <Alert>
                 <RefreshCwIcon className="h-4 w-4 animate-spin mr-2" />
-                <AlertTitle>Checking connection to OpenEPCIS API...</AlertTitle>
+                <AlertTitle>Checking the {engine} engine...</AlertTitle>
                 <AlertDescription>
-                  Verifying connection to OpenEPCIS API endpoints at tools.openepcis.io
+                  Verifying the connection of the {engine} engine to its service
                 </AlertDescription>
               </Alert>
             ) : openEpcisApiStatus === 'connected' ? (
               <Alert className="bg-green-50 border-green-200">
                 <WifiIcon className="h-4 w-4 text-green-500 mr-2" />
-                <AlertTitle className="text-green-700">Connected to OpenEPCIS API</AlertTitle>
+                <AlertTitle className="text-green-700">Connected with the {engine} engine</AlertTitle>
                 <AlertDescription className="text-green-600">
-                  Successfully connected to OpenEPCIS API. You can use the remote transformation capabilities.
+                  The {engine} engine is ready for transformations.
                 </AlertDescription>
               </Alert>
             ) : (
               <Alert className="bg-amber-50 border-amber-200">
                 <WifiOffIcon className="h-4 w-4 text-amber-500 mr-2" />
-                <AlertTitle className="text-amber-700">OpenEPCIS API Connection Issue</AlertTitle>
+                <AlertTitle className="text-amber-700">{engine} Engine Connection Issue</AlertTitle>
                 <AlertDescription className="text-amber-600">
-                  Could not connect to OpenEPCIS API status endpoint. Transformations will still be attempted.
+                  Could not connect with the {engine} engine. Transformations will still be attempted.
                 </AlertDescription>
               </Alert>
             )}
@@ -772,6 +1173,18 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
                   Include JSON-LD @context
                 </Label>
               </div>
+              <div className="flex items-center mt-2">
+                <Checkbox 
+                  id="openepcis-validate-jsonld" 
+                  checked={jsonOptions.validate}
+                  onCheckedChange={(checked) => 
+                    setJsonOptions({...jsonOptions, validate: checked as boolean})
+                  }
+                />
+                <Label htmlFor="openepcis-validate-jsonld" className="ml-2 text-sm text-gray-700">
+                  Validate output against the EPCIS 2.0 JSON Schema
+                </Label>
+              </div>
             </div>
           )}
           
@@ -783,12 +1196,12 @@ export default function TabsContainer({ addStatusMessage }: TabsContainerProps)
             {openEpcisProcessing ? (
               <>
                 <RefreshCwIcon className="mr-2 h-4 w-4 animate-spin" />
-                Processing via OpenEPCIS API...
+                Processing with the {engine} engine...
               </>
             ) : (
               <>
                 <CloudIcon className="mr-2 h-4 w-4" />
-                Transform using OpenEPCIS API
+                Transform with the {engine} engine
               </>
             )}
           </Button>
@@ -876,26 +1289,29 @@ const jsonld = await epcisTransformer.convertToJsonLd(epcis20Xml);`}</code></pre
               OpenEPCIS API Integration
             </h4>
             <div className="bg-gray-800 rounded-md p-4 mb-4">
-              <pre className="text-gray-200 text-sm"><code>{`const { openEpcisClient } = require('epcis-transformer');
+              <pre className="text-gray-200 text-sm"><code>{`const { createTransformer } = require('epcis-transformer');
+
+// The same conversions on the openepcis engine instead of the local one
+const openEpcis = createTransformer({ engine: 'openepcis' });
 
 // Convert EPCIS 1.2 XML to EPCIS 2.0 XML using OpenEPCIS API
-const epcis20Xml = await openEpcisClient.convertToEpcis20Xml(epcis12XmlString);
+const epcis20Xml = await openEpcis.convertToEpcis20Xml(epcis12XmlString, options);
 
 // Transform EPCIS 2.0 XML to JSON-LD using OpenEPCIS API
-const jsonld = await openEpcisClient.convertToJsonLd(epcis20Xml);
+const jsonld = await openEpcis.convertToJsonLd(epcis20Xml, jsonOptions);
 
 // Direct conversion from EPCIS 1.2 XML to JSON-LD
-const jsonldResult = await openEpcisClient.convertFrom12ToJsonLd(epcis12XmlString);
+const jsonldResult = await openEpcis.convertFrom12ToJsonLd(epcis12XmlString, jsonOptions);
 
 // Test if OpenEPCIS API is accessible
-const isConnected = await openEpcisClient.testConnection();`}</code></pre>
+const isConnected = await openEpcis.testConnection();`}</code></pre>
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
                 <div className="bg-gray-50 rounded-md p-4">
-                  <h5 className="font-medium text-gray-800 mb-2">OpenEPCIS API Methods</h5>
-                  <p className="text-sm text-gray-600 mb-2">Access to OpenEPCIS API endpoints (tools.openepcis.io)</p>
+                  <h5 className="font-medium text-gray-800 mb-2">Transformer Methods</h5>
+                  <p className="text-sm text-gray-600 mb-2">Every engine has them: local, xslt, openepcis (tools.openepcis.io) and engines added with registerEngine</p>
                   <ul className="text-xs text-gray-600 list-disc list-inside">
                     <li><code>convertToEpcis20Xml(xml, options)</code></li>
                     <li><code>convertToJsonLd(xml, options)</code></li>
@@ -911,7 +1327,7 @@ const isConnected = await openEpcisClient.testConnection();`}</code></pre>
                   <div className="text-xs text-gray-600">
                     <code>./epcis-cli.sh convert-to-epcis20 input.xml --remote</code><br/>
                     <code>./epcis-cli.sh convert-to-jsonld input.xml --remote</code><br/>
-                    <code>./epcis-cli.sh convert-from-12-to-jsonld input.xml --remote</code>
+                    <code>./epcis-cli.sh convert-from-12-to-jsonld input.xml --engine openepcis</code>
                   </div>
                 </div>
               </div>
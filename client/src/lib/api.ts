@@ -1,62 +1,85 @@
 import { apiRequest } from './queryClient';
-import type { XmlTransformOptions, JsonLdTransformOptions } from '@shared/schema';
+import type {
+  XmlTransformOptions,
+  Xml12TransformOptions,
+  JsonLdTransformOptions,
+  JsonLdToXmlOptions,
+  ConversionWarning
+} from '@shared/schema';
 
-// Local implementations
+// Conversions, run by the local engine unless another engine is named, e.g. 'openepcis'
 
 /**
- * Converts EPCIS 1.2 XML to EPCIS 2.0 XML using local implementation
+ * Converts EPCIS 1.2 XML to EPCIS 2.0 XML
  */
-export async function convertToEpcis20Xml(xml: string, options?: XmlTransformOptions): Promise<string> {
-  const response = await apiRequest('POST', '/api/convert-to-epcis20-xml', { xml, options });
+export async function convertToEpcis20Xml(xml: string, options?: XmlTransformOptions, engine?: string): Promise<string> {
+  const response = await apiRequest('POST', '/api/convert-to-epcis20-xml', { xml, options, engine });
   const data = await response.json();
   return data.result;
 }
 
 /**
- * Converts EPCIS 2.0 XML to JSON-LD format using local implementation
+ * Converts EPCIS 2.0 XML back to EPCIS 1.2 XML using local implementation.
+ * The warnings list data that EPCIS 1.2 cannot represent.
  */
-export async function convertToJsonLd(xml: string, options?: JsonLdTransformOptions): Promise<string> {
-  const response = await apiRequest('POST', '/api/convert-to-jsonld', { xml, options });
+export async function convertToEpcis12Xml(
+  xml: string,
+  options?: Xml12TransformOptions
+): Promise<{ result: string; warnings: ConversionWarning[] }> {
+  const response = await apiRequest('POST', '/api/convert-to-epcis12-xml', { xml, options });
   const data = await response.json();
-  return data.result;
+  return { result: data.result, warnings: data.warnings };
 }
 
-// OpenEPCIS API implementations
-
 /**
- * Tests the connection to the OpenEPCIS API
+ * Converts EPCIS 2.0 XML to JSON-LD format
  */
-export async function testOpenEpcisConnection(): Promise<{ status: string; message: string }> {
-  const response = await apiRequest('GET', '/api/openepcis/test-connection');
+export async function convertToJsonLd(xml: string, options?: JsonLdTransformOptions, engine?: string): Promise<string> {
+  const response = await apiRequest('POST', '/api/convert-to-jsonld', { xml, options, engine });
   const data = await response.json();
-  return data;
+  return data.result;
 }
 
 /**
- * Converts EPCIS 1.2 XML to EPCIS 2.0 XML using OpenEPCIS API
+ * Converts EPCIS 1.2 XML directly to JSON-LD
  */
-export async function convertToEpcis20XmlViaOpenEpcis(xml: string, options?: XmlTransformOptions): Promise<string> {
-  const response = await apiRequest('POST', '/api/openepcis/convert-to-epcis20-xml', { xml, options });
+export async function convertFrom12ToJsonLd(xml: string, options?: JsonLdTransformOptions, engine?: string): Promise<string> {
+  const response = await apiRequest('POST', '/api/convert-from-12-to-jsonld', { xml, options, engine });
   const data = await response.json();
   return data.result;
 }
 
 /**
- * Converts EPCIS 2.0 XML to JSON-LD format using OpenEPCIS API
+ * Converts EPCIS 2.0 JSON-LD back to EPCIS 2.0 or 1.2 XML using local implementation.
+ * The warnings list fields that could not be written as XML.
  */
-export async function convertToJsonLdViaOpenEpcis(xml: string, options?: JsonLdTransformOptions): Promise<string> {
-  const response = await apiRequest('POST', '/api/openepcis/convert-to-jsonld', { xml, options });
+export async function convertJsonLdToXml(
+  jsonLd: string,
+  options?: JsonLdToXmlOptions
+): Promise<{ result: string; warnings: ConversionWarning[] }> {
+  const response = await apiRequest('POST', '/api/convert-jsonld-to-xml', { jsonLd, options });
   const data = await response.json();
-  return data.result;
+  return { result: data.result, warnings: data.warnings };
 }
 
+// Conversion engines
+
 /**
- * Converts EPCIS 1.2 XML directly to JSON-LD using OpenEPCIS API
+ * Lists the names of the conversion engines the server offers
  */
-export async function convertFrom12ToJsonLdViaOpenEpcis(xml: string, options?: JsonLdTransformOptions): Promise<string> {
-  const response = await apiRequest('POST', '/api/openepcis/convert-from-12-to-jsonld', { xml, options });
+export async function listEngines(): Promise<string[]> {
+  const response = await apiRequest('GET', '/api/engines');
   const data = await response.json();
-  return data.result;
+  return data.engines;
+}
+
+/**
+ * Tests the connection of a conversion engine to its service, such as the OpenEPCIS API
+ */
+export async function testEngineConnection(engine: string): Promise<{ status: string; message: string }> {
+  const response = await apiRequest('GET', `/api/engines/${encodeURIComponent(engine)}/test-connection`);
+  const data = await response.json();
+  return data;
 }
 
 /**
@@ -0,0 +1,146 @@
+/**
+ * Core Business Vocabulary helpers shared by the rule packs and the converters.
+ *
+ * CBV values appear as URNs (urn:epcglobal:cbv:bizstep:shipping) in EPCIS XML, as GS1 Web URIs
+ * (https://ref.gs1.org/cbv/BizStep-shipping) in newer data and as bare terms in JSON-LD.
+ * The converters write them in one of these forms, checked against the bundled CBV 2.0 lists.
+ */
+
+import { isEpcisElement } from './namespaces';
+import { getXPath, forEachElement } from './utils';
+import type { CbvFormat, ConversionWarning } from '@shared/schema';
+
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+export type CbvVocabulary = 'bizstep' | 'disp' | 'btt' | 'sdt' | 'er';
+
+// Terms of the CBV 2.0 standard vocabularies
+export const CBV_TERMS: Record<CbvVocabulary, readonly string[]> = {
+  bizstep: [
+    'accepting', 'arriving', 'assembling', 'collecting', 'commissioning', 'consigning', 'creating_class_instance',
+    'cycle_counting', 'decommissioning', 'departing', 'destroying', 'disassembling', 'dispensing', 'encoding',
+    'entering_exiting', 'holding', 'inspecting', 'installing', 'killing', 'loading', 'other', 'packing', 'picking',
+    'receiving', 'removing', 'repackaging', 'repairing', 'replacing', 'reserving', 'retail_selling', 'sampling',
+    'sensor_reporting', 'shipping', 'staging_outbound', 'stock_taking', 'stocking', 'storing', 'transporting',
+    'unloading', 'unpacking', 'void_shipping'
+  ],
+  disp: [
+    'active', 'available', 'completeness_inferred', 'completeness_verified', 'conformant', 'container_closed',
+    'container_open', 'damaged', 'destroyed', 'dispensed', 'disposed', 'encoded', 'expired', 'in_progress',
+    'in_transit', 'inactive', 'mismatch_class', 'mismatch_instance', 'mismatch_quantity', 'needs_replacement',
+    'no_pedigree_match', 'non_conformant', 'non_sellable_other', 'partially_dispensed', 'recalled', 'reserved',
+    'retail_sold', 'returned', 'sellable_accessible', 'sellable_not_accessible', 'stolen', 'unavailable', 'unknown'
+  ],
+  btt: ['bol', 'cert', 'desadv', 'inv', 'pedigree', 'po', 'poc', 'prodorder', 'recadv', 'rma', 'testprd', 'testres', 'upevt'],
+  sdt: ['location', 'owning_party', 'possessing_party'],
+  er: ['did_not_occur', 'incorrect_data']
+};
+
+// Names of the vocabularies in warnings
+const VOCABULARY_LABELS: Record<CbvVocabulary, string> = {
+  bizstep: 'business step',
+  disp: 'disposition',
+  btt: 'business transaction type',
+  sdt: 'source/destination type',
+  er: 'error reason'
+};
+
+// Name of each vocabulary in GS1 Web URIs
+const WEB_VOCABULARY_NAMES: Record<CbvVocabulary, string> = {
+  bizstep: 'BizStep',
+  disp: 'Disp',
+  btt: 'BTT',
+  sdt: 'SDT',
+  er: 'ER'
+};
+
+/**
+ * Reduces a CBV value in URN, Web URI or bare form to its bare term, e.g. shipping.
+ * Returns null for empty values and values from other vocabularies.
+ */
+export function toCbvTerm(value: string | null | undefined, vocabulary: CbvVocabulary): string | null {
+  if (!value) {
+    return null;
+  }
+  const prefix = [`urn:epcglobal:cbv:${vocabulary}:`, `https://ref.gs1.org/cbv/${WEB_VOCABULARY_NAMES[vocabulary]}-`]
+    .find(candidate => value.startsWith(candidate));
+  if (prefix) {
+    return value.substring(prefix.length);
+  }
+  return value.includes(':') ? null : value;
+}
+
+/**
+ * Writes a CBV value in the given form and tells whether its term is in the CBV 2.0 list of the
+ * vocabulary. Terms missing from the list are written in the form all the same. URIs of other
+ * vocabularies are returned unchanged, and reported as unknown when they use a CBV namespace.
+ */
+export function formatCbvValue(
+  value: string,
+  vocabulary: CbvVocabulary,
+  format: CbvFormat
+): { value: string; known: boolean } {
+  const term = toCbvTerm(value, vocabulary);
+  if (term === null) {
+    return { value, known: !value.startsWith('urn:epcglobal:cbv:') && !value.startsWith('https://ref.gs1.org/cbv/') };
+  }
+  const known = CBV_TERMS[vocabulary].includes(term);
+  switch (format) {
+    case 'urn':
+      return { value: `urn:epcglobal:cbv:${vocabulary}:${term}`, known };
+    case 'webUri':
+      return { value: `https://ref.gs1.org/cbv/${WEB_VOCABULARY_NAMES[vocabulary]}-${term}`, known };
+    default:
+      return { value: term, known };
+  }
+}
+
+/**
+ * Rewrites the CBV values of an EPCIS document in place to the given form: bizStep, disposition,
+ * persistentDisposition, the bizTransaction, source and destination types and the error
+ * declaration reason. Values that are not CBV 2.0 terms are reported.
+ */
+export function normalizeCbvValues(root: XmlDomElement, format: CbvFormat): ConversionWarning[] {
+  const warnings: ConversionWarning[] = [];
+  const normalize = (value: string, vocabulary: CbvVocabulary, path: string, write: (value: string) => void) => {
+    const formatted = formatCbvValue(value, vocabulary, format);
+    if (!formatted.known) {
+      warnings.push({ path, message: `'${value}' is not a CBV 2.0 ${VOCABULARY_LABELS[vocabulary]}` });
+    }
+    if (formatted.value !== value) {
+      write(formatted.value);
+    }
+  };
+
+  forEachElement(root, element => {
+    const textVocabulary = getTextVocabulary(element);
+    if (textVocabulary) {
+      normalize((element.textContent || '').trim(), textVocabulary, getXPath(element), value => {
+        element.textContent = value;
+      });
+    }
+    const type = element.getAttribute('type');
+    if (type && ['bizTransaction', 'source', 'destination'].some(name => isEpcisElement(element, name))) {
+      normalize(type, isEpcisElement(element, 'bizTransaction') ? 'btt' : 'sdt', `${getXPath(element)}/@type`, value => {
+        element.setAttribute('type', value);
+      });
+    }
+  });
+  return warnings;
+}
+
+/**
+ * Gives the vocabulary of an element whose text is a CBV value
+ */
+function getTextVocabulary(element: XmlDomElement): CbvVocabulary | null {
+  const parent = element.parentNode as XmlDomElement | null;
+  const isChildOf = (name: string) => !!parent && isEpcisElement(parent, name);
+  if (isEpcisElement(element, 'bizStep')) {
+    return 'bizstep';
+  }
+  if (isEpcisElement(element, 'disposition')
+    || ((isEpcisElement(element, 'set') || isEpcisElement(element, 'unset')) && isChildOf('persistentDisposition'))) {
+    return 'disp';
+  }
+  return isEpcisElement(element, 'reason') && isChildOf('errorDeclaration') ? 'er' : null;
+}
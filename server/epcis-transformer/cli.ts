@@ -1,12 +1,14 @@
 #!/usr/bin/env node
-import { program } from 'commander';
+import { program, Option } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { openEpcisClient } from './openEpcisClient';
+import { pipeline } from 'stream/promises';
+import type { Transform } from 'stream';
 import { ValidationError, TransformationError } from './utils';
+import { identifierFormatOptionsSchema, ruleValidationOptionsSchema, type ConversionWarning, type EpcisVersion, type IdentifierFormatOptions, type JsonLdTransformOptions, type XmlTransformOptions } from '@shared/schema';
 
-// Local implementations
-import { convertToEpcis20Xml, convertToJsonLd } from './index';
+// Conversions and the engines behind createTransformer
+import { convertToEpcis12Xml, convertJsonLdToXml, createTransformer, listEngines, transform, validateEpcis } from './index';
 
 // Define the CLI version
 program.version('1.0.0');
@@ -32,33 +34,177 @@ const writeFile = (filePath: string, content: string): void => {
   }
 };
 
+// Helper function to convert a file through conversion streams into a file or stdout
+const streamFile = async (inputFile: string, outputFile: string | undefined, ...converters: Transform[]): Promise<void> => {
+  const input = fs.createReadStream(path.resolve(inputFile));
+  if (outputFile) {
+    await pipeline([input, ...converters, fs.createWriteStream(path.resolve(outputFile))]);
+    console.log(`File written successfully: ${outputFile}`);
+  } else {
+    await pipeline([input, ...converters, process.stdout], { end: false });
+    process.stdout.write('\n');
+  }
+};
+
+// Helper function to list the individual schema validation issues of a validation error
+const printValidationIssues = (error: ValidationError): void => {
+  error.errors.forEach(issue => {
+    if ('pointer' in issue) {
+      console.error(`  ${issue.pointer || '(document root)'}: ${issue.message}`);
+      return;
+    }
+    const position = issue.line !== null ? `line ${issue.line}, column ${issue.column ?? '?'}` : 'unknown position';
+    console.error(`  ${position}${issue.xpath ? ` at ${issue.xpath}` : ''}: ${issue.message}`);
+  });
+};
+
+// Helper function to report data a conversion could not carry over or did not recognise
+const printWarning = (warning: ConversionWarning): void => {
+  console.warn(`Warning: ${warning.path}: ${warning.message}`);
+};
+
+// Helper function to report the EPCIS version an input document was detected as
+const printSourceVersion = (version: EpcisVersion): void => {
+  console.error(`Detected EPCIS ${version} input`);
+};
+
+// Helper function to pick the conversion engine of a command, --remote standing for the openepcis engine
+const selectEngine = (options: Record<string, any>) => {
+  const transformer = createTransformer({ engine: options.remote ? 'openepcis' : options.engine });
+  console.error(`Using the ${transformer.engine} engine${transformer.createEpcis20XmlStream ? ', streaming events' : ''}...`);
+  return transformer;
+};
+
+// Helper function to read the identifier format options of the EPCIS 2.0 conversions
+const parseIdentifierFormatOptions = (options: Record<string, any>): IdentifierFormatOptions => {
+  const settings = identifierFormatOptionsSchema.safeParse({
+    identifierFormat: options.identifierFormat,
+    digitalLinkDomain: options.digitalLinkDomain,
+    companyPrefixLengths: options.companyPrefixLength && Object.fromEntries(
+      options.companyPrefixLength.map((setting: string) => {
+        const [prefix, length] = setting.split('=');
+        return [prefix, Number(length)];
+      })
+    )
+  });
+  if (!settings.success) {
+    console.error('Error: Invalid identifier setting, expected --identifier-format urn|digitalLink, a --digital-link-domain URL and <prefix>=<6-12> company prefix lengths');
+    process.exit(1);
+  }
+  return settings.data;
+};
+
+// Command to convert any supported EPCIS format to another
+program
+  .command('convert')
+  .description('Convert EPCIS 1.x XML, EPCIS 2.0 XML or JSON-LD to the given format, detecting the input format')
+  .argument('<inputFile>', 'Input EPCIS XML or JSON-LD file path')
+  .addOption(new Option('-t, --to <format>', 'Format to produce').choices(['epcis12-xml', 'epcis20-xml', 'jsonld']).makeOptionMandatory())
+  .option('-o, --output <outputFile>', 'Output file path')
+  .option('-v, --validate', 'Validate the input and output of every conversion step')
+  .action(async (inputFile, options) => {
+    try {
+      const input = readFile(inputFile);
+      const { result, sourceFormat, chain, warnings } = await transform(input, {
+        to: options.to,
+        validate: options.validate === true
+      });
+
+      console.error(`Detected ${sourceFormat} input, converting ${chain.join(' -> ')}`);
+      warnings.forEach(printWarning);
+
+      if (options.output) {
+        writeFile(options.output, result);
+      } else {
+        console.log(result);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        console.error(`Validation Error: ${error.message}`);
+        printValidationIssues(error);
+      } else if (error instanceof TransformationError) {
+        console.error(`Transformation Error: ${error.message}`);
+      } else {
+        console.error(`Error: ${(error as Error).message}`);
+      }
+      process.exit(1);
+    }
+  });
+
 // Command to convert EPCIS 1.2 XML to EPCIS 2.0 XML
 program
   .command('convert-to-epcis20')
-  .description('Convert EPCIS 1.2 XML to EPCIS 2.0 XML')
-  .argument('<inputFile>', 'Input EPCIS 1.2 XML file path')
+  .description('Convert EPCIS 1.x XML to EPCIS 2.0 XML')
+  .argument('<inputFile>', 'Input EPCIS 1.0, 1.1 or 1.2 XML file path')
   .option('-o, --output <outputFile>', 'Output file path')
-  .option('-r, --remote', 'Use OpenEPCIS remote API instead of local implementation')
+  .option('-r, --remote', 'Use the OpenEPCIS remote API, the same as --engine openepcis')
   .option('-p, --preserve-comments', 'Preserve comments in the XML')
   .option('-v, --validate', 'Validate XML before conversion')
+  .option('-e, --engine <engine>', `Conversion engine: ${listEngines().join(', ')}`, 'local')
+  .option('--validate-epcs', 'Reject input with invalid EPC URNs')
+  .option('-i, --identifier-format <format>', 'Write identifiers as EPC URNs (urn) or GS1 Digital Link URIs (digitalLink)')
+  .option('--digital-link-domain <url>', 'Domain of the Digital Link URIs written', 'https://id.gs1.org')
+  .option('--company-prefix-length <setting...>', 'Company prefix length of keys starting with the given digits, as <prefix>=<length>')
+  .addOption(new Option('--cbv-format <format>', 'Write CBV values as bare terms, URNs or GS1 Web URIs').choices(['bare', 'urn', 'webUri']))
+  .option('--assign-event-ids', 'Give events without an eventID their CBV 2.0 event hash ID')
   .action(async (inputFile, options) => {
     try {
-      const xml = readFile(inputFile);
-      let result: string;
+      const identifierOptions = parseIdentifierFormatOptions(options);
+      const transformer = selectEngine(options);
+      const xmlOptions: XmlTransformOptions = {
+        preserveComments: options.preserveComments || false,
+        validateXml: options.validate || false,
+        validateEpcs: options.validateEpcs || false,
+        ...identifierOptions,
+        cbvFormat: options.cbvFormat,
+        assignEventIds: options.assignEventIds === true,
+        onWarning: printWarning,
+        onSourceVersion: printSourceVersion
+      };
 
-      if (options.remote) {
-        console.log('Using OpenEPCIS remote API...');
-        result = await openEpcisClient.convertToEpcis20Xml(xml, {
-          preserveComments: options.preserveComments || false,
-          validateXml: options.validate || false
-        });
+      // Schema validation needs the whole document, otherwise streaming engines convert the file event by event
+      if (transformer.createEpcis20XmlStream && !xmlOptions.validateXml) {
+        await streamFile(inputFile, options.output, transformer.createEpcis20XmlStream(xmlOptions));
+        return;
+      }
+      const result = await transformer.convertToEpcis20Xml(readFile(inputFile), xmlOptions);
+
+      if (options.output) {
+        writeFile(options.output, result);
       } else {
-        console.log('Using local implementation...');
-        result = await convertToEpcis20Xml(xml, {
-          preserveComments: options.preserveComments || false,
-          validateXml: options.validate || false
-        });
+        console.log(result);
       }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        console.error(`Validation Error: ${error.message}`);
+        printValidationIssues(error);
+      } else if (error instanceof TransformationError) {
+        console.error(`Transformation Error: ${error.message}`);
+      } else {
+        console.error(`Error: ${(error as Error).message}`);
+      }
+      process.exit(1);
+    }
+  });
+
+// Command to convert EPCIS 2.0 XML back to EPCIS 1.2 XML
+program
+  .command('convert-to-epcis12')
+  .description('Convert EPCIS 2.0 XML to EPCIS 1.2 XML')
+  .argument('<inputFile>', 'Input EPCIS 2.0 XML file path')
+  .option('-o, --output <outputFile>', 'Output file path')
+  .option('-p, --preserve-comments', 'Preserve comments in the XML')
+  .option('-v, --validate', 'Validate XML before conversion')
+  .action(async (inputFile, options) => {
+    try {
+      const xml = readFile(inputFile);
+      const { xml: result, warnings } = await convertToEpcis12Xml(xml, {
+        preserveComments: options.preserveComments || false,
+        validateXml: options.validate || false
+      });
+
+      // Report data that EPCIS 1.2 cannot represent
+      warnings.forEach(printWarning);
 
       if (options.output) {
         writeFile(options.output, result);
@@ -68,6 +214,7 @@ program
     } catch (error) {
       if (error instanceof ValidationError) {
         console.error(`Validation Error: ${error.message}`);
+        printValidationIssues(error);
       } else if (error instanceof TransformationError) {
         console.error(`Transformation Error: ${error.message}`);
       } else {
@@ -83,27 +230,72 @@ program
   .description('Convert EPCIS 2.0 XML to JSON-LD')
   .argument('<inputFile>', 'Input EPCIS 2.0 XML file path')
   .option('-o, --output <outputFile>', 'Output file path')
-  .option('-r, --remote', 'Use OpenEPCIS remote API instead of local implementation')
+  .option('-r, --remote', 'Use the OpenEPCIS remote API, the same as --engine openepcis')
+  .option('-e, --engine <engine>', `Conversion engine: ${listEngines().join(', ')}`, 'local')
   .option('-n, --no-pretty', 'Disable pretty printing of JSON')
   .option('-c, --no-context', 'Exclude JSON-LD context')
+  .option('-v, --validate', 'Validate the JSON-LD output against the EPCIS 2.0 JSON Schema')
+  .option('--validate-epcs', 'Reject input with invalid EPC URNs')
+  .option('-i, --identifier-format <format>', 'Write identifiers as EPC URNs (urn) or GS1 Digital Link URIs (digitalLink)')
+  .option('--digital-link-domain <url>', 'Domain of the Digital Link URIs written', 'https://id.gs1.org')
+  .option('--company-prefix-length <setting...>', 'Company prefix length of keys starting with the given digits, as <prefix>=<length>')
+  .addOption(new Option('--cbv-format <format>', 'Write CBV values as bare terms, URNs or GS1 Web URIs').choices(['bare', 'urn', 'webUri']))
+  .option('--assign-event-ids', 'Give events without an eventID their CBV 2.0 event hash ID')
   .action(async (inputFile, options) => {
     try {
-      const xml = readFile(inputFile);
-      let result: string;
+      const identifierOptions = parseIdentifierFormatOptions(options);
+      const transformer = selectEngine(options);
+      const jsonOptions: JsonLdTransformOptions = {
+        prettyPrint: options.pretty !== false,
+        includeContext: options.context !== false,
+        validate: options.validate === true,
+        validateEpcs: options.validateEpcs === true,
+        ...identifierOptions,
+        cbvFormat: options.cbvFormat,
+        assignEventIds: options.assignEventIds === true,
+        onWarning: printWarning
+      };
 
-      if (options.remote) {
-        console.log('Using OpenEPCIS remote API...');
-        result = await openEpcisClient.convertToJsonLd(xml, {
-          prettyPrint: options.pretty !== false,
-          includeContext: options.context !== false
-        });
+      if (transformer.createJsonLdStream) {
+        await streamFile(inputFile, options.output, transformer.createJsonLdStream(jsonOptions));
+        return;
+      }
+      const result = await transformer.convertToJsonLd(readFile(inputFile), jsonOptions);
+
+      if (options.output) {
+        writeFile(options.output, result);
       } else {
-        console.log('Using local implementation...');
-        result = await convertToJsonLd(xml, {
-          prettyPrint: options.pretty !== false,
-          includeContext: options.context !== false
-        });
+        console.log(result);
       }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        console.error(`Validation Error: ${error.message}`);
+        printValidationIssues(error);
+      } else if (error instanceof TransformationError) {
+        console.error(`Transformation Error: ${error.message}`);
+      } else {
+        console.error(`Error: ${(error as Error).message}`);
+      }
+      process.exit(1);
+    }
+  });
+
+// Command to convert EPCIS 2.0 JSON-LD back to EPCIS XML
+program
+  .command('convert-jsonld-to-xml')
+  .description('Convert EPCIS 2.0 JSON-LD to EPCIS 2.0 or 1.2 XML')
+  .argument('<inputFile>', 'Input EPCIS 2.0 JSON-LD file path')
+  .option('-o, --output <outputFile>', 'Output file path')
+  .option('-e, --epcis-version <version>', 'EPCIS version of the XML: 2.0 or 1.2', '2.0')
+  .action(async (inputFile, options) => {
+    try {
+      const jsonLd = readFile(inputFile);
+      const { xml: result, warnings } = await convertJsonLdToXml(jsonLd, {
+        epcisVersion: options.epcisVersion
+      });
+
+      // Report fields that could not be written as XML
+      warnings.forEach(printWarning);
 
       if (options.output) {
         writeFile(options.output, result);
@@ -113,6 +305,7 @@ program
     } catch (error) {
       if (error instanceof ValidationError) {
         console.error(`Validation Error: ${error.message}`);
+        printValidationIssues(error);
       } else if (error instanceof TransformationError) {
         console.error(`Transformation Error: ${error.message}`);
       } else {
@@ -125,32 +318,47 @@ program
 // Command to convert EPCIS 1.2 XML directly to JSON-LD
 program
   .command('convert-from-12-to-jsonld')
-  .description('Convert EPCIS 1.2 XML directly to JSON-LD')
-  .argument('<inputFile>', 'Input EPCIS 1.2 XML file path')
+  .description('Convert EPCIS 1.x XML directly to JSON-LD')
+  .argument('<inputFile>', 'Input EPCIS 1.0, 1.1 or 1.2 XML file path')
   .option('-o, --output <outputFile>', 'Output file path')
-  .option('-r, --remote', 'Use OpenEPCIS remote API')
+  .option('-r, --remote', 'Use the OpenEPCIS remote API, the same as --engine openepcis')
+  .option('-e, --engine <engine>', `Conversion engine: ${listEngines().join(', ')}`, 'local')
   .option('-n, --no-pretty', 'Disable pretty printing of JSON')
   .option('-c, --no-context', 'Exclude JSON-LD context')
+  .option('-v, --validate', 'Validate the JSON-LD output against the EPCIS 2.0 JSON Schema')
+  .option('--validate-epcs', 'Reject input with invalid EPC URNs')
+  .option('-i, --identifier-format <format>', 'Write identifiers as EPC URNs (urn) or GS1 Digital Link URIs (digitalLink)')
+  .option('--digital-link-domain <url>', 'Domain of the Digital Link URIs written', 'https://id.gs1.org')
+  .option('--company-prefix-length <setting...>', 'Company prefix length of keys starting with the given digits, as <prefix>=<length>')
+  .addOption(new Option('--cbv-format <format>', 'Write CBV values as bare terms, URNs or GS1 Web URIs').choices(['bare', 'urn', 'webUri']))
+  .option('--assign-event-ids', 'Give events without an eventID their CBV 2.0 event hash ID')
   .action(async (inputFile, options) => {
     try {
-      const xml = readFile(inputFile);
-      let result: string;
+      const identifierOptions = parseIdentifierFormatOptions(options);
+      const transformer = selectEngine(options);
+      const jsonOptions: JsonLdTransformOptions = {
+        prettyPrint: options.pretty !== false,
+        includeContext: options.context !== false,
+        validate: options.validate === true,
+        validateEpcs: options.validateEpcs === true,
+        ...identifierOptions,
+        cbvFormat: options.cbvFormat,
+        assignEventIds: options.assignEventIds === true,
+        onWarning: printWarning
+      };
 
-      if (options.remote) {
-        console.log('Using OpenEPCIS remote API...');
-        result = await openEpcisClient.convertFrom12ToJsonLd(xml, {
-          prettyPrint: options.pretty !== false,
-          includeContext: options.context !== false
-        });
-      } else {
-        console.log('Using local implementation...');
-        // For local implementation, we'll do a two-step process
-        const epcis20Xml = await convertToEpcis20Xml(xml);
-        result = await convertToJsonLd(epcis20Xml, {
-          prettyPrint: options.pretty !== false,
-          includeContext: options.context !== false
-        });
+      // With a streaming engine, each event goes through EPCIS 2.0 XML on its way to JSON-LD
+      if (transformer.createEpcis20XmlStream && transformer.createJsonLdStream) {
+        await streamFile(inputFile, options.output, transformer.createEpcis20XmlStream({
+          validateXml: false,
+          preserveComments: false,
+          validateEpcs: false,
+          onWarning: printWarning,
+          onSourceVersion: printSourceVersion
+        }), transformer.createJsonLdStream(jsonOptions));
+        return;
       }
+      const result = await transformer.convertFrom12ToJsonLd(readFile(inputFile), jsonOptions);
 
       if (options.output) {
         writeFile(options.output, result);
@@ -160,6 +368,60 @@ program
     } catch (error) {
       if (error instanceof ValidationError) {
         console.error(`Validation Error: ${error.message}`);
+        printValidationIssues(error);
+      } else if (error instanceof TransformationError) {
+        console.error(`Transformation Error: ${error.message}`);
+      } else {
+        console.error(`Error: ${(error as Error).message}`);
+      }
+      process.exit(1);
+    }
+  });
+
+// Command to check EPCIS XML against the business rules
+program
+  .command('validate')
+  .description('Check EPCIS 1.x or 2.0 XML against the business rules')
+  .argument('<inputFile>', 'Input EPCIS XML file path')
+  .option('-s, --schema', 'Also validate against the EPCIS XSD')
+  .option('-p, --rule-pack <name...>', 'Enable an optional rule pack: dscsa')
+  .option('-r, --rule <setting...>', 'Set a rule severity (error, warning, info or off), e.g. disposition-matches-bizstep=off')
+  .option('-j, --json', 'Print the report as JSON')
+  .action(async (inputFile, options) => {
+    try {
+      const xml = readFile(inputFile);
+      const settings = ruleValidationOptionsSchema.safeParse({
+        rules: Object.fromEntries((options.rule || []).map((setting: string) => setting.split('='))),
+        rulePacks: options.rulePack || [],
+        schema: options.schema === true
+      });
+      if (!settings.success) {
+        console.error('Error: Invalid --rule or --rule-pack setting, expected <rule-id>=error|warning|info|off and a known rule pack');
+        process.exit(1);
+      }
+      const report = await validateEpcis(xml, settings.data);
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else if (report.issues.length === 0) {
+        console.log('No issues found');
+      } else {
+        report.issues.forEach(issue => {
+          const location = [issue.eventIndex !== null ? `event ${issue.eventIndex}` : null, issue.xpath]
+            .filter(Boolean)
+            .join(' ');
+          console.log(`${issue.severity.toUpperCase()} [${issue.ruleId}] ${location ? `${location}: ` : ''}${issue.message}`);
+        });
+      }
+
+      // Issues with severity error make the document invalid
+      if (!report.valid) {
+        process.exit(1);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        console.error(`Validation Error: ${error.message}`);
+        printValidationIssues(error);
       } else if (error instanceof TransformationError) {
         console.error(`Transformation Error: ${error.message}`);
       } else {
@@ -169,17 +431,19 @@ program
     }
   });
 
-// Test connection to OpenEPCIS API
+// Test the connection of a conversion engine, the OpenEPCIS API unless given
 program
   .command('test-connection')
-  .description('Test connection to OpenEPCIS API')
-  .action(async () => {
+  .description('Test the connection of a conversion engine to its service')
+  .option('-e, --engine <engine>', `Conversion engine: ${listEngines().join(', ')}`, 'openepcis')
+  .action(async (options) => {
     try {
-      const isConnected = await openEpcisClient.testConnection();
+      const transformer = createTransformer({ engine: options.engine });
+      const isConnected = await transformer.testConnection();
       if (isConnected) {
-        console.log('Connection to OpenEPCIS API successful');
+        console.log(`Connection of the ${transformer.engine} engine successful`);
       } else {
-        console.error('Failed to connect to OpenEPCIS API');
+        console.error(`Failed to connect with the ${transformer.engine} engine`);
         process.exit(1);
       }
     } catch (error) {
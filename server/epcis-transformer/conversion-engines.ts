@@ -0,0 +1,251 @@
+/**
+ * Conversion engines behind one transformer interface.
+ *
+ * An engine converts EPCIS 1.x XML to EPCIS 2.0 XML and EPCIS 2.0 XML to JSON-LD, either in process
+ * or through a service such as the OpenEPCIS API. The routes, the CLI and the UI pick an engine by
+ * name, and registerEngine adds engines of your own, e.g. a client of an in-house conversion
+ * service, under a name of their own. createRemoteEngine makes an engine of a service that only
+ * converts documents, applying the conversion options locally.
+ */
+
+import type { Transform } from 'stream';
+import { XMLSerializer } from '@xmldom/xmldom';
+import { convertToEpcis20Xml, removeComments } from './xml-converter';
+import { convertToJsonLd, assignEventIds } from './json-converter';
+import { createEpcis20XmlStream, createJsonLdStream } from './stream-converter';
+import { detectEpcisVersion, upgradeToEpcis12 } from './epcis-versions';
+import { assertValidEpcisXml } from './schema-validator';
+import { assertValidJsonLd } from './jsonld-validator';
+import { assertValidEpcs } from './epc-uri';
+import { rewriteIdentifiers } from './digital-link';
+import { normalizeCbvValues } from './cbv';
+import { isEpcisDocument } from './namespaces';
+import { openEpcisClient } from './openEpcisClient';
+import { ValidationError, TransformationError, parseXml } from './utils';
+import type { XmlTransformOptions, JsonLdTransformOptions, CbvFormat } from '@shared/schema';
+
+type XmlDomDocument = import('@xmldom/xmldom').Document;
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+/**
+ * What an engine implements. Engines without a direct EPCIS 1.x XML to JSON-LD conversion go
+ * through EPCIS 2.0 XML, and engines without a connection test count as reachable.
+ */
+export interface ConversionEngine {
+  name: string;
+  convertToEpcis20Xml(xml: string, options: XmlTransformOptions): Promise<string>;
+  convertToJsonLd(xml: string, options: JsonLdTransformOptions): Promise<string>;
+  convertFrom12ToJsonLd?(xml: string, options: JsonLdTransformOptions): Promise<string>;
+  // Event by event conversion of files too large to hold in memory
+  createEpcis20XmlStream?(options: XmlTransformOptions): Transform;
+  createJsonLdStream?(options: JsonLdTransformOptions): Transform;
+  testConnection?(): Promise<boolean>;
+}
+
+/**
+ * The conversions of one engine, as createTransformer gives them
+ */
+export interface Transformer {
+  engine: string;
+  convertToEpcis20Xml(xml: string, options: XmlTransformOptions): Promise<string>;
+  convertToJsonLd(xml: string, options: JsonLdTransformOptions): Promise<string>;
+  convertFrom12ToJsonLd(xml: string, options: JsonLdTransformOptions): Promise<string>;
+  // Set when the engine can stream
+  createEpcis20XmlStream?(options: XmlTransformOptions): Transform;
+  createJsonLdStream?(options: JsonLdTransformOptions): Transform;
+  testConnection(): Promise<boolean>;
+}
+
+export interface TransformerOptions {
+  // Name of a registered engine or an engine of your own, 'local' unless given
+  engine?: string | ConversionEngine;
+}
+
+/**
+ * A service that converts documents without taking any conversion options, such as the OpenEPCIS API
+ */
+export interface ConversionService {
+  name: string;
+  convertToEpcis20Xml(xml: string): Promise<string>;
+  // Gives the JSON-LD as text
+  convertToJsonLd(xml: string): Promise<string>;
+  testConnection?(): Promise<boolean>;
+}
+
+const localEngine: ConversionEngine = {
+  name: 'local',
+  convertToEpcis20Xml: (xml, options) => convertToEpcis20Xml(xml, options),
+  convertToJsonLd: (xml, options) => convertToJsonLd(xml, options),
+  createEpcis20XmlStream: options => createEpcis20XmlStream(options),
+  createJsonLdStream: options => createJsonLdStream(options)
+};
+
+// The local engine with the 1.x upgrade run by the bundled GS1 stylesheet
+const xsltEngine: ConversionEngine = {
+  ...localEngine,
+  name: 'xslt',
+  convertToEpcis20Xml: (xml, options) => convertToEpcis20Xml(xml, { ...options, engine: 'xslt' }),
+  createEpcis20XmlStream: options => createEpcis20XmlStream({ ...options, engine: 'xslt' })
+};
+
+/**
+ * Makes an engine of a conversion service. The options are applied around the service call as the
+ * local engine applies them: the source version is detected and 1.0 and 1.1 documents upgraded,
+ * EPCs and schemas checked, identifiers and CBV values rewritten in the input and event IDs
+ * assigned. Options that depend on how the service writes its output, kept comments and CBV
+ * values other than bare terms in JSON-LD, are rejected with a ValidationError.
+ */
+export function createRemoteEngine(service: ConversionService): ConversionEngine {
+  const engine: ConversionEngine = {
+    name: service.name,
+    async convertToEpcis20Xml(xml, options) {
+      if (options.preserveComments) {
+        throw new ValidationError(`The ${service.name} engine does not keep comments`);
+      }
+      if (options.validateXml) {
+        await assertValidEpcisXml(xml, 'Input document');
+      }
+
+      const doc = parseEpcisXml(xml);
+      const sourceVersion = detectEpcisVersion(doc.documentElement!);
+      options.onSourceVersion?.(sourceVersion);
+      upgradeToEpcis12(doc.documentElement!, sourceVersion).forEach(warning => options.onWarning?.(warning));
+      prepareInput(doc.documentElement!, options, options.cbvFormat);
+      removeComments(doc);
+
+      let result = await service.convertToEpcis20Xml(new XMLSerializer().serializeToString(doc));
+      // Event hashes are taken from the EPCIS 2.0 form of the events
+      if (options.assignEventIds) {
+        const converted = parseEpcisXml(result);
+        assignEventIds(converted.documentElement!);
+        result = new XMLSerializer().serializeToString(converted);
+      }
+
+      if (options.validateXml) {
+        await assertValidEpcisXml(result, 'Converted document');
+      }
+      return result;
+    },
+    async convertToJsonLd(xml, options) {
+      if (options.cbvFormat && options.cbvFormat !== 'bare') {
+        throw new ValidationError(`The ${service.name} engine writes CBV values in JSON-LD as bare terms, not as cbvFormat '${options.cbvFormat}'`);
+      }
+
+      const doc = parseEpcisXml(xml);
+      prepareInput(doc.documentElement!, options, 'bare');
+      if (options.assignEventIds) {
+        assignEventIds(doc.documentElement!);
+      }
+
+      const document = JSON.parse(await service.convertToJsonLd(new XMLSerializer().serializeToString(doc)));
+      if (!options.includeContext) {
+        delete document['@context'];
+      }
+      if (options.validate) {
+        assertValidJsonLd(document, 'Converted document');
+      }
+      return JSON.stringify(document, null, options.prettyPrint ? 2 : 0);
+    }
+  };
+  if (service.testConnection) {
+    engine.testConnection = service.testConnection.bind(service);
+  }
+  return engine;
+}
+
+function parseEpcisXml(xml: string): XmlDomDocument {
+  const doc = parseXml(xml);
+  if (!doc.documentElement || !isEpcisDocument(doc.documentElement)) {
+    throw new ValidationError('Not an EPCIS document');
+  }
+  return doc;
+}
+
+/**
+ * Checks the EPCs of a document and rewrites its identifiers and CBV values before it goes to a service
+ */
+function prepareInput(root: XmlDomElement, options: XmlTransformOptions | JsonLdTransformOptions, cbvFormat?: CbvFormat): void {
+  if (options.validateEpcs) {
+    assertValidEpcs(root, 'Input document');
+  }
+  rewriteIdentifiers(root, options);
+  if (cbvFormat) {
+    normalizeCbvValues(root, cbvFormat).forEach(warning => options.onWarning?.(warning));
+  }
+}
+
+// Conversions run by the OpenEPCIS API; 1.x documents reach JSON-LD through EPCIS 2.0 XML
+const openEpcisEngine = createRemoteEngine({
+  name: 'openepcis',
+  convertToEpcis20Xml: xml => openEpcisClient.convertToEpcis20Xml(xml),
+  convertToJsonLd: xml => openEpcisClient.convertToJsonLd(xml, { prettyPrint: false, includeContext: true, validate: false, validateEpcs: false }),
+  testConnection: () => openEpcisClient.testConnection()
+});
+
+const engines = new Map<string, ConversionEngine>(
+  [localEngine, xsltEngine, openEpcisEngine].map(engine => [engine.name, engine])
+);
+
+/**
+ * Makes an engine available by its name, replacing any engine registered under that name
+ */
+export function registerEngine(engine: ConversionEngine): void {
+  if (!/^[a-z][a-z0-9-]*$/.test(engine.name)) {
+    throw new ValidationError(`Engine name '${engine.name}' must be lowercase letters, digits and dashes`);
+  }
+  engines.set(engine.name, engine);
+}
+
+/**
+ * Names of the registered engines, the built-in local, xslt and openepcis first
+ */
+export function listEngines(): string[] {
+  return Array.from(engines.keys());
+}
+
+/**
+ * Gives the conversions of a registered engine or an engine of your own. Errors other than a
+ * ValidationError or TransformationError are reported as a TransformationError naming the engine.
+ */
+export function createTransformer(options: TransformerOptions = {}): Transformer {
+  const engine = typeof options.engine === 'object' ? options.engine : engines.get(options.engine || 'local');
+  if (!engine) {
+    throw new ValidationError(`Unknown conversion engine '${options.engine}', expected one of ${listEngines().join(', ')}`);
+  }
+
+  const run = async (conversion: () => Promise<string>): Promise<string> => {
+    try {
+      return await conversion();
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof TransformationError) {
+        throw error;
+      }
+      throw new TransformationError(`Conversion engine ${engine.name} failed: ${(error as Error).message}`);
+    }
+  };
+
+  const transformer: Transformer = {
+    engine: engine.name,
+    convertToEpcis20Xml: (xml, xmlOptions) => run(() => engine.convertToEpcis20Xml(xml, xmlOptions)),
+    convertToJsonLd: (xml, jsonOptions) => run(() => engine.convertToJsonLd(xml, jsonOptions)),
+    convertFrom12ToJsonLd: (xml, jsonOptions) => run(async () => engine.convertFrom12ToJsonLd
+      ? engine.convertFrom12ToJsonLd(xml, jsonOptions)
+      : engine.convertToJsonLd(
+        await engine.convertToEpcis20Xml(xml, {
+          validateXml: false,
+          preserveComments: false,
+          validateEpcs: false,
+          onWarning: jsonOptions.onWarning
+        }),
+        jsonOptions
+      )),
+    testConnection: async () => engine.testConnection ? engine.testConnection() : true
+  };
+  if (engine.createEpcis20XmlStream) {
+    transformer.createEpcis20XmlStream = engine.createEpcis20XmlStream.bind(engine);
+  }
+  if (engine.createJsonLdStream) {
+    transformer.createJsonLdStream = engine.createJsonLdStream.bind(engine);
+  }
+  return transformer;
+}
@@ -0,0 +1,277 @@
+/**
+ * Conversion between EPC URNs and GS1 Digital Link URIs, which EPCIS 2.0 accepts in place of URNs,
+ * e.g. urn:epc:id:sgtin:0614141.112345.400 and https://id.gs1.org/01/10614141123459/21/400.
+ *
+ * Digital Link URIs carry the GS1 key without saying where its company prefix ends, which URNs
+ * need. Writing URNs therefore takes the company prefix lengths from the companyPrefixLengths
+ * option, keyed by leading digits of the key, and assumes 7 digits for keys it does not cover.
+ */
+
+import { buildKeyDigits, computeCheckDigit, decodeEscapes, hasValidCheckDigit, inspectEpc } from './epc-uri';
+import { forEachElement } from './utils';
+import { isEpcisElement } from './namespaces';
+import type { IdentifierFormatOptions } from '@shared/schema';
+
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+export const DEFAULT_DIGITAL_LINK_DOMAIN = 'https://id.gs1.org';
+
+// Company prefix length assumed for keys the companyPrefixLengths option does not cover
+const DEFAULT_COMPANY_PREFIX_LENGTH = 7;
+
+// Application identifiers of the primary keys a Digital Link URI path starts with
+const PRIMARY_KEY_AIS = ['01', '00', '414', '417', '8003', '8004', '8018', '253'];
+
+/**
+ * Converts a valid EPC URN to its GS1 Digital Link URI. Of the patterns only the GTIN-level
+ * urn:epc:idpat:sgtin:CP.IIR.* has a counterpart, the URI of the GTIN itself.
+ * Returns null for anything else, including URNs that are not valid.
+ */
+export function toDigitalLink(urn: string, domain: string = DEFAULT_DIGITAL_LINK_DOMAIN): string | null {
+  const inspection = inspectEpc(urn);
+  if (!inspection.valid) {
+    return null;
+  }
+  const base = domain.replace(/\/+$/, '');
+  const part = (name: string) => decodeEscapes(inspection.components.find(component => component.name === name)?.value || '');
+
+  if (inspection.type === 'idpat') {
+    if (inspection.scheme !== 'sgtin' || part('indicatorItemReference') === '*' || part('serial') !== '*') {
+      return null;
+    }
+    const keyDigits = buildKeyDigits('sgtin', part('companyPrefix'), part('indicatorItemReference'));
+    return `${base}/01/${keyDigits}${computeCheckDigit(keyDigits)}`;
+  }
+
+  const key = inspection.gs1Key!.value;
+  switch (inspection.scheme) {
+    case 'sgtin':
+      return `${base}/01/${key}/21/${encodeDigitalLinkPart(part('serial'))}`;
+    case 'lgtin':
+      return `${base}/01/${key}/10/${encodeDigitalLinkPart(part('lot'))}`;
+    case 'sscc':
+      return `${base}/00/${key}`;
+    case 'sgln':
+      // Extension 0 stands for the GLN without an extension
+      return `${base}/414/${key}` + (part('extension') !== '0' ? `/254/${encodeDigitalLinkPart(part('extension'))}` : '');
+    case 'pgln':
+      return `${base}/417/${key}`;
+    case 'grai':
+      return `${base}/8003/${key}${encodeDigitalLinkPart(part('serial'))}`;
+    case 'giai':
+      return `${base}/8004/${encodeDigitalLinkPart(key)}`;
+    case 'gsrn':
+      return `${base}/8018/${key}`;
+    case 'gdti':
+      return `${base}/253/${key}${encodeDigitalLinkPart(part('serial'))}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts a GS1 Digital Link URI on any domain to its EPC URN, a GTIN without serial or lot
+ * becoming the urn:epc:idpat:sgtin pattern of the GTIN. Returns null for URIs that are not
+ * Digital Link, have a bad check digit or carry qualifiers EPC URNs have no place for.
+ */
+export function toEpcUrn(uri: string, companyPrefixLengths: Record<string, number> = {}): string | null {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  // Digital Link paths may start with segments of their own before the primary key
+  const segments = url.pathname.split('/').filter(segment => segment !== '');
+  const start = segments.findIndex(segment => PRIMARY_KEY_AIS.includes(segment));
+  if (start === -1 || (segments.length - start) % 2 !== 0) {
+    return null;
+  }
+  const values = new Map<string, string>();
+  try {
+    for (let i = start; i < segments.length; i += 2) {
+      values.set(segments[i], decodeURIComponent(segments[i + 1]));
+    }
+  } catch {
+    return null;
+  }
+
+  const keyAi = segments[start];
+  const qualifiers = Array.from(values.keys()).filter(ai => ai !== keyAi);
+  const hasQualifiers = (...allowed: string[]) => qualifiers.every(ai => allowed.includes(ai));
+  const prefixLength = (digits: string) => companyPrefixLength(digits, companyPrefixLengths);
+  let key = values.get(keyAi)!;
+  let urn: string | null = null;
+
+  switch (keyAi) {
+    case '01': {
+      // GTIN-8, -12 and -13 are written as GTIN-14 with leading zeros in EPCs
+      key = /^\d{8}$|^\d{12,13}$/.test(key) ? key.padStart(14, '0') : key;
+      if (!/^\d{14}$/.test(key) || qualifiers.length > 1 || !hasQualifiers('21', '10')) {
+        return null;
+      }
+      const length = prefixLength(key.slice(1, 13));
+      const parts = `${key.slice(1, 1 + length)}.${key[0]}${key.slice(1 + length, 13)}`;
+      urn = values.has('21')
+        ? `urn:epc:id:sgtin:${parts}.${escapeUrnPart(values.get('21')!)}`
+        : values.has('10')
+          ? `urn:epc:class:lgtin:${parts}.${escapeUrnPart(values.get('10')!)}`
+          : `urn:epc:idpat:sgtin:${parts}.*`;
+      break;
+    }
+    case '00': {
+      if (!/^\d{18}$/.test(key) || !hasQualifiers()) {
+        return null;
+      }
+      const length = prefixLength(key.slice(1, 17));
+      urn = `urn:epc:id:sscc:${key.slice(1, 1 + length)}.${key[0]}${key.slice(1 + length, 17)}`;
+      break;
+    }
+    case '414':
+    case '417': {
+      if (!/^\d{13}$/.test(key) || !hasQualifiers(...(keyAi === '414' ? ['254'] : []))) {
+        return null;
+      }
+      const length = prefixLength(key);
+      const parts = `${key.slice(0, length)}.${key.slice(length, 12)}`;
+      urn = keyAi === '414'
+        ? `urn:epc:id:sgln:${parts}.${escapeUrnPart(values.get('254') ?? '0')}`
+        : `urn:epc:id:pgln:${parts}`;
+      break;
+    }
+    case '8003':
+    case '253': {
+      // A GRAI starts with a 0 before its 13 digits, the serial follows the key in the same element
+      const match = key.match(keyAi === '8003' ? /^0(\d{13})(.+)$/ : /^(\d{13})(.+)$/);
+      if (!match || !hasQualifiers()) {
+        return null;
+      }
+      const [, digits, serial] = match;
+      key = digits;
+      const length = prefixLength(digits);
+      urn = `urn:epc:id:${keyAi === '8003' ? 'grai' : 'gdti'}:${digits.slice(0, length)}.${digits.slice(length, 12)}.${escapeUrnPart(serial)}`;
+      break;
+    }
+    case '8004': {
+      const length = prefixLength(key);
+      if (!new RegExp(`^\\d{${length}}`).test(key) || !hasQualifiers()) {
+        return null;
+      }
+      return checkedUrn(`urn:epc:id:giai:${key.slice(0, length)}.${escapeUrnPart(key.slice(length))}`);
+    }
+    case '8018': {
+      if (!/^\d{18}$/.test(key) || !hasQualifiers()) {
+        return null;
+      }
+      const length = prefixLength(key);
+      urn = `urn:epc:id:gsrn:${key.slice(0, length)}.${key.slice(length, 17)}`;
+      break;
+    }
+  }
+
+  return urn && hasValidCheckDigit(key) ? checkedUrn(urn) : null;
+}
+
+/**
+ * Gives the canonical form of an EPC URN or a GS1 Digital Link URI, the Digital Link URI on
+ * id.gs1.org, for comparing identifiers whatever form they were written in.
+ * Returns null for anything else.
+ */
+export function toCanonicalDigitalLink(value: string): string | null {
+  if (value.startsWith('urn:epc:')) {
+    return toDigitalLink(value);
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  const segments = url.pathname.split('/').filter(segment => segment !== '');
+  const start = segments.findIndex(segment => PRIMARY_KEY_AIS.includes(segment));
+  if ((url.protocol !== 'https:' && url.protocol !== 'http:') || start === -1 || (segments.length - start) % 2 !== 0) {
+    return null;
+  }
+  try {
+    const path = segments.slice(start).map(segment => encodeDigitalLinkPart(decodeURIComponent(segment)));
+    return `${DEFAULT_DIGITAL_LINK_DOMAIN}/${path.join('/')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrites the identifiers of an EPCIS document in place to the identifierFormat option: the EPCs,
+ * parentIDs and epcClasses, readPoint and bizLocation ids, sources and destinations, and the
+ * ids of master data VocabularyElements. Identifiers that have no counterpart are left as they are.
+ */
+export function rewriteIdentifiers(root: XmlDomElement, options: IdentifierFormatOptions): void {
+  if (!options.identifierFormat) {
+    return;
+  }
+  const rewrite = options.identifierFormat === 'digitalLink'
+    ? (value: string) => toDigitalLink(value, options.digitalLinkDomain)
+    : (value: string) => toEpcUrn(value, options.companyPrefixLengths);
+
+  forEachElement(root, element => {
+    if (isIdentifierElement(element)) {
+      const rewritten = rewrite((element.textContent || '').trim());
+      if (rewritten) {
+        element.textContent = rewritten;
+      }
+    } else if (isEpcisElement(element, 'VocabularyElement')) {
+      const rewritten = rewrite(element.getAttribute('id') || '');
+      if (rewritten) {
+        element.setAttribute('id', rewritten);
+      }
+    }
+  });
+}
+
+function isIdentifierElement(element: XmlDomElement): boolean {
+  if (['epc', 'parentID', 'epcClass', 'source', 'destination'].some(name => isEpcisElement(element, name))) {
+    return true;
+  }
+  const parent = element.parentNode as XmlDomElement | null;
+  return isEpcisElement(element, 'id') && !!parent
+    && (isEpcisElement(parent, 'readPoint') || isEpcisElement(parent, 'bizLocation'));
+}
+
+/**
+ * Looks up the company prefix length for the digits of a key, the longest matching entry winning
+ */
+function companyPrefixLength(digits: string, companyPrefixLengths: Record<string, number>): number {
+  const prefix = Object.keys(companyPrefixLengths)
+    .filter(candidate => digits.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix !== undefined ? companyPrefixLengths[prefix] : DEFAULT_COMPANY_PREFIX_LENGTH;
+}
+
+/**
+ * Escapes the characters EPC URNs write as %XX
+ */
+function escapeUrnPart(value: string): string {
+  return value.replace(/["%&/<>?]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Percent-encodes a value for a Digital Link path the canonical way, which keeps the characters
+ * EPC URNs write as they are apart from those URIs use as delimiters
+ */
+function encodeDigitalLinkPart(value: string): string {
+  return Array.from(value).map(char =>
+    /^[A-Za-z0-9\-._';=]$/.test(char) ? char
+      : /^[!()*]$/.test(char) ? `%${char.charCodeAt(0).toString(16).toUpperCase()}` : encodeURIComponent(char)
+  ).join('');
+}
+
+/**
+ * Gives a built URN back only when it is valid, e.g. a serial within the length its scheme allows
+ */
+function checkedUrn(urn: string): string | null {
+  return inspectEpc(urn).valid ? urn : null;
+}
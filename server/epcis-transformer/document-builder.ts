@@ -0,0 +1,513 @@
+/**
+ * A fluent builder for writing EPCIS documents in code rather than by string concatenation.
+ *
+ * The builder fills a document of the EPCIS object model. Values are checked as they are set,
+ * identifiers against the EPC URN syntax and CBV values against the CBV 2.0 lists, and the
+ * required fields of an event once the next event starts or the document is built. Documents are
+ * written with serializeEpcis, through the same serializers as the converters.
+ */
+
+import { ValidationError } from './utils';
+import { inspectEpc } from './epc-uri';
+import { formatCbvValue, type CbvVocabulary } from './cbv';
+import { getWellKnownNamespace } from './namespaces';
+import { serializeEpcis } from './epcis-document';
+import type { EpcisFormat, EpcisModelOptions } from '@shared/schema';
+import type {
+  EpcisDocument, EpcisEvent, EpcisAction, ExtensionValue, ExtensionFields, QuantityElement, VocabularyElement,
+  ObjectEvent, AggregationEvent, TransactionEvent, TransformationEvent, AssociationEvent
+} from '@shared/epcis-model';
+
+const EPCIS_CONTEXT_URL = 'https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld';
+
+const ACTIONS: EpcisAction[] = ['ADD', 'OBSERVE', 'DELETE'];
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const TIME_ZONE_OFFSET_PATTERN = /^[+-]\d{2}:\d{2}$/;
+
+// Names of the CBV vocabularies in errors
+const CBV_FIELDS: Record<CbvVocabulary, string> = {
+  bizstep: 'bizStep',
+  disp: 'disposition',
+  btt: 'bizTransaction type',
+  sdt: 'source/destination type',
+  er: 'error reason'
+};
+
+/**
+ * Builds an EPCIS document event by event:
+ *
+ *   new EpcisDocumentBuilder()
+ *     .objectEvent().eventTime('2024-01-10T09:00:00+01:00').action('ADD').epcs([...]).bizStep('commissioning')
+ *     .aggregationEvent().eventTime(new Date()).action('ADD').parentID(sscc).childEPCs([...])
+ *     .serialize('epcis12-xml');
+ */
+export class EpcisDocumentBuilder {
+  private readonly document: EpcisDocument;
+  // Namespaces of the extension field prefixes, written into the @context
+  private readonly namespaces = new Map<string, string>();
+
+  constructor(options: { creationDate?: string | Date } = {}) {
+    this.document = {
+      '@context': [EPCIS_CONTEXT_URL],
+      type: 'EPCISDocument',
+      schemaVersion: '2.0',
+      creationDate: toDateTime(options.creationDate || new Date(), 'creationDate').dateTime,
+      epcisBody: { eventList: [] }
+    };
+  }
+
+  /**
+   * Declares the namespace of an extension field prefix. The conventional prefixes such as sbdh
+   * and cbvmda need no declaration.
+   */
+  namespace(prefix: string, namespaceURI: string): this {
+    if (!/^[A-Za-z_][\w.-]*$/.test(prefix)) {
+      throw new ValidationError(`'${prefix}' is not a valid namespace prefix`);
+    }
+    checkUri(namespaceURI, `Namespace of ${prefix}`);
+    this.namespaces.set(prefix, namespaceURI);
+    return this;
+  }
+
+  /**
+   * Adds an element of master data, e.g. a location of type urn:epcglobal:epcis:vtype:BusinessLocation
+   * with attributes keyed by their id
+   */
+  masterData(vocabularyType: string, id: string, attributes: Record<string, string> = {}): this {
+    checkUri(vocabularyType, 'Vocabulary type');
+    checkIdentifier(id, 'Vocabulary element id');
+    const header = this.document.epcisHeader ??= {};
+    const masterData = header.epcisMasterData ??= { vocabularyList: [] };
+    let vocabulary = masterData.vocabularyList.find(candidate => candidate.type === vocabularyType);
+    if (!vocabulary) {
+      vocabulary = { type: vocabularyType, vocabularyElementList: [] };
+      masterData.vocabularyList.push(vocabulary);
+    }
+
+    const element: VocabularyElement = { id };
+    const entries = Object.entries(attributes);
+    if (entries.length > 0) {
+      element.attributes = entries.map(([attributeId, attribute]) => ({ id: checkUri(attributeId, 'Attribute id'), attribute }));
+    }
+    vocabulary.vocabularyElementList.push(element);
+    return this;
+  }
+
+  /**
+   * Adds a field to the EPCIS header, such as the sbdh:StandardBusinessDocumentHeader
+   */
+  headerField(key: string, value: ExtensionValue): this {
+    const header = this.document.epcisHeader ??= {};
+    header[this.extensionKey(key)] = value;
+    return this;
+  }
+
+  objectEvent(): ObjectEventBuilder {
+    return new ObjectEventBuilder(this, this.startEvent<ObjectEvent>({ type: 'ObjectEvent' }));
+  }
+
+  aggregationEvent(): AggregationEventBuilder {
+    return new AggregationEventBuilder(this, this.startEvent<AggregationEvent>({ type: 'AggregationEvent' }));
+  }
+
+  transactionEvent(): TransactionEventBuilder {
+    return new TransactionEventBuilder(this, this.startEvent<TransactionEvent>({ type: 'TransactionEvent' }));
+  }
+
+  transformationEvent(): TransformationEventBuilder {
+    return new TransformationEventBuilder(this, this.startEvent<TransformationEvent>({ type: 'TransformationEvent' }));
+  }
+
+  associationEvent(): AssociationEventBuilder {
+    return new AssociationEventBuilder(this, this.startEvent<AssociationEvent>({ type: 'AssociationEvent' }));
+  }
+
+  /**
+   * Checks the last event and gives a copy of the document, which further building leaves alone
+   */
+  build(): EpcisDocument {
+    this.checkLastEvent();
+    const document = structuredClone(this.document);
+    if (this.namespaces.size > 0) {
+      document['@context'] = [EPCIS_CONTEXT_URL, Object.fromEntries(this.namespaces)];
+    }
+    return document;
+  }
+
+  /**
+   * Builds the document and writes it as EPCIS 1.2 XML, EPCIS 2.0 XML or JSON-LD
+   */
+  serialize(format: EpcisFormat, options: EpcisModelOptions = {}): Promise<string> {
+    return serializeEpcis(this.build(), format, options);
+  }
+
+  /**
+   * Checks an extension field key against the declared prefixes, declaring conventional ones on first use
+   */
+  extensionKey(key: string): `${string}:${string}` {
+    const match = /^([A-Za-z_][\w.-]*):[A-Za-z_][\w.-]*$/.exec(key);
+    if (!match) {
+      throw new ValidationError(`Extension field '${key}' needs a prefix, e.g. example:${key}`);
+    }
+    const prefix = match[1];
+    if (!this.namespaces.has(prefix)) {
+      const namespaceURI = getWellKnownNamespace(prefix);
+      if (!namespaceURI) {
+        throw new ValidationError(`Prefix '${prefix}' of ${key} is not declared, add it with namespace()`);
+      }
+      this.namespaces.set(prefix, namespaceURI);
+    }
+    return key as `${string}:${string}`;
+  }
+
+  private startEvent<E extends EpcisEvent>(event: Pick<E, 'type'>): E {
+    this.checkLastEvent();
+    this.document.epcisBody.eventList.push(event as E);
+    return event as E;
+  }
+
+  /**
+   * Checks that the last event has the fields its type requires
+   */
+  private checkLastEvent(): void {
+    const eventList = this.document.epcisBody.eventList;
+    const event = eventList[eventList.length - 1];
+    if (!event) {
+      return;
+    }
+    const subject = `${event.type} ${eventList.length}`;
+
+    const missing = ['eventTime', 'eventTimeZoneOffset'].filter(field => !(field in event));
+    if (event.type !== 'TransformationEvent' && !event.action) {
+      missing.push('action');
+    }
+    if (event.type === 'TransactionEvent' && !event.bizTransactionList) {
+      missing.push('bizTransaction');
+    }
+    if (event.type === 'AssociationEvent' && !event.parentID) {
+      missing.push('parentID');
+    }
+    if (event.type === 'AggregationEvent' && event.action && event.action !== 'OBSERVE' && !event.parentID) {
+      missing.push(`parentID, which action ${event.action} needs`);
+    }
+    if (missing.length > 0) {
+      throw new ValidationError(`${subject} is missing ${missing.join(', ')}`);
+    }
+
+    if (event.type === 'ObjectEvent' && !event.epcList && !event.quantityList) {
+      throw new ValidationError(`${subject} needs EPCs or quantities`);
+    }
+    if (event.type === 'TransformationEvent'
+      && !event.inputEPCList && !event.inputQuantityList && !event.outputEPCList && !event.outputQuantityList) {
+      throw new ValidationError(`${subject} needs inputs or outputs`);
+    }
+  }
+}
+
+/**
+ * The fields every event type has. Starting another event or building the document ends the event.
+ */
+abstract class EventBuilder<E extends EpcisEvent> {
+  constructor(protected readonly parent: EpcisDocumentBuilder, protected readonly event: E) {}
+
+  /**
+   * Sets the event time. Its time zone offset is taken from the time unless given, Dates are in UTC
+   */
+  eventTime(time: string | Date, timeZoneOffset?: string): this {
+    const { dateTime, offset } = toDateTime(time, 'eventTime');
+    const zone = timeZoneOffset ?? offset;
+    if (!TIME_ZONE_OFFSET_PATTERN.test(zone)) {
+      throw new ValidationError(`eventTimeZoneOffset '${zone}' is not of the form +hh:mm`);
+    }
+    this.event.eventTime = dateTime;
+    this.event.eventTimeZoneOffset = zone;
+    return this;
+  }
+
+  recordTime(time: string | Date): this {
+    this.event.recordTime = toDateTime(time, 'recordTime').dateTime;
+    return this;
+  }
+
+  eventID(eventId: string): this {
+    this.event.eventID = checkUri(eventId, 'eventID');
+    return this;
+  }
+
+  bizStep(bizStep: string): this {
+    this.event.bizStep = toCbvValue(bizStep, 'bizstep');
+    return this;
+  }
+
+  disposition(disposition: string): this {
+    this.event.disposition = toCbvValue(disposition, 'disp');
+    return this;
+  }
+
+  readPoint(id: string): this {
+    this.event.readPoint = { id: checkIdentifier(id, 'readPoint') };
+    return this;
+  }
+
+  bizLocation(id: string): this {
+    this.event.bizLocation = { id: checkIdentifier(id, 'bizLocation') };
+    return this;
+  }
+
+  bizTransaction(bizTransaction: string, type?: string): this {
+    checkUri(bizTransaction, 'bizTransaction');
+    (this.event.bizTransactionList ??= []).push(type ? { type: toCbvValue(type, 'btt'), bizTransaction } : { bizTransaction });
+    return this;
+  }
+
+  source(type: string, source: string): this {
+    (this.event.sourceList ??= []).push({ type: toCbvValue(type, 'sdt'), source: checkIdentifier(source, 'source') });
+    return this;
+  }
+
+  destination(type: string, destination: string): this {
+    (this.event.destinationList ??= []).push({
+      type: toCbvValue(type, 'sdt'),
+      destination: checkIdentifier(destination, 'destination')
+    });
+    return this;
+  }
+
+  /**
+   * Sets a user extension field, whose prefix is declared with namespace() on the document builder
+   */
+  extension(key: string, value: ExtensionValue): this {
+    (this.event as ExtensionFields)[this.parent.extensionKey(key)] = value;
+    return this;
+  }
+
+  objectEvent(): ObjectEventBuilder {
+    return this.parent.objectEvent();
+  }
+
+  aggregationEvent(): AggregationEventBuilder {
+    return this.parent.aggregationEvent();
+  }
+
+  transactionEvent(): TransactionEventBuilder {
+    return this.parent.transactionEvent();
+  }
+
+  transformationEvent(): TransformationEventBuilder {
+    return this.parent.transformationEvent();
+  }
+
+  associationEvent(): AssociationEventBuilder {
+    return this.parent.associationEvent();
+  }
+
+  build(): EpcisDocument {
+    return this.parent.build();
+  }
+
+  serialize(format: EpcisFormat, options: EpcisModelOptions = {}): Promise<string> {
+    return this.parent.serialize(format, options);
+  }
+
+  protected checkAction(action: EpcisAction): EpcisAction {
+    if (!ACTIONS.includes(action)) {
+      throw new ValidationError(`action '${action}' is not one of ${ACTIONS.join(', ')}`);
+    }
+    return action;
+  }
+
+  protected ilmdField(ilmd: ExtensionFields | undefined, key: string, value: ExtensionValue): ExtensionFields {
+    return { ...ilmd, [this.parent.extensionKey(key)]: value };
+  }
+}
+
+export class ObjectEventBuilder extends EventBuilder<ObjectEvent> {
+  action(action: EpcisAction): this {
+    this.event.action = this.checkAction(action);
+    return this;
+  }
+
+  epcs(epcs: string[]): this {
+    this.event.epcList = [...(this.event.epcList || []), ...epcs.map(epc => checkIdentifier(epc, 'EPC'))];
+    return this;
+  }
+
+  quantity(epcClass: string, quantity?: number, uom?: string): this {
+    (this.event.quantityList ??= []).push(toQuantityElement(epcClass, quantity, uom));
+    return this;
+  }
+
+  /**
+   * Sets a field of the instance or lot master data, an extension field like those of extension()
+   */
+  ilmd(key: string, value: ExtensionValue): this {
+    this.event.ilmd = this.ilmdField(this.event.ilmd, key, value);
+    return this;
+  }
+}
+
+export class AggregationEventBuilder extends EventBuilder<AggregationEvent> {
+  action(action: EpcisAction): this {
+    this.event.action = this.checkAction(action);
+    return this;
+  }
+
+  parentID(parentId: string): this {
+    this.event.parentID = checkIdentifier(parentId, 'parentID');
+    return this;
+  }
+
+  childEPCs(epcs: string[]): this {
+    this.event.childEPCs = [...(this.event.childEPCs || []), ...epcs.map(epc => checkIdentifier(epc, 'EPC'))];
+    return this;
+  }
+
+  childQuantity(epcClass: string, quantity?: number, uom?: string): this {
+    (this.event.childQuantityList ??= []).push(toQuantityElement(epcClass, quantity, uom));
+    return this;
+  }
+}
+
+export class TransactionEventBuilder extends EventBuilder<TransactionEvent> {
+  action(action: EpcisAction): this {
+    this.event.action = this.checkAction(action);
+    return this;
+  }
+
+  parentID(parentId: string): this {
+    this.event.parentID = checkIdentifier(parentId, 'parentID');
+    return this;
+  }
+
+  epcs(epcs: string[]): this {
+    this.event.epcList = [...(this.event.epcList || []), ...epcs.map(epc => checkIdentifier(epc, 'EPC'))];
+    return this;
+  }
+
+  quantity(epcClass: string, quantity?: number, uom?: string): this {
+    (this.event.quantityList ??= []).push(toQuantityElement(epcClass, quantity, uom));
+    return this;
+  }
+}
+
+export class TransformationEventBuilder extends EventBuilder<TransformationEvent> {
+  inputEPCs(epcs: string[]): this {
+    this.event.inputEPCList = [...(this.event.inputEPCList || []), ...epcs.map(epc => checkIdentifier(epc, 'EPC'))];
+    return this;
+  }
+
+  inputQuantity(epcClass: string, quantity?: number, uom?: string): this {
+    (this.event.inputQuantityList ??= []).push(toQuantityElement(epcClass, quantity, uom));
+    return this;
+  }
+
+  outputEPCs(epcs: string[]): this {
+    this.event.outputEPCList = [...(this.event.outputEPCList || []), ...epcs.map(epc => checkIdentifier(epc, 'EPC'))];
+    return this;
+  }
+
+  outputQuantity(epcClass: string, quantity?: number, uom?: string): this {
+    (this.event.outputQuantityList ??= []).push(toQuantityElement(epcClass, quantity, uom));
+    return this;
+  }
+
+  transformationID(transformationId: string): this {
+    this.event.transformationID = checkUri(transformationId, 'transformationID');
+    return this;
+  }
+
+  /**
+   * Sets a field of the instance or lot master data, an extension field like those of extension()
+   */
+  ilmd(key: string, value: ExtensionValue): this {
+    this.event.ilmd = this.ilmdField(this.event.ilmd, key, value);
+    return this;
+  }
+}
+
+export class AssociationEventBuilder extends EventBuilder<AssociationEvent> {
+  action(action: EpcisAction): this {
+    this.event.action = this.checkAction(action);
+    return this;
+  }
+
+  parentID(parentId: string): this {
+    this.event.parentID = checkIdentifier(parentId, 'parentID');
+    return this;
+  }
+
+  childEPCs(epcs: string[]): this {
+    this.event.childEPCs = [...(this.event.childEPCs || []), ...epcs.map(epc => checkIdentifier(epc, 'EPC'))];
+    return this;
+  }
+
+  childQuantity(epcClass: string, quantity?: number, uom?: string): this {
+    (this.event.childQuantityList ??= []).push(toQuantityElement(epcClass, quantity, uom));
+    return this;
+  }
+}
+
+/**
+ * Reads a time as an xsd:dateTime with its time zone offset. Dates are written in UTC.
+ */
+function toDateTime(time: string | Date, field: string): { dateTime: string; offset: string } {
+  if (time instanceof Date) {
+    if (isNaN(time.getTime())) {
+      throw new ValidationError(`${field} is an invalid Date`);
+    }
+    return { dateTime: time.toISOString(), offset: '+00:00' };
+  }
+  const match = DATE_TIME_PATTERN.exec(time);
+  if (!match || isNaN(Date.parse(time))) {
+    throw new ValidationError(`${field} '${time}' is not a date and time with a time zone, e.g. 2024-01-10T09:00:00+01:00`);
+  }
+  return { dateTime: time, offset: match[2] === 'Z' ? '+00:00' : match[2] };
+}
+
+/**
+ * Reduces a CBV value to its bare term, as the converters write it, rejecting terms missing from the CBV 2.0 list
+ */
+function toCbvValue(value: string, vocabulary: CbvVocabulary): string {
+  const { value: term, known } = formatCbvValue(value, vocabulary, 'bare');
+  if (!known) {
+    throw new ValidationError(`${CBV_FIELDS[vocabulary]} '${value}' is not in the CBV 2.0 list, use a URI of your own for other values`);
+  }
+  return term;
+}
+
+/**
+ * Checks an EPC URN against its scheme, or that any other identifier is a URI such as a GS1 Digital Link
+ */
+function checkIdentifier(value: string, field: string): string {
+  if (value.startsWith('urn:epc:')) {
+    const inspection = inspectEpc(value);
+    if (!inspection.valid) {
+      throw new ValidationError(`${field} '${value}' is not a valid EPC URN: ${inspection.errors.join('; ')}`);
+    }
+    return value;
+  }
+  return checkUri(value, field);
+}
+
+function checkUri(value: string, field: string): string {
+  if (!/^[A-Za-z][A-Za-z0-9+.-]*:\S+$/.test(value)) {
+    throw new ValidationError(`${field} '${value}' is not a URI`);
+  }
+  return value;
+}
+
+function toQuantityElement(epcClass: string, quantity?: number, uom?: string): QuantityElement {
+  checkIdentifier(epcClass, 'epcClass');
+  if (quantity !== undefined && !(quantity >= 0)) {
+    throw new ValidationError(`Quantity of ${epcClass} must be a number of at least 0`);
+  }
+  if (uom !== undefined && quantity === undefined) {
+    throw new ValidationError(`Quantity of ${epcClass} has a uom but no quantity`);
+  }
+  return {
+    epcClass,
+    ...(quantity !== undefined ? { quantity } : {}),
+    ...(uom !== undefined ? { uom } : {})
+  };
+}
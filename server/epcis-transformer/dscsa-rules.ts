@@ -0,0 +1,213 @@
+/**
+ * DSCSA (US Drug Supply Chain Security Act) rule pack, following the GS1 US Healthcare
+ * implementation guideline for pharmaceutical serialization data
+ */
+
+import { CBV_MDA_NAMESPACE, GS1_US_HEALTHCARE_NAMESPACE, SBDH_NAMESPACE, isElementNS, isEpcisElement } from './namespaces';
+import { toCbvTerm } from './cbv';
+import { childElements } from './utils';
+import type { EpcisRule, RuleEvent, RuleFinding } from './rule-engine';
+
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+interface EpcClassAttribute {
+  id: string;
+  value: string;
+}
+
+const EPC_CLASS_VOCABULARY = 'urn:epcglobal:epcis:vtype:EPCClass';
+
+// Business transaction types that identify the sale behind a shipment
+const ORDER_TRANSACTION_TYPES = ['po', 'inv'];
+
+const GLN_PATTERN = /^\d{13}$/;
+const SGLN_PATTERN = /^urn:epc:id:sgln:\d+\.\d*\.\S+$/;
+const SGTIN_PATTERN = /^urn:epc:id:sgtin:(\d+)\.(\d+)\.\S+$/;
+
+export const DSCSA_RULES: EpcisRule[] = [
+  {
+    id: 'dscsa-transaction-statement',
+    description: 'The EPCISHeader must carry an affirmed gs1ushc:dscsaTransactionStatement',
+    severity: 'error',
+    checkDocument(root) {
+      const header = childElements(root).find(child => isEpcisElement(child, 'EPCISHeader'));
+      const statement = header && childElements(header)
+        .find(child => isElementNS(child, GS1_US_HEALTHCARE_NAMESPACE, 'dscsaTransactionStatement'));
+      if (!statement) {
+        return [{ message: 'The EPCISHeader has no gs1ushc:dscsaTransactionStatement', element: header || root }];
+      }
+      const affirmation = childElements(statement)
+        .find(child => isElementNS(child, GS1_US_HEALTHCARE_NAMESPACE, 'affirmTransactionStatement'));
+      return (affirmation?.textContent || '').trim() === 'true' ? [] : [{
+        message: 'The DSCSA transaction statement is not affirmed with affirmTransactionStatement true',
+        element: affirmation || statement
+      }];
+    }
+  },
+  {
+    id: 'dscsa-commissioning-lot-expiry',
+    description: 'Commissioning events must give the lot number and expiration date in their ILMD',
+    severity: 'error',
+    checkEvent(event) {
+      if (toCbvTerm(event.getText('bizStep'), 'bizstep') !== 'commissioning') {
+        return [];
+      }
+      const ilmd = event.getField('ilmd');
+      const missing = ['lotNumber', 'itemExpirationDate'].filter(name =>
+        !ilmd || !childElements(ilmd).some(child => isElementNS(child, CBV_MDA_NAMESPACE, name) && (child.textContent || '').trim())
+      );
+      return missing.length === 0 ? [] : [{
+        message: `Commissioning event has no ${missing.map(name => `cbvmda:${name}`).join(' or ')} in its ILMD`,
+        element: ilmd || event.element
+      }];
+    }
+  },
+  {
+    id: 'dscsa-sgtin-master-data',
+    description: 'Every SGTIN must have EPCClass master data with an NDC',
+    severity: 'error',
+    checkDocument(root, events) {
+      const epcClasses = getEpcClassAttributes(root);
+      const reported = new Set<string>();
+      const findings: RuleFinding[] = [];
+
+      for (const element of events.flatMap(getEpcElements)) {
+        const epc = (element.textContent || '').trim();
+        const match = epc.match(SGTIN_PATTERN);
+        if (!match) {
+          continue;
+        }
+        const epcClass = `urn:epc:idpat:sgtin:${match[1]}.${match[2]}.*`;
+        if (reported.has(epcClass)) {
+          continue;
+        }
+        const attributes = epcClasses.get(epcClass);
+        if (!attributes) {
+          findings.push({ message: `No EPCClass master data for ${epcClass}, used by ${epc}`, element });
+        } else if (!hasNdc(attributes)) {
+          findings.push({ message: `The EPCClass master data for ${epcClass} has no NDC, used by ${epc}`, element });
+        } else {
+          continue;
+        }
+        reported.add(epcClass);
+      }
+
+      return findings;
+    }
+  },
+  {
+    id: 'dscsa-shipping-sbdh-parties',
+    description: 'Documents with shipping events must name the SBDH sender and receiver by GLN',
+    severity: 'error',
+    checkDocument(root, events) {
+      if (!events.some(isShippingEvent)) {
+        return [];
+      }
+      const header = childElements(root).find(child => isEpcisElement(child, 'EPCISHeader'));
+      const sbdh = header && childElements(header)
+        .find(child => isElementNS(child, SBDH_NAMESPACE, 'StandardBusinessDocumentHeader'));
+
+      return ['Sender', 'Receiver'].flatMap(party => {
+        const identifier = sbdh && childElements(sbdh)
+          .filter(child => isElementNS(child, SBDH_NAMESPACE, party))
+          .flatMap(childElements)
+          .find(child => isElementNS(child, SBDH_NAMESPACE, 'Identifier'));
+        const value = (identifier?.textContent || '').trim();
+        if (GLN_PATTERN.test(value) || SGLN_PATTERN.test(value)) {
+          return [];
+        }
+        return [{
+          message: identifier
+            ? `The SBDH ${party} identifier '${value}' is not a GLN or SGLN`
+            : `The document has shipping events but no SBDH ${party} identifier`,
+          element: identifier || sbdh || header || root
+        }];
+      });
+    }
+  },
+  {
+    id: 'dscsa-shipping-business-transaction',
+    description: 'Shipping events must reference a purchase order or invoice in their bizTransactionList',
+    severity: 'error',
+    checkEvent(event) {
+      if (!isShippingEvent(event)) {
+        return [];
+      }
+      const transactions = event.getField('bizTransactionList');
+      const hasOrder = !!transactions && childElements(transactions).some(transaction =>
+        isEpcisElement(transaction, 'bizTransaction')
+          && ORDER_TRANSACTION_TYPES.includes(toCbvTerm(transaction.getAttribute('type'), 'btt') || '')
+      );
+      return hasOrder ? [] : [{
+        message: 'Shipping event has no purchase order (po) or invoice (inv) in its bizTransactionList',
+        element: transactions || event.element
+      }];
+    }
+  }
+];
+
+function isShippingEvent(event: RuleEvent): boolean {
+  return toCbvTerm(event.getText('bizStep'), 'bizstep') === 'shipping';
+}
+
+/**
+ * Gets the elements of an event that hold an EPC: parentID and the epc entries of its EPC lists
+ */
+function getEpcElements(event: RuleEvent): XmlDomElement[] {
+  const parentId = event.getField('parentID');
+  const epcs = ['epcList', 'childEPCs', 'inputEPCList', 'outputEPCList']
+    .map(name => event.getField(name))
+    .flatMap(list => list ? childElements(list).filter(child => isEpcisElement(child, 'epc')) : []);
+  return parentId ? [parentId, ...epcs] : epcs;
+}
+
+/**
+ * Reads the EPCClass master data of the header, from epcisMasterData or the 1.2
+ * extension/EPCISMasterData, as a map of class id to its attributes in document order.
+ * Attribute ids repeat, e.g. one additionalTradeItemIdentification for the NDC and one for another code.
+ */
+function getEpcClassAttributes(root: XmlDomElement): Map<string, EpcClassAttribute[]> {
+  const epcClasses = new Map<string, EpcClassAttribute[]>();
+  const header = childElements(root).find(child => isEpcisElement(child, 'EPCISHeader'));
+  if (!header) {
+    return epcClasses;
+  }
+
+  const masterData = childElements(header)
+    .flatMap(child => isEpcisElement(child, 'extension') ? childElements(child) : [child])
+    .filter(child => isEpcisElement(child, 'epcisMasterData') || isEpcisElement(child, 'EPCISMasterData'));
+  const vocabularies = masterData
+    .flatMap(childElements)
+    .filter(child => isEpcisElement(child, 'VocabularyList'))
+    .flatMap(childElements)
+    .filter(vocabulary => isEpcisElement(vocabulary, 'Vocabulary') && vocabulary.getAttribute('type') === EPC_CLASS_VOCABULARY);
+
+  for (const vocabulary of vocabularies) {
+    const elements = childElements(vocabulary)
+      .filter(child => isEpcisElement(child, 'VocabularyElementList'))
+      .flatMap(childElements)
+      .filter(child => isEpcisElement(child, 'VocabularyElement'));
+    for (const element of elements) {
+      const attributes = epcClasses.get(element.getAttribute('id') || '') || [];
+      childElements(element)
+        .filter(child => isEpcisElement(child, 'attribute'))
+        .forEach(attribute => attributes.push({ id: attribute.getAttribute('id') || '', value: (attribute.textContent || '').trim() }));
+      epcClasses.set(element.getAttribute('id') || '', attributes);
+    }
+  }
+
+  return epcClasses;
+}
+
+/**
+ * Checks whether EPCClass attributes give an NDC: an additionalTradeItemIdentification
+ * whose type code is one of the FDA_NDC codes. Identifications and type codes pair up in order.
+ */
+function hasNdc(attributes: EpcClassAttribute[]): boolean {
+  const attributeValues = (name: string) => attributes
+    .filter(({ id }) => id.endsWith(`#${name}`) || id.endsWith(`:${name}`))
+    .map(({ value }) => value);
+  const typeCodes = attributeValues('additionalTradeItemIdentificationTypeCode');
+  return attributeValues('additionalTradeItemIdentification')
+    .some((identification, i) => identification !== '' && (typeCodes[i] || '').startsWith('FDA_NDC'));
+}
@@ -0,0 +1,368 @@
+/**
+ * Parser for EPC pure identity URNs (urn:epc:id:...), the lgtin class URN (urn:epc:class:lgtin:...)
+ * and EPC pattern URNs (urn:epc:idpat:...), following the GS1 EPC Tag Data Standard.
+ *
+ * Pure identity URNs leave out the check digit of their GS1 key, so it is computed here to
+ * give the key, and reported when a URN carries one by mistake.
+ */
+
+import { ValidationError, getXPath, forEachElement } from './utils';
+import { isEpcisElement } from './namespaces';
+import type { EpcInspection, EpcComponent, ValidationIssue } from '@shared/schema';
+
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+type EpcType = 'id' | 'class' | 'idpat';
+
+interface SchemeDefinition {
+  // GS1 key the identifier encodes, with its application identifier
+  keyName: string;
+  keyAi: string;
+  // Description of the component after the company prefix, and its number of digits together with the prefix
+  reference: { name: string; description: string; digits: number | null };
+  // Serial-like component of GS1 AI encodable characters, with its own application identifier
+  // or null when it is written in the same element as the key
+  serial: { name: string; description: string; ai: string | null; maxLength: number } | null;
+}
+
+const SCHEMES: Record<string, SchemeDefinition> = {
+  sgtin: {
+    keyName: 'GTIN',
+    keyAi: '01',
+    reference: { name: 'indicatorItemReference', description: 'Indicator digit and item reference', digits: 13 },
+    serial: { name: 'serial', description: 'Serial number', ai: '21', maxLength: 20 }
+  },
+  sscc: {
+    keyName: 'SSCC',
+    keyAi: '00',
+    reference: { name: 'serialReference', description: 'Extension digit and serial reference', digits: 17 },
+    serial: null
+  },
+  sgln: {
+    keyName: 'GLN',
+    keyAi: '414',
+    reference: { name: 'locationReference', description: 'Location reference', digits: 12 },
+    serial: { name: 'extension', description: 'GLN extension, 0 when there is none', ai: '254', maxLength: 20 }
+  },
+  pgln: {
+    keyName: 'GLN',
+    keyAi: '417',
+    reference: { name: 'partyReference', description: 'Party reference', digits: 12 },
+    serial: null
+  },
+  grai: {
+    keyName: 'GRAI',
+    keyAi: '8003',
+    reference: { name: 'assetType', description: 'Asset type', digits: 12 },
+    serial: { name: 'serial', description: 'Serial number', ai: null, maxLength: 16 }
+  },
+  giai: {
+    keyName: 'GIAI',
+    keyAi: '8004',
+    reference: { name: 'individualAssetReference', description: 'Individual asset reference', digits: null },
+    serial: null
+  },
+  gsrn: {
+    keyName: 'GSRN',
+    keyAi: '8018',
+    reference: { name: 'serviceReference', description: 'Service reference', digits: 17 },
+    serial: null
+  },
+  gdti: {
+    keyName: 'GDTI',
+    keyAi: '253',
+    reference: { name: 'documentType', description: 'Document type', digits: 12 },
+    serial: { name: 'serial', description: 'Serial number', ai: null, maxLength: 17 }
+  },
+  lgtin: {
+    keyName: 'GTIN',
+    keyAi: '01',
+    reference: { name: 'indicatorItemReference', description: 'Indicator digit and item reference', digits: 13 },
+    serial: { name: 'lot', description: 'Batch or lot number', ai: '10', maxLength: 20 }
+  }
+};
+
+// Schemes allowed under each URN type
+const TYPE_SCHEMES: Record<EpcType, string[]> = {
+  id: ['sgtin', 'sscc', 'sgln', 'pgln', 'grai', 'giai', 'gsrn', 'gdti'],
+  class: ['lgtin'],
+  idpat: ['sgtin', 'sscc', 'sgln', 'pgln', 'grai', 'giai', 'gsrn', 'gdti']
+};
+
+// GS1 AI encodable character set 82, with the characters URNs must escape written as %XX
+const ENCODABLE_PATTERN = /^(?:[A-Za-z0-9!'()*+,\-.:;=_]|%2[256Ff]|%3[CcEeFf])+$/;
+
+// The longest GIAI: company prefix and individual asset reference together
+const GIAI_MAX_LENGTH = 30;
+
+const EPC_URN_PATTERN = /^urn:epc:(id|class|idpat):([a-z0-9]+):(.*)$/;
+
+/**
+ * Computes the GS1 check digit of a key written without it
+ */
+export function computeCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3 and 1 from the rightmost digit
+    sum += Number(digits[digits.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks the last digit of a GS1 key (GTIN, SSCC, GLN, ...) against the digits before it
+ */
+export function hasValidCheckDigit(key: string): boolean {
+  return /^\d{2,}$/.test(key) && computeCheckDigit(key.slice(0, -1)) === Number(key[key.length - 1]);
+}
+
+/**
+ * Parses an EPC URN and explains each of its parts. Problems are listed in errors rather than
+ * thrown, so the parts that could be read are still returned for an invalid URN.
+ */
+export function inspectEpc(uri: string): EpcInspection {
+  const inspection: EpcInspection = {
+    uri,
+    valid: false,
+    type: null,
+    scheme: null,
+    partition: null,
+    components: [],
+    gs1Key: null,
+    elementString: null,
+    errors: []
+  };
+
+  const match = uri.trim().match(EPC_URN_PATTERN);
+  if (!match) {
+    inspection.errors.push('Not an EPC URN of the form urn:epc:id|class|idpat:<scheme>:<parts>');
+    return inspection;
+  }
+
+  const [, type, scheme, body] = match as [string, EpcType, string, string];
+  inspection.type = type;
+  inspection.scheme = scheme;
+  if (!TYPE_SCHEMES[type].includes(scheme)) {
+    inspection.errors.push(`Unsupported EPC scheme '${scheme}' for urn:epc:${type}`);
+    return inspection;
+  }
+
+  const definition = SCHEMES[scheme];
+  // The last part may hold dots of its own, so only the separators before it are split on
+  const expectedParts = definition.serial ? 3 : 2;
+  const parts = body.split('.');
+  if (parts.length < expectedParts) {
+    inspection.errors.push(`A ${scheme} URN has ${expectedParts} parts separated by dots, found ${parts.length}`);
+    return inspection;
+  }
+  parts.splice(expectedParts - 1, parts.length, parts.slice(expectedParts - 1).join('.'));
+
+  const [companyPrefix, reference, serial] = parts;
+  const isPattern = type === 'idpat';
+  const wildcardAt = isPattern ? parts.indexOf('*') : -1;
+  if (wildcardAt !== -1 && parts.slice(wildcardAt).some(part => part !== '*')) {
+    inspection.errors.push('Once a pattern part is *, the parts after it must be * as well');
+  }
+  const isWildcard = (index: number) => wildcardAt !== -1 && index >= wildcardAt;
+
+  // Company prefix, whose length sets the partition of the binary encodings
+  if (isWildcard(0)) {
+    inspection.components.push({ name: 'companyPrefix', value: '*', description: 'GS1 Company Prefix: any' });
+  } else if (!/^\d{6,12}$/.test(companyPrefix)) {
+    inspection.errors.push(`The GS1 Company Prefix must be 6 to 12 digits, found '${companyPrefix}'`);
+  } else {
+    inspection.partition = 12 - companyPrefix.length;
+    inspection.components.push({
+      name: 'companyPrefix',
+      value: companyPrefix,
+      description: `GS1 Company Prefix, ${companyPrefix.length} digits (partition ${inspection.partition})`
+    });
+  }
+
+  // Reference following the company prefix
+  if (isWildcard(1)) {
+    inspection.components.push({ name: definition.reference.name, value: '*', description: `${definition.reference.description}: any` });
+  } else {
+    const component = inspectReference(scheme, definition, companyPrefix, reference, inspection.errors);
+    if (component) {
+      inspection.components.push(component);
+    }
+  }
+
+  // Serial number, lot or extension
+  if (definition.serial) {
+    if (isWildcard(2)) {
+      inspection.components.push({ name: definition.serial.name, value: '*', description: `${definition.serial.description}: any` });
+    } else if (!ENCODABLE_PATTERN.test(serial)) {
+      inspection.errors.push(
+        `The ${definition.serial.name} '${serial}' may only hold GS1 AI encodable characters, with " % & / < > ? escaped as %XX`
+      );
+    } else if (decodeEscapes(serial).length > definition.serial.maxLength) {
+      inspection.errors.push(`The ${definition.serial.name} is longer than ${definition.serial.maxLength} characters`);
+    } else {
+      inspection.components.push({ name: definition.serial.name, value: serial, description: definition.serial.description });
+    }
+  }
+
+  inspection.valid = inspection.errors.length === 0;
+  if (inspection.valid && !isPattern) {
+    Object.assign(inspection, describeKey(scheme, definition, companyPrefix, reference, serial));
+  }
+  return inspection;
+}
+
+/**
+ * Checks the component after the company prefix, which together with it has a fixed number of
+ * digits for every scheme but giai. A URN with one digit too many that ends in the check digit
+ * of its key is reported as carrying the check digit.
+ */
+function inspectReference(
+  scheme: string,
+  definition: SchemeDefinition,
+  companyPrefix: string,
+  reference: string,
+  errors: string[]
+): EpcComponent | null {
+  const { name, description, digits } = definition.reference;
+
+  if (digits === null) {
+    // giai: any GS1 AI encodable characters, up to 30 with the company prefix
+    if (!ENCODABLE_PATTERN.test(reference)) {
+      errors.push(`The ${name} '${reference}' may only hold GS1 AI encodable characters`);
+      return null;
+    }
+    if (companyPrefix.length + decodeEscapes(reference).length > GIAI_MAX_LENGTH) {
+      errors.push(`A GIAI is at most ${GIAI_MAX_LENGTH} characters, company prefix included`);
+      return null;
+    }
+    return { name, value: reference, description };
+  }
+
+  if (!/^\d+$/.test(reference)) {
+    errors.push(`The ${name} must be digits, found '${reference}'`);
+    return null;
+  }
+  if (!/^\d{6,12}$/.test(companyPrefix)) {
+    // The expected length depends on a valid company prefix
+    return { name, value: reference, description };
+  }
+
+  const expectedLength = digits - companyPrefix.length;
+  if (reference.length === expectedLength + 1) {
+    const key = buildKeyDigits(scheme, companyPrefix, reference.slice(0, -1));
+    const checkDigit = reference[reference.length - 1];
+    if (computeCheckDigit(key) === Number(checkDigit)) {
+      errors.push(`The ${name} ends in the check digit ${checkDigit} of the ${definition.keyName}, which EPC URNs leave out`);
+      return null;
+    }
+  }
+  if (reference.length !== expectedLength) {
+    errors.push(
+      `With a ${companyPrefix.length}-digit company prefix the ${name} must be ${expectedLength} digits, found ${reference.length}`
+    );
+    return null;
+  }
+
+  const detail = scheme === 'sgtin' || scheme === 'lgtin'
+    ? `: indicator digit ${reference[0]}, item reference ${reference.slice(1) || '(none)'}`
+    : scheme === 'sscc'
+      ? `: extension digit ${reference[0]}, serial reference ${reference.slice(1) || '(none)'}`
+      : '';
+  return { name, value: reference, description: `${description}, ${reference.length} digits${detail}` };
+}
+
+/**
+ * Gives the GS1 key of a valid identifier and its GS1 element string, e.g. (01)10614141123458(21)6789
+ */
+function describeKey(
+  scheme: string,
+  definition: SchemeDefinition,
+  companyPrefix: string,
+  reference: string,
+  serial: string | undefined
+): Pick<EpcInspection, 'gs1Key' | 'elementString'> {
+  if (scheme === 'giai') {
+    const giai = companyPrefix + decodeEscapes(reference);
+    return { gs1Key: { name: 'GIAI', value: giai }, elementString: `(8004)${giai}` };
+  }
+
+  const keyDigits = buildKeyDigits(scheme, companyPrefix, reference);
+  const key = `${keyDigits}${computeCheckDigit(keyDigits)}`;
+  const decodedSerial = serial === undefined ? '' : decodeEscapes(serial);
+
+  switch (scheme) {
+    case 'grai':
+      // The GRAI is a leading 0, the key digits, the check digit and the serial, in one element
+      return { gs1Key: { name: 'GRAI', value: `0${key}` }, elementString: `(8003)0${key}${decodedSerial}` };
+    case 'gdti':
+      return { gs1Key: { name: 'GDTI', value: key }, elementString: `(253)${key}${decodedSerial}` };
+    case 'sgln':
+      return {
+        gs1Key: { name: 'GLN', value: key },
+        elementString: `(414)${key}` + (decodedSerial !== '0' ? `(254)${decodedSerial}` : '')
+      };
+    default:
+      return {
+        gs1Key: { name: definition.keyName, value: key },
+        elementString: `(${definition.keyAi})${key}` + (definition.serial?.ai ? `(${definition.serial.ai})${decodedSerial}` : '')
+      };
+  }
+}
+
+/**
+ * Builds the digits of a GS1 key without its check digit. GTIN and SSCC move the first digit
+ * of the reference (indicator or extension digit) in front of the company prefix.
+ */
+export function buildKeyDigits(scheme: string, companyPrefix: string, reference: string): string {
+  if (scheme === 'sgtin' || scheme === 'lgtin' || scheme === 'sscc') {
+    return reference.slice(0, 1) + companyPrefix + reference.slice(1);
+  }
+  return companyPrefix + reference;
+}
+
+export function decodeEscapes(value: string): string {
+  return value.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// EPCIS elements that hold an EPC or an EPC class
+const EPC_ELEMENTS = ['epc', 'parentID', 'epcClass'];
+
+/**
+ * Finds the EPC URNs of a document that are not valid, with the position and XPath of each.
+ * Identifiers that are not EPC URNs, or use schemes this parser does not cover, are left alone.
+ */
+export function findInvalidEpcs(root: XmlDomElement): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  forEachElement(root, element => {
+    if (EPC_ELEMENTS.some(name => isEpcisElement(element, name))) {
+      const value = (element.textContent || '').trim();
+      const match = value.match(EPC_URN_PATTERN);
+      if (match && TYPE_SCHEMES[match[1] as EpcType].includes(match[2])) {
+        const { valid, errors } = inspectEpc(value);
+        if (!valid) {
+          issues.push({
+            line: element.lineNumber ?? null,
+            column: element.columnNumber ?? null,
+            xpath: getXPath(element),
+            message: `${value}: ${errors.join('; ')}`
+          });
+        }
+      }
+    }
+  });
+  return issues;
+}
+
+/**
+ * Throws a ValidationError listing every invalid EPC URN of a document
+ */
+export function assertValidEpcs(root: XmlDomElement, subject: string): void {
+  const issues = findInvalidEpcs(root);
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `${subject} has invalid EPCs: ${issues[0].message}` +
+        (issues.length > 1 ? ` and ${issues.length - 1} more issue(s)` : ''),
+      issues
+    );
+  }
+}
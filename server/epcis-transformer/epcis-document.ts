@@ -0,0 +1,56 @@
+/**
+ * Reading EPCIS documents of any format into the object model of shared/epcis-model.ts and
+ * writing them back out.
+ *
+ * The model is the JSON-LD form of EPCIS 2.0. XML of any version is read field by field into it,
+ * 1.0 and 1.1 documents being brought up to 1.2 first, JSON-LD is checked field by field, and
+ * documents are written through the XML writer that the other conversions use as well. Business
+ * logic can work on the typed objects in between.
+ */
+
+import { upgradeEpcisXml, convertToEpcis12Xml } from './xml-converter';
+import { readEpcisXml } from './json-converter';
+import { parseJsonLdDocument } from './jsonld-parser';
+import { buildEpcisXml } from './xml-writer';
+import { normalizeCbvValues } from './cbv';
+import { detectFormat } from './transform';
+import type { EpcisFormat, EpcisModelOptions } from '@shared/schema';
+import type { EpcisDocument } from '@shared/epcis-model';
+
+/**
+ * Reads an EPCIS 1.x XML, EPCIS 2.0 XML or JSON-LD document into the EPCIS object model
+ */
+export function parseEpcis(input: string, options: EpcisModelOptions = {}): EpcisDocument {
+  if (detectFormat(input) === 'jsonld') {
+    return parseJsonLdDocument(input, options.onWarning);
+  }
+
+  const { doc } = upgradeEpcisXml(input, options);
+  // CBV values are bare terms in the model, as in JSON-LD
+  normalizeCbvValues(doc.documentElement!, 'bare').forEach(warning => options.onWarning?.(warning));
+  return readEpcisXml(doc.documentElement!, options.onWarning);
+}
+
+/**
+ * Writes a document of the EPCIS object model as EPCIS 1.2 XML, EPCIS 2.0 XML or JSON-LD. Data
+ * the format cannot hold is left out and reported through onWarning.
+ */
+export async function serializeEpcis(
+  document: EpcisDocument,
+  format: EpcisFormat,
+  options: EpcisModelOptions = {}
+): Promise<string> {
+  if (format === 'jsonld') {
+    return JSON.stringify(document, null, 2);
+  }
+
+  const { xml, warnings } = buildEpcisXml(document);
+  warnings.forEach(warning => options.onWarning?.(warning));
+  if (format === 'epcis20-xml') {
+    return xml;
+  }
+
+  const downgraded = await convertToEpcis12Xml(xml);
+  downgraded.warnings.forEach(warning => options.onWarning?.(warning));
+  return downgraded.xml;
+}
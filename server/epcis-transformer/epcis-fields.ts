@@ -0,0 +1,140 @@
+/**
+ * The fields of the EPCIS object model. The XML reader of json-converter and the JSON-LD reader
+ * of jsonld-parser collect the fields of an object one by one in a FieldsOf object and complete it
+ * once every field is read, checking the required ones. The XML writers put them in schema order.
+ */
+
+import { ValidationError } from './utils';
+import type {
+  EpcisAction, EpcisEvent, EpcisEventType, ExtensionFields, ExtensionKey, ObjectEvent, AggregationEvent,
+  TransformationEvent
+} from '@shared/epcis-model';
+
+// The standard fields of a model type, without its extension fields
+type StandardFields<T> = { [K in keyof T as K extends ExtensionKey ? never : K]: T[K] };
+
+/**
+ * An object of the model while its fields are added one by one, none of them required yet
+ */
+export type FieldsOf<T> = ExtensionFields & Partial<StandardFields<T>>;
+
+// The fields of an event of any type but its type, which createEvent adds
+export type EventFields = Omit<FieldsOf<ObjectEvent> & FieldsOf<AggregationEvent> & FieldsOf<TransformationEvent>, 'type'>;
+
+export const EVENT_TYPES: readonly EpcisEventType[] = [
+  'ObjectEvent', 'AggregationEvent', 'TransactionEvent', 'TransformationEvent', 'AssociationEvent'
+];
+
+// Fields shared by all event types (EPCISEventType), in EPCIS 2.0 schema order
+const EVENT_BASE_FIELDS = [
+  'eventTime', 'recordTime', 'eventTimeZoneOffset', 'eventID', 'errorDeclaration', 'certificationInfo'
+];
+
+// Fields of each event type in EPCIS 2.0 schema order
+export const EVENT_FIELDS: Record<string, string[]> = {
+  ObjectEvent: [
+    ...EVENT_BASE_FIELDS, 'epcList', 'action', 'bizStep', 'disposition', 'persistentDisposition',
+    'readPoint', 'bizLocation', 'bizTransactionList', 'quantityList', 'sourceList', 'destinationList',
+    'sensorElementList', 'ilmd'
+  ],
+  AggregationEvent: [
+    ...EVENT_BASE_FIELDS, 'parentID', 'childEPCs', 'action', 'bizStep', 'disposition', 'persistentDisposition',
+    'readPoint', 'bizLocation', 'bizTransactionList', 'childQuantityList', 'sourceList', 'destinationList',
+    'sensorElementList'
+  ],
+  TransactionEvent: [
+    ...EVENT_BASE_FIELDS, 'bizTransactionList', 'parentID', 'epcList', 'action', 'bizStep', 'disposition',
+    'persistentDisposition', 'readPoint', 'bizLocation', 'quantityList', 'sourceList', 'destinationList',
+    'sensorElementList'
+  ],
+  TransformationEvent: [
+    ...EVENT_BASE_FIELDS, 'inputEPCList', 'inputQuantityList', 'outputEPCList', 'outputQuantityList',
+    'transformationID', 'bizStep', 'disposition', 'persistentDisposition', 'readPoint', 'bizLocation',
+    'bizTransactionList', 'sourceList', 'destinationList', 'sensorElementList', 'ilmd'
+  ],
+  AssociationEvent: [
+    ...EVENT_BASE_FIELDS, 'parentID', 'childEPCs', 'childQuantityList', 'action', 'bizStep', 'disposition',
+    'persistentDisposition', 'readPoint', 'bizLocation', 'bizTransactionList', 'sourceList', 'destinationList',
+    'sensorElementList'
+  ]
+};
+
+// Fields the EPCIS schema requires even when a 1.2 event leaves them out
+export const REQUIRED_EVENT_FIELDS: Record<string, string[]> = {
+  ObjectEvent: ['epcList'],
+  AggregationEvent: ['childEPCs'],
+  TransactionEvent: ['bizTransactionList', 'epcList']
+};
+
+export const EPC_LIST_FIELDS = ['epcList', 'childEPCs', 'inputEPCList', 'outputEPCList'] as const;
+
+export const QUANTITY_LIST_FIELDS = ['quantityList', 'childQuantityList', 'inputQuantityList', 'outputQuantityList'] as const;
+
+// Event fields whose value is plain text
+export const TEXT_FIELDS = [
+  'eventTime', 'recordTime', 'eventTimeZoneOffset', 'eventID', 'certificationInfo', 'parentID', 'transformationID',
+  'bizStep', 'disposition'
+] as const;
+
+// Sensor report attributes that are xsd:double in the schema and numbers in JSON-LD
+export const SENSOR_NUMERIC_FIELDS = ['value', 'minValue', 'maxValue', 'meanValue', 'sDev', 'percRank', 'percValue'] as const;
+
+// Sensor report attributes that are text
+export const SENSOR_REPORT_TEXT_FIELDS = [
+  'type', 'exception', 'deviceID', 'deviceMetadata', 'rawData', 'dataProcessingMethod', 'time', 'microorganism',
+  'chemicalSubstance', 'component', 'stringValue', 'hexBinaryValue', 'uriValue', 'uom', 'coordinateReferenceSystem'
+] as const;
+
+// Sensor metadata attributes, all of them text
+export const SENSOR_METADATA_FIELDS = [
+  'time', 'startTime', 'endTime', 'deviceID', 'deviceMetadata', 'rawData', 'dataProcessingMethod', 'bizRules'
+] as const;
+
+const ACTIONS: readonly EpcisAction[] = ['ADD', 'OBSERVE', 'DELETE'];
+
+/**
+ * Tells whether a name is one of a list of field names
+ */
+export function isOneOf<T extends string>(name: string, names: readonly T[]): name is T {
+  return (names as readonly string[]).includes(name);
+}
+
+/**
+ * Tells whether a key is that of an extension field, a prefix and a local name
+ */
+export function isExtensionKey(key: string): key is ExtensionKey {
+  return key.indexOf(':') > 0;
+}
+
+/**
+ * Reads an event action, rejecting anything but ADD, OBSERVE and DELETE
+ */
+export function readAction(value: string, path: string): EpcisAction {
+  if (!isOneOf(value, ACTIONS)) {
+    throw new ValidationError(`${path} has action '${value}', expected ADD, OBSERVE or DELETE`);
+  }
+  return value;
+}
+
+/**
+ * Gives a required field, rejecting an object that does not have it
+ */
+export function requireField<T>(value: T | undefined, name: string, path: string): T {
+  if (value === undefined) {
+    throw new ValidationError(`${path} has no ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Makes an event of the given type from its fields, which keep the order they were read in.
+ * Every event needs an eventTime and eventTimeZoneOffset, and every type but TransformationEvent an action.
+ */
+export function createEvent(type: EpcisEventType, fields: EventFields, path: string): EpcisEvent {
+  const eventTime = requireField(fields.eventTime, 'eventTime', path);
+  const eventTimeZoneOffset = requireField(fields.eventTimeZoneOffset, 'eventTimeZoneOffset', path);
+  if (type === 'TransformationEvent') {
+    return { type, ...fields, eventTime, eventTimeZoneOffset };
+  }
+  return { type, ...fields, eventTime, eventTimeZoneOffset, action: requireField(fields.action, 'action', path) };
+}
@@ -0,0 +1,180 @@
+/**
+ * EPCIS version detection and the upgrades of 1.0 and 1.1 documents.
+ *
+ * The 1.x versions share one namespace and are told apart by the schemaVersion attribute. Each
+ * 1.x version only added to the one before, so documents are brought up to 1.2 one version at a
+ * time, reporting what the version they claim did not define yet, and the 1.2 to 2.0 conversion
+ * takes them from there.
+ */
+
+import { ValidationError, parseXml, getXPath, childElements, fieldElements } from './utils';
+import { EPCIS_1_NAMESPACE, EPCIS_2_NAMESPACE, isEpcisDocument, isEpcisElement } from './namespaces';
+import type { ConversionWarning, EpcisSourceFormat, EpcisVersion } from '@shared/schema';
+
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+interface VersionUpgrade {
+  from: EpcisVersion;
+  to: EpcisVersion;
+  // Event types and event fields the newer version added
+  addedEvents: string[];
+  addedFields: string[];
+}
+
+const UPGRADES: VersionUpgrade[] = [
+  {
+    from: '1.0',
+    to: '1.1',
+    addedEvents: ['TransformationEvent'],
+    addedFields: [
+      'quantityList', 'childQuantityList', 'inputQuantityList', 'outputQuantityList', 'sourceList',
+      'destinationList', 'ilmd'
+    ]
+  },
+  {
+    from: '1.1',
+    to: '1.2',
+    addedEvents: [],
+    addedFields: ['eventID', 'errorDeclaration']
+  }
+];
+
+// Fields of a QuantityEvent that an ObjectEvent has as well, in EPCIS 1.2 schema order
+const QUANTITY_EVENT_SHARED_FIELDS = ['bizStep', 'disposition', 'readPoint', 'bizLocation', 'bizTransactionList'];
+
+/**
+ * Tells the EPCIS version of a document: 2.0 by its namespace, 1.x by its schemaVersion.
+ * A 1.x document without schemaVersion is taken to be 1.2. Throws a ValidationError for
+ * documents that are not EPCIS or name a version the converters do not know.
+ */
+export function detectEpcisVersion(xml: string | XmlDomElement): EpcisVersion {
+  const root = typeof xml === 'string' ? parseXml(xml).documentElement! : xml;
+  if (!root || !isEpcisDocument(root)) {
+    throw new ValidationError('Not an EPCIS document');
+  }
+
+  if (root.namespaceURI === EPCIS_2_NAMESPACE) {
+    return '2.0';
+  }
+  const schemaVersion = root.getAttribute('schemaVersion');
+  if (root.namespaceURI !== EPCIS_1_NAMESPACE || !schemaVersion) {
+    return '1.2';
+  }
+  // schemaVersion is an xsd:decimal, so 1 and 1.00 name 1.0 as well
+  const version = Number(schemaVersion.trim()).toFixed(1);
+  if (version !== '1.0' && version !== '1.1' && version !== '1.2') {
+    throw new ValidationError(`Unsupported EPCIS schemaVersion '${schemaVersion}', expected 1.0, 1.1, 1.2 or 2.0`);
+  }
+  return version;
+}
+
+/**
+ * The format an XML document of the given EPCIS version is read as
+ */
+export function epcisXmlFormat(version: EpcisVersion): EpcisSourceFormat {
+  return version === '2.0' ? 'epcis20-xml' : version === '1.2' ? 'epcis12-xml' : 'epcis11-xml';
+}
+
+/**
+ * Brings an EPCIS 1.x document of the given version in place to the 1.2 layout the 2.0 conversion
+ * reads. Event types and fields that came after the document's version are kept but reported.
+ * QuantityEvents, which 2.0 no longer has, become ObjectEvents with a quantityList as
+ * EPCIS 1.1 recommends, which is reported as well.
+ */
+export function upgradeToEpcis12(root: XmlDomElement, version: EpcisVersion): ConversionWarning[] {
+  const warnings: ConversionWarning[] = [];
+  if (version === '2.0') {
+    return warnings;
+  }
+
+  const events = collectEvents(root);
+  for (const upgrade of UPGRADES.filter(candidate => candidate.from >= version)) {
+    for (const event of events) {
+      if (upgrade.addedEvents.includes(event.localName || '')) {
+        warnings.push({ path: getXPath(event), message: `${event.localName} is not defined in EPCIS ${version}` });
+        continue;
+      }
+      fieldElements(event)
+        .filter(field => upgrade.addedFields.some(name => isEpcisElement(field, name)))
+        .forEach(field => warnings.push({ path: getXPath(field), message: `${field.localName} is not defined in EPCIS ${version}` }));
+    }
+  }
+
+  for (const event of events.filter(candidate => isEpcisElement(candidate, 'QuantityEvent'))) {
+    warnings.push({
+      path: getXPath(event),
+      message: 'QuantityEvent is not defined in EPCIS 2.0 and becomes an ObjectEvent with action OBSERVE and a quantityList'
+    });
+    event.parentNode!.replaceChild(toObjectEvent(event), event);
+  }
+
+  if (version !== '1.2') {
+    root.setAttribute('schemaVersion', '1.2');
+  }
+  return warnings;
+}
+
+/**
+ * Rewrites a QuantityEvent as the ObjectEvent EPCIS 1.1 puts in its place: no EPCs, action OBSERVE
+ * and its epcClass and quantity as the one element of a quantityList
+ */
+function toObjectEvent(event: XmlDomElement): XmlDomElement {
+  const doc = event.ownerDocument!;
+  const create = (name: string, text?: string) => {
+    const element = doc.createElementNS(event.namespaceURI, event.prefix ? `${event.prefix}:${name}` : name);
+    if (text !== undefined) {
+      element.textContent = text;
+    }
+    return element;
+  };
+  const children = childElements(event);
+  const textOf = (name: string) => (children.find(child => isEpcisElement(child, name))?.textContent || '').trim();
+
+  const objectEvent = create('ObjectEvent');
+  Array.from(event.attributes).forEach(attr => objectEvent.setAttributeNS(attr.namespaceURI, attr.name, attr.value));
+
+  // Base fields and baseExtension stay in front
+  children
+    .filter(child => ['eventTime', 'recordTime', 'eventTimeZoneOffset', 'baseExtension'].some(name => isEpcisElement(child, name)))
+    .forEach(child => objectEvent.appendChild(child.cloneNode(true)));
+  objectEvent.appendChild(create('epcList'));
+  objectEvent.appendChild(create('action', 'OBSERVE'));
+  for (const name of QUANTITY_EVENT_SHARED_FIELDS) {
+    children.filter(child => isEpcisElement(child, name)).forEach(child => objectEvent.appendChild(child.cloneNode(true)));
+  }
+
+  const quantityElement = create('quantityElement');
+  quantityElement.appendChild(create('epcClass', textOf('epcClass')));
+  quantityElement.appendChild(create('quantity', textOf('quantity')));
+  const quantityList = create('quantityList');
+  quantityList.appendChild(quantityElement);
+  const extension = create('extension');
+  extension.appendChild(quantityList);
+  // The QuantityEvent extension defines no fields, anything in it is carried over after the quantities
+  children
+    .filter(child => isEpcisElement(child, 'extension'))
+    .flatMap(childElements)
+    .forEach(child => extension.appendChild(child.cloneNode(true)));
+  objectEvent.appendChild(extension);
+
+  // User extension elements follow the standard fields as before
+  children
+    .filter(child => child.namespaceURI && child.namespaceURI !== EPCIS_1_NAMESPACE)
+    .forEach(child => objectEvent.appendChild(child.cloneNode(true)));
+
+  return objectEvent;
+}
+
+/**
+ * Collects the events of every EventList in document order, including events inside EventList extensions
+ */
+function collectEvents(root: XmlDomElement): XmlDomElement[] {
+  const body = childElements(root).find(child => isEpcisElement(child, 'EPCISBody'));
+  if (!body) {
+    return [];
+  }
+  const unwrap = (element: XmlDomElement): XmlDomElement[] => childElements(element).flatMap(child =>
+    isEpcisElement(child, 'extension') ? unwrap(child) : [child]
+  );
+  return childElements(body).filter(child => isEpcisElement(child, 'EventList')).flatMap(unwrap);
+}
@@ -0,0 +1,340 @@
+/**
+ * Event hash IDs as defined in CBV 2.0 section 8.9, e.g. ni:///sha-256;8f1c...?ver=CBV2.0.
+ *
+ * The hash is taken over a pre-hash string that lists the fields of an event in a canonical order,
+ * with identifiers, CBV values, dates and numbers written one way whatever form the event used.
+ * The same event therefore gets the same ID in EPCIS XML and JSON-LD, with URNs or Digital Link
+ * URIs. The rules follow the GS1 reference implementation (github.com/RalphTro/epcis-event-hash-generator).
+ */
+
+import { createHash } from 'crypto';
+import { ValidationError } from './utils';
+import { formatCbvValue, type CbvVocabulary } from './cbv';
+import { toCanonicalDigitalLink } from './digital-link';
+import { EPC_LIST_FIELDS, QUANTITY_LIST_FIELDS, SENSOR_NUMERIC_FIELDS, isOneOf } from './epcis-fields';
+import type { EpcisEvent, JsonLdContext } from '@shared/epcis-model';
+
+// An event or one of its nested objects, its values narrowed as they are written
+type FieldObject = { [name: string]: unknown };
+
+// Namespace URIs by prefix
+type Prefixes = Record<string, string>;
+
+/**
+ * A JSON-LD @context, or the prefix to namespace map of its inline part. Context URLs are skipped,
+ * the prefixes of the EPCIS context are known anyway.
+ */
+export type EventHashContext = JsonLdContext;
+
+interface PreHash {
+  preHash: string;
+  // Pre-hash strings of user extension fields, which go after the standard fields
+  customFields: string[];
+}
+
+// Prefixes the EPCIS 2.0 JSON-LD context defines
+const DEFAULT_PREFIXES: Prefixes = {
+  epcis: 'https://ref.gs1.org/epcis/',
+  cbv: 'https://ref.gs1.org/cbv/',
+  cbvmda: 'urn:epcglobal:cbv:mda:',
+  gs1: 'https://gs1.org/voc/',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  dcterms: 'http://purl.org/dc/terms/'
+};
+
+// Fields that are not part of what happened, so an event keeps its hash when they change
+const IGNORED_FIELDS = ['recordTime', 'eventID', 'errorDeclaration', '@context'];
+
+const EVENT_FIELD_ORDER = [
+  'type', 'eventTime', 'eventTimeZoneOffset', 'certificationInfo', 'parentID', 'epcList', 'inputEPCList',
+  'childEPCs', 'quantityList', 'childQuantityList', 'inputQuantityList', 'outputEPCList', 'outputQuantityList',
+  'action', 'transformationID', 'bizStep', 'disposition', 'persistentDisposition', 'readPoint', 'bizLocation',
+  'bizTransactionList', 'sourceList', 'destinationList', 'sensorElementList', 'ilmd'
+];
+
+const QUANTITY_ELEMENT_FIELD_ORDER = ['epcClass', 'quantity', 'uom'];
+
+const SENSOR_METADATA_FIELD_ORDER = [
+  'time', 'startTime', 'endTime', 'deviceID', 'deviceMetadata', 'rawData', 'dataProcessingMethod', 'bizRules'
+];
+
+const SENSOR_REPORT_FIELD_ORDER = [
+  'type', 'exception', 'deviceID', 'deviceMetadata', 'rawData', 'dataProcessingMethod', 'time', 'microorganism',
+  'chemicalSubstance', 'value', 'component', 'stringValue', 'booleanValue', 'hexBinaryValue', 'uriValue',
+  'minValue', 'maxValue', 'meanValue', 'sDev', 'percRank', 'percValue', 'uom', 'coordinateReferenceSystem'
+];
+
+// Fields written as numbers whatever the form of their value, the only values with zeros trimmed
+const NUMERIC_FIELDS = ['quantity', ...SENSOR_NUMERIC_FIELDS] as const;
+
+// Item name and type vocabulary of the typed lists
+const TYPED_LISTS: Record<string, { itemName: string; vocabulary: CbvVocabulary }> = {
+  bizTransactionList: { itemName: 'bizTransaction', vocabulary: 'btt' },
+  sourceList: { itemName: 'source', vocabulary: 'sdt' },
+  destinationList: { itemName: 'destination', vocabulary: 'sdt' }
+};
+
+/**
+ * Computes the CBV 2.0 event hash ID of an EPCIS event in its JSON-LD form. The context gives
+ * the namespaces of the prefixed extension fields, see eventPreHash.
+ */
+export function eventHash(event: EpcisEvent, context: EventHashContext = []): string {
+  const digest = createHash('sha256').update(eventPreHash(event, context), 'utf8').digest('hex');
+  return `ni:///sha-256;${digest}?ver=CBV2.0`;
+}
+
+/**
+ * Builds the pre-hash string an event hash is taken over. Extension fields are written with the
+ * namespace of their prefix, so an event with a prefix neither the context nor the EPCIS context
+ * defines is rejected with a ValidationError.
+ */
+export function eventPreHash(event: EpcisEvent, context: EventHashContext = []): string {
+  const prefixes = { ...DEFAULT_PREFIXES, ...toPrefixes(context) };
+  const fields: FieldObject = { ...event };
+  const { preHash, customFields } = preHashFields(fields, EVENT_FIELD_ORDER, prefixes, true);
+  return preHash + joinSorted(customFields);
+}
+
+function toPrefixes(context: EventHashContext): Prefixes {
+  const prefixes: Prefixes = {};
+  for (const entry of Array.isArray(context) ? context : [context]) {
+    if (isObject(entry)) {
+      for (const [prefix, namespace] of Object.entries(entry)) {
+        if (typeof namespace === 'string') {
+          prefixes[prefix] = namespace;
+        }
+      }
+    }
+  }
+  return prefixes;
+}
+
+/**
+ * Writes the fields of an object in the given order, collecting the fields the order does not
+ * know as extension fields
+ */
+function preHashFields(object: FieldObject, order: string[], prefixes: Prefixes, isEvent = false): PreHash {
+  let preHash = '';
+  const customFields: string[] = [];
+
+  for (const name of order.filter(candidate => candidate in object)) {
+    const value = object[name];
+    if (Array.isArray(value)) {
+      const list = preHashList(name, value, prefixes);
+      preHash += list.preHash;
+      customFields.push(...list.customFields);
+      continue;
+    }
+    switch (name) {
+      case 'type':
+        preHash += preHashValue(isEvent ? 'eventType' : 'type', value);
+        break;
+      case 'readPoint':
+      case 'bizLocation':
+      case 'sensorMetadata': {
+        if (!isObject(value)) {
+          preHash += preHashValue(name, value);
+          break;
+        }
+        const nested = preHashFields(value, name === 'sensorMetadata' ? SENSOR_METADATA_FIELD_ORDER : ['id'], prefixes);
+        preHash += name + nested.preHash;
+        if (nested.customFields.length > 0) {
+          customFields.push(name + joinSorted(nested.customFields));
+        }
+        break;
+      }
+      case 'persistentDisposition':
+        if (isObject(value)) {
+          preHash += name + preHashFields(value, ['set', 'unset'], prefixes).preHash;
+        }
+        break;
+      case 'ilmd':
+        if (isObject(value)) {
+          preHash += name + preHashChildren(value, prefixes);
+        }
+        break;
+      case 'bizStep':
+        preHash += preHashValue(name, toWebUri(value, 'bizstep'));
+        break;
+      case 'disposition':
+        preHash += preHashValue(name, toWebUri(value, 'disp'));
+        break;
+      default:
+        preHash += isOneOf(name, NUMERIC_FIELDS) ? preHashNumber(name, value) : preHashValue(name, value);
+    }
+  }
+
+  for (const name of Object.keys(object)) {
+    if (!order.includes(name) && !IGNORED_FIELDS.includes(name)) {
+      customFields.push(preHashCustomField(name, object[name], prefixes));
+    }
+  }
+
+  return { preHash, customFields };
+}
+
+/**
+ * Writes a list field, its entries sorted. Empty lists are left out altogether.
+ */
+function preHashList(name: string, list: unknown[], prefixes: Prefixes): PreHash {
+  if (list.length === 0) {
+    return { preHash: '', customFields: [] };
+  }
+  const entries: string[] = [];
+  const customFields: string[] = [];
+
+  if (isOneOf(name, EPC_LIST_FIELDS)) {
+    entries.push(...list.map(epc => preHashValue('epc', epc)));
+  } else if (name === 'set' || name === 'unset') {
+    return { preHash: joinSorted(list.map(value => preHashValue(name, toWebUri(value, 'disp')))), customFields };
+  } else if (isOneOf(name, QUANTITY_LIST_FIELDS)) {
+    for (const element of list.filter(isObject)) {
+      const quantity = preHashFields(element, QUANTITY_ELEMENT_FIELD_ORDER, prefixes);
+      entries.push(`quantityElement${quantity.preHash}`);
+      customFields.push(...quantity.customFields.map(field => `quantityElement${field}`));
+    }
+  } else if (name in TYPED_LISTS) {
+    const { itemName, vocabulary } = TYPED_LISTS[name];
+    for (const item of list.filter(isObject)) {
+      const typed = 'type' in item ? { ...item, type: toWebUri(item.type, vocabulary) } : item;
+      const entry = preHashFields(typed, ['type', itemName], prefixes);
+      entries.push(entry.preHash);
+      customFields.push(...entry.customFields.map(field => `${itemName}${field}`));
+    }
+  } else if (name === 'sensorElementList') {
+    const elementFields: string[] = [];
+    for (const element of list.filter(isObject)) {
+      const sensorElement = preHashFields(element, ['sensorMetadata', 'sensorReport'], prefixes);
+      entries.push(`sensorElement${sensorElement.preHash}`);
+      if (sensorElement.customFields.length > 0) {
+        elementFields.push(`sensorElement${joinSorted(sensorElement.customFields)}`);
+      }
+    }
+    if (elementFields.length > 0) {
+      customFields.push(`sensorElementList${joinSorted(elementFields)}`);
+    }
+  } else if (name === 'sensorReport') {
+    for (const report of list.filter(isObject)) {
+      const sensorReport = preHashFields(expandSensorReportTerms(report), SENSOR_REPORT_FIELD_ORDER, prefixes);
+      entries.push(`sensorReport${sensorReport.preHash}`);
+      if (sensorReport.customFields.length > 0) {
+        customFields.push(`sensorReport${joinSorted(sensorReport.customFields)}`);
+      }
+    }
+    return { preHash: joinSorted(entries), customFields };
+  } else {
+    customFields.push(...list.map(value => preHashCustomField(name, value, prefixes)));
+    return { preHash: '', customFields };
+  }
+
+  return { preHash: name + joinSorted(entries), customFields };
+}
+
+/**
+ * Writes an extension field as {namespace}localName, nested fields sorted after their parent
+ */
+function preHashCustomField(key: string, value: unknown, prefixes: Prefixes): string {
+  // Comments say nothing about the event
+  if (key === 'rdfs:comment') {
+    return '';
+  }
+  let field = key;
+  const separator = key.indexOf(':');
+  if (separator !== -1) {
+    const prefix = key.substring(0, separator);
+    if (!(prefix in prefixes)) {
+      throw new ValidationError(`No namespace is defined for the prefix of the extension field '${key}'`);
+    }
+    field = `{${prefixes[prefix]}}${key.substring(separator + 1)}`;
+  } else if (key.startsWith('#')) {
+    // Text next to XML attributes is written without a name
+    return `=${String(value)}`;
+  }
+
+  if (Array.isArray(value)) {
+    return joinSorted(value.map(entry =>
+      isObject(entry) ? field + preHashChildren(entry, prefixes) : preHashValue(field, entry)
+    ));
+  }
+  return isObject(value) ? field + preHashChildren(value, prefixes) : preHashValue(field, value);
+}
+
+function preHashChildren(object: FieldObject, prefixes: Prefixes): string {
+  return joinSorted(Object.keys(object).map(key => preHashCustomField(key, object[key], prefixes)));
+}
+
+/**
+ * Writes field=value with the value normalized: trimmed, dates in UTC with milliseconds and
+ * identifiers as canonical Digital Link URIs. Other text is written as it is, digits included.
+ */
+function preHashValue(field: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    return `${field}=${String(value)}`;
+  }
+  let normalized = value.trim();
+  if (isDateTime(normalized)) {
+    normalized = new Date(/(Z|[+-]\d{2}:\d{2})$/.test(normalized) ? normalized : `${normalized}Z`).toISOString();
+  }
+  normalized = toCanonicalDigitalLink(normalized) ?? normalized;
+  return `${field}=${normalized}`;
+}
+
+/**
+ * Writes a numeric field as its number, so that 0.50, 0.5 and 5E-1 are the same. Values that are
+ * not numbers are written as other text is.
+ */
+function preHashNumber(field: string, value: unknown): string {
+  const number = typeof value === 'number' ? value
+    : typeof value === 'string' && value.trim() !== '' ? Number(value)
+    : NaN;
+  return Number.isFinite(number) ? `${field}=${number}` : preHashValue(field, value);
+}
+
+/**
+ * Tells date-times from other text, plain dates such as 2014-12-10 being left as written
+ */
+function isDateTime(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Writes a CBV 2.0 term as its GS1 Web URI. Terms missing from CBV 2.0 are reduced to the bare
+ * term, so that every form of them gives the same hash, and values of other vocabularies are
+ * left as they are.
+ */
+function toWebUri(value: unknown, vocabulary: CbvVocabulary): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const formatted = formatCbvValue(value.trim(), vocabulary, 'webUri');
+  return formatted.known ? formatted.value : formatCbvValue(value.trim(), vocabulary, 'bare').value;
+}
+
+/**
+ * Expands the bare and gs1: terms of a sensor report to the GS1 Web Vocabulary and CBV URIs
+ */
+function expandSensorReportTerms(report: FieldObject): FieldObject {
+  const expanded = { ...report };
+  const expand = (name: string, base: string, termPrefix: string) => {
+    const value = expanded[name];
+    if (typeof value === 'string' && value.startsWith('gs1:')) {
+      expanded[name] = DEFAULT_PREFIXES.gs1 + value.substring('gs1:'.length);
+    } else if (typeof value === 'string' && !value.includes(':')) {
+      expanded[name] = base + termPrefix + value;
+    }
+  };
+  expand('type', DEFAULT_PREFIXES.gs1, '');
+  expand('exception', DEFAULT_PREFIXES.gs1, 'SensorAlertType-');
+  expand('component', DEFAULT_PREFIXES.cbv, 'Comp-');
+  return expanded;
+}
+
+function isObject(value: unknown): value is FieldObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinSorted(strings: string[]): string {
+  return [...strings].sort().join('');
+}
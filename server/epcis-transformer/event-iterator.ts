@@ -0,0 +1,163 @@
+/**
+ * Iteration over the header, master data and events of an EPCIS document of any format.
+ *
+ * XML is read in chunks with the SAX splitter of the streaming converters and each event is
+ * converted to its JSON-LD form on its own, so only the event being read is held in memory.
+ * JSON-LD input already has that form and is parsed as a whole.
+ */
+
+import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { EventSplitter, relocateWarning, withDeclaredNamespaces } from './stream-converter';
+import { runEpcis20Conversion, toConversionError } from './xml-converter';
+import { buildJsonLdDocument } from './json-converter';
+import { parseJsonLdDocument } from './jsonld-parser';
+import { detectEpcisVersion, epcisXmlFormat } from './epcis-versions';
+import { ValidationError } from './utils';
+import type { ConversionWarning, EpcisModelOptions, EpcisSourceFormat, EpcisVersion } from '@shared/schema';
+import type { EpcisDocument, EpcisEvent, EpcisItem } from '@shared/epcis-model';
+
+/**
+ * A document as a string or Buffer, the path of a file holding one, or a readable stream of one.
+ * Strings starting with < or { are taken as documents, any other string as a file path.
+ */
+export type EventSource = string | Buffer | NodeJS.ReadableStream;
+
+type Chunk = string | Buffer;
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * Yields the header of an EPCIS 1.x XML, EPCIS 2.0 XML or JSON-LD document, its master data when
+ * it has any, and then its events one by one, all in their EPCIS 2.0 JSON-LD form
+ */
+export async function* iterateEvents(source: EventSource, options: EpcisModelOptions = {}): AsyncGenerator<EpcisItem> {
+  const chunks = readSource(source)[Symbol.asyncIterator]();
+
+  // The first character tells XML from JSON-LD, which may take more than one chunk of whitespace
+  const head: Chunk[] = [];
+  let first: string | null = null;
+  while (first === null) {
+    const next = await chunks.next();
+    if (next.done) {
+      throw new ValidationError('Not an EPCIS document');
+    }
+    head.push(next.value);
+    first = firstCharacter(next.value);
+  }
+
+  const input = (async function* () {
+    yield* head;
+    for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+      yield next.value;
+    }
+  })();
+  if (first === '{') {
+    yield* readJsonLd(input);
+  } else {
+    yield* readXml(input, options);
+  }
+}
+
+/**
+ * Opens the chunks of a source, reading files as a stream
+ */
+function readSource(source: EventSource): AsyncIterable<Chunk> {
+  if (typeof source === 'string' && !/^[<{]/.test(source.replace(BYTE_ORDER_MARK, '').trimStart())) {
+    return fs.createReadStream(source);
+  }
+  if (typeof source === 'string' || Buffer.isBuffer(source)) {
+    return (async function* () { yield source; })();
+  }
+  return source as AsyncIterable<Chunk>;
+}
+
+/**
+ * Converts each event of an XML document as the splitter cuts it out, yielding what a chunk completed
+ */
+async function* readXml(chunks: AsyncIterable<Chunk>, options: EpcisModelOptions): AsyncGenerator<EpcisItem> {
+  const items: EpcisItem[] = [];
+  let version: EpcisVersion = '2.0';
+
+  const toJsonLd = (xml: string, onWarning: ((warning: ConversionWarning) => void) | undefined) => {
+    const xml20 = version === '2.0'
+      ? xml
+      : runEpcis20Conversion(xml, { validateXml: false, preserveComments: false, validateEpcs: false, onWarning });
+    return buildJsonLdDocument(xml20, { prettyPrint: false, includeContext: true, validate: false, validateEpcs: false, onWarning });
+  };
+
+  const splitter = new EventSplitter({
+    onEnvelope: xml => {
+      version = detectEpcisVersion(xml);
+      const document = toJsonLd(xml, options.onWarning);
+      document['@context'] = withDeclaredNamespaces(document['@context'], splitter.namespaces);
+      items.push(...envelopeItems(document, epcisXmlFormat(version), version));
+    },
+    onEvent: (xml, path) => {
+      const document = toJsonLd(xml, options.onWarning && (warning => options.onWarning!(relocateWarning(warning, path))));
+      for (const event of document.epcisBody.eventList) {
+        items.push({ kind: 'event', event, path });
+      }
+    },
+    onWarning: warning => options.onWarning?.(warning)
+  });
+
+  try {
+    for await (const chunk of chunks) {
+      splitter.write(chunk);
+      yield* items.splice(0);
+    }
+    splitter.close();
+  } catch (error) {
+    throw toConversionError(error);
+  }
+  yield* items.splice(0);
+}
+
+/**
+ * Parses a JSON-LD document and yields its parts
+ */
+async function* readJsonLd(chunks: AsyncIterable<Chunk>): AsyncGenerator<EpcisItem> {
+  const decoder = new StringDecoder('utf8');
+  let text = '';
+  for await (const chunk of chunks) {
+    text += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+  }
+  text += decoder.end();
+
+  const document = parseJsonLdDocument(text);
+  yield* envelopeItems(document, 'jsonld', '2.0');
+  const events: EpcisEvent[] = document.epcisBody?.eventList || [];
+  for (let i = 0; i < events.length; i++) {
+    yield { kind: 'event', event: events[i], path: `/epcisBody/eventList/${i}` };
+  }
+}
+
+/**
+ * Takes the header and master data items from a JSON-LD document
+ */
+function envelopeItems(document: EpcisDocument, sourceFormat: EpcisSourceFormat, sourceVersion: EpcisVersion): EpcisItem[] {
+  const { epcisMasterData, ...header } = document.epcisHeader || {};
+  const items: EpcisItem[] = [{
+    kind: 'header',
+    sourceFormat,
+    sourceVersion,
+    creationDate: document.creationDate,
+    context: document['@context'] || [],
+    header
+  }];
+  if (epcisMasterData) {
+    items.push({ kind: 'masterData', vocabularyList: epcisMasterData.vocabularyList || [] });
+  }
+  return items;
+}
+
+/**
+ * Finds the first character of a chunk that is not whitespace or a byte order mark, if any
+ */
+function firstCharacter(chunk: Chunk): string | null {
+  // Bytes are read as Latin-1, which leaves the UTF-8 byte order mark as three characters
+  const text = typeof chunk === 'string' ? chunk : chunk.toString('latin1');
+  const match = /[^\s\uFEFF\u00EF\u00BB\u00BF]/.exec(text);
+  return match ? match[0] : null;
+}
@@ -1,20 +1,87 @@
-import { convertToEpcis20Xml, convertToEpcis20XmlSync } from './xml-converter';
+import { convertToEpcis20Xml, convertToEpcis20XmlSync, convertToEpcis12Xml } from './xml-converter';
 import { convertToJsonLd, convertToJsonLdSync } from './json-converter';
+import { convertJsonLdToXml } from './jsonld-converter';
+import { validateEpcisXml } from './schema-validator';
+import { validateJsonLd } from './jsonld-validator';
+import { RuleEngine, BUILT_IN_RULES, RULE_PACKS, validateEpcis } from './rule-engine';
+import { inspectEpc, computeCheckDigit, hasValidCheckDigit } from './epc-uri';
+import { toDigitalLink, toEpcUrn } from './digital-link';
+import { CBV_TERMS, formatCbvValue } from './cbv';
+import { eventHash } from './event-hash';
+import { detectEpcisVersion } from './epcis-versions';
+import { detectFormat, transform } from './transform';
+import { createEpcis20XmlStream, createJsonLdStream } from './stream-converter';
+import { iterateEvents } from './event-iterator';
+import { parseEpcis, serializeEpcis } from './epcis-document';
+import { EpcisDocumentBuilder } from './document-builder';
 import { ValidationError, TransformationError } from './utils';
 import { OpenEpcisClient, openEpcisClient } from './openEpcisClient';
+import { createTransformer, createRemoteEngine, registerEngine, listEngines } from './conversion-engines';
 import type { XmlTransformOptions, JsonLdTransformOptions } from '@shared/schema';
 
 /**
  * EPCIS Transformer module
  * 
- * A Node.js module for converting EPCIS 1.2 XML to EPCIS 2.0 XML and JSON-LD formats
+ * A Node.js module for converting EPCIS 1.x XML to EPCIS 2.0 XML and JSON-LD formats,
+ * EPCIS 2.0 XML back to EPCIS 1.2, and EPCIS 2.0 JSON-LD back to XML, directly or through transform
  */
 export {
+  // Conversion between any two formats
+  transform,
+  detectFormat,
+  
   // Core conversion functions
   convertToEpcis20Xml,
   convertToEpcis20XmlSync,
+  convertToEpcis12Xml,
   convertToJsonLd,
   convertToJsonLdSync,
+  convertJsonLdToXml,
+  
+  // Streaming conversion
+  createEpcis20XmlStream,
+  createJsonLdStream,
+  
+  // Event iteration
+  iterateEvents,
+  
+  // EPCIS object model
+  parseEpcis,
+  serializeEpcis,
+  EpcisDocumentBuilder,
+  
+  // EPCIS versions
+  detectEpcisVersion,
+  
+  // Schema validation
+  validateEpcisXml,
+  validateJsonLd,
+  
+  // Business rule validation
+  validateEpcis,
+  RuleEngine,
+  BUILT_IN_RULES,
+  RULE_PACKS,
+  
+  // EPC identifiers
+  inspectEpc,
+  computeCheckDigit,
+  hasValidCheckDigit,
+  toDigitalLink,
+  toEpcUrn,
+  
+  // CBV vocabularies
+  CBV_TERMS,
+  formatCbvValue,
+  
+  // Event hash IDs
+  eventHash,
+  
+  // Conversion engines
+  createTransformer,
+  createRemoteEngine,
+  registerEngine,
+  listEngines,
   
   // OpenEPCIS API client
   OpenEpcisClient,
@@ -25,28 +92,64 @@ export {
   TransformationError
 };
 
+export type { EpcisRule, RuleEvent, RuleFinding } from './rule-engine';
+export type { EventHashContext } from './event-hash';
+export type { EventSource } from './event-iterator';
+export type { ConversionEngine, ConversionService, Transformer, TransformerOptions } from './conversion-engines';
+export type {
+  ObjectEventBuilder, AggregationEventBuilder, TransactionEventBuilder, TransformationEventBuilder, AssociationEventBuilder
+} from './document-builder';
+export type { EpcisVersion } from '@shared/schema';
+export type * from '@shared/epcis-model';
+
 /**
  * Main interface for the EPCIS Transformer
  */
 export default {
   /**
-   * Convert EPCIS 1.2 XML to EPCIS 2.0 XML
+   * Convert an EPCIS document of any supported format to another, detecting the input format
    * 
-   * @param xml - String containing EPCIS 1.2 XML
+   * @param input - String containing EPCIS 1.x XML, EPCIS 2.0 XML or JSON-LD
+   * @param options - The format to produce, epcis12-xml, epcis20-xml or jsonld, and a validation flag
+   * @returns Promise that resolves to the result, the detected format, the chain of formats passed and the warnings
+   */
+  transform,
+
+  /**
+   * Tell the format of an EPCIS document
+   * 
+   * @param input - String containing EPCIS XML or JSON-LD
+   * @returns epcis12-xml for EPCIS 1.x XML, epcis20-xml or jsonld
+   */
+  detectFormat,
+
+  /**
+   * Convert EPCIS 1.0, 1.1 or 1.2 XML to EPCIS 2.0 XML
+   * 
+   * @param xml - String containing EPCIS 1.x XML, its version detected from schemaVersion
    * @param options - Optional configuration object
    * @returns Promise that resolves to EPCIS 2.0 XML string
    */
   convertToEpcis20Xml,
   
   /**
-   * Convert EPCIS 1.2 XML to EPCIS 2.0 XML (synchronous version)
+   * Convert EPCIS 1.0, 1.1 or 1.2 XML to EPCIS 2.0 XML (synchronous version)
    * 
-   * @param xml - String containing EPCIS 1.2 XML
-   * @param options - Optional configuration object
-   * @returns EPCIS 2.0 XML string
+   * @param xml - String containing EPCIS 1.x XML
+   * @param options - Optional configuration object, without validateXml as schema validation is asynchronous
+   * @returns EPCIS 2.0 XML string, the same as convertToEpcis20Xml gives
    */
   convertToEpcis20XmlSync,
   
+  /**
+   * Convert EPCIS 2.0 XML back to EPCIS 1.2 XML
+   * 
+   * @param xml - String containing EPCIS 2.0 XML
+   * @param options - Optional configuration object
+   * @returns Promise that resolves to the EPCIS 1.2 XML and warnings for data 1.2 cannot represent
+   */
+  convertToEpcis12Xml,
+  
   /**
    * Transform EPCIS 2.0 XML to JSON-LD
    * 
@@ -61,9 +164,154 @@ export default {
    * 
    * @param xml - String containing EPCIS 2.0 XML
    * @param options - Optional configuration object
-   * @returns JSON-LD string
+   * @returns JSON-LD string, the same as convertToJsonLd gives
    */
   convertToJsonLdSync,
+  
+  /**
+   * Create a Transform stream converting EPCIS 1.x XML to EPCIS 2.0 XML one event at a time
+   * 
+   * @param options - Optional configuration object, without validateXml as schema validation needs the whole document
+   * @returns Transform stream taking EPCIS 1.x XML and giving EPCIS 2.0 XML
+   */
+  createEpcis20XmlStream,
+  
+  /**
+   * Create a Transform stream converting EPCIS 2.0 XML to JSON-LD one event at a time
+   * 
+   * @param options - Optional configuration object
+   * @returns Transform stream taking EPCIS 2.0 XML and giving JSON-LD
+   */
+  createJsonLdStream,
+  
+  /**
+   * Iterate over the header, master data and events of an EPCIS document
+   * 
+   * @param source - EPCIS 1.x XML, EPCIS 2.0 XML or JSON-LD as a string, Buffer, file path or readable stream
+   * @param options - Optional configuration object with an onWarning callback
+   * @returns Async iterator of the header, the master data when there is any, and each event in its JSON-LD form
+   */
+  iterateEvents,
+  
+  /**
+   * Read an EPCIS document into the typed EPCIS object model
+   * 
+   * @param input - String containing EPCIS 1.x XML, EPCIS 2.0 XML or JSON-LD
+   * @param options - Optional configuration object with an onWarning callback
+   * @returns The document as an EpcisDocument, in the shape of its JSON-LD form
+   */
+  parseEpcis,
+  
+  /**
+   * Write a document of the EPCIS object model
+   * 
+   * @param document - EpcisDocument, e.g. from parseEpcis
+   * @param format - epcis12-xml, epcis20-xml or jsonld
+   * @param options - Optional configuration object with an onWarning callback for data the format cannot hold
+   * @returns Promise that resolves to the serialized document
+   */
+  serializeEpcis,
+  
+  /**
+   * Builder for EPCIS documents written in code, e.g. new EpcisDocumentBuilder().objectEvent().epcs([...])
+   * Checks values as they are set and the required fields of each event, and serializes to any format
+   */
+  EpcisDocumentBuilder,
+  
+  /**
+   * Convert EPCIS 2.0 JSON-LD to EPCIS 2.0 or 1.2 XML
+   * 
+   * @param jsonLd - String containing EPCIS 2.0 JSON-LD
+   * @param options - Optional configuration object
+   * @returns Promise that resolves to the XML and warnings for fields that could not be written
+   */
+  convertJsonLdToXml,
+  
+  /**
+   * Tell the EPCIS version of an XML document from its namespace and schemaVersion
+   * 
+   * @param xml - String containing EPCIS XML
+   * @returns The version, 1.0, 1.1, 1.2 or 2.0
+   */
+  detectEpcisVersion,
+
+  /**
+   * Validate EPCIS 1.2 or 2.0 XML against the bundled EPCIS XSD for its version
+   * 
+   * @param xml - String containing EPCIS XML
+   * @returns Promise that resolves to the validity and the issues found, with line, column and XPath
+   */
+  validateEpcisXml,
+
+  /**
+   * Validate EPCIS 2.0 JSON-LD against the bundled GS1 EPCIS JSON Schema
+   * 
+   * @param jsonLd - String or object containing EPCIS 2.0 JSON-LD
+   * @returns The validity and the issues found, each with the JSON Pointer of the offending value
+   */
+  validateJsonLd,
+
+  /**
+   * Check EPCIS XML against the built-in business rules, and optionally its XSD
+   * 
+   * @param xml - String containing EPCIS 1.x or 2.0 XML
+   * @param options - Optional severity overrides by rule id and schema flag
+   * @returns Promise that resolves to a report of issues with severity, rule id, event index and XPath
+   */
+  validateEpcis,
+
+  /**
+   * Parse an EPC URN (pure identity, lgtin class or pattern) and explain each of its parts
+   * 
+   * @param uri - EPC URN such as urn:epc:id:sgtin:0614141.112345.400
+   * @returns The parts, the GS1 key with its check digit and any syntax or length errors
+   */
+  inspectEpc,
+
+  /**
+   * Convert an EPC URN to its GS1 Digital Link URI
+   * 
+   * @param urn - EPC URN such as urn:epc:id:sgtin:0614141.112345.400
+   * @param domain - Scheme and host of the URI, https://id.gs1.org by default
+   * @returns The Digital Link URI, or null when the URN is invalid or has no Digital Link counterpart
+   */
+  toDigitalLink,
+
+  /**
+   * Convert a GS1 Digital Link URI to its EPC URN
+   * 
+   * @param uri - Digital Link URI such as https://id.gs1.org/01/10614141123459/21/400
+   * @param companyPrefixLengths - Company prefix lengths by leading digits of the key, 7 digits otherwise
+   * @returns The EPC URN, or null when the URI is not a Digital Link URI an EPC URN can express
+   */
+  toEpcUrn,
+
+  /**
+   * Compute the CBV 2.0 event hash ID of an EPCIS event
+   * 
+   * @param event - Event in its JSON-LD form
+   * @param context - JSON-LD @context or prefix map giving the namespaces of extension fields
+   * @returns The ID, such as ni:///sha-256;...?ver=CBV2.0
+   */
+  eventHash,
+
+  /**
+   * Get the conversions of an engine by name: local, xslt, openepcis or one added with registerEngine
+   * 
+   * @param options - Optional configuration object with the engine name or an engine of your own
+   * @returns The engine's conversions from EPCIS 1.x XML to EPCIS 2.0 XML and JSON-LD
+   */
+  createTransformer,
+
+  /**
+   * Make a conversion engine available to createTransformer and the API endpoints by its name
+   */
+  registerEngine,
+
+  /**
+   * Make an engine of a service that converts documents without options, applying the options locally
+   */
+  createRemoteEngine,
 
   /**
    * The OpenEPCIS API client
@@ -1,98 +1,98 @@
-import { DOMParser } from '@xmldom/xmldom';
-import { ValidationError, TransformationError, validateXml } from './utils';
-import { JsonLdTransformOptions } from '@shared/schema';
+import { ValidationError, TransformationError, TEXT_NODE, parseXml, getXPath, childElements, fieldElements } from './utils';
+import { EPCIS_2_NAMESPACE, getPreferredPrefix, isEpcisDocument, isEpcisElement, isExtensionElement } from './namespaces';
+import { assertValidJsonLd } from './jsonld-validator';
+import { assertValidEpcs } from './epc-uri';
+import { rewriteIdentifiers } from './digital-link';
+import { normalizeCbvValues } from './cbv';
+import { eventHash } from './event-hash';
+import {
+  EVENT_TYPES, EVENT_FIELDS, EPC_LIST_FIELDS, QUANTITY_LIST_FIELDS, TEXT_FIELDS, SENSOR_NUMERIC_FIELDS,
+  SENSOR_REPORT_TEXT_FIELDS, SENSOR_METADATA_FIELDS, isOneOf, readAction, requireField, createEvent
+} from './epcis-fields';
+import type { EventFields, FieldsOf } from './epcis-fields';
+import type { JsonLdTransformOptions, ConversionWarning } from '@shared/schema';
+import type {
+  EpcisDocument, EpcisEvent, EpcisHeader, EpcisMasterData, VocabularyElement, ExtensionValue, ExtensionObject,
+  ExtensionFields, ExtensionKey, QuantityElement, PersistentDisposition, EpcisLocation, ErrorDeclaration,
+  SensorElement, SensorMetadata, SensorReport
+} from '@shared/epcis-model';
 
 // Define a new type that represents the xmldom Element interface
 type XmlDomElement = import('@xmldom/xmldom').Element;
+type XmlDomAttr = import('@xmldom/xmldom').Attr;
+
+const EPCIS_CONTEXT_URL = 'https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld';
 
 /**
  * Transforms EPCIS 2.0 XML to EPCIS 2.0 JSON-LD format
  */
 export async function convertToJsonLd(
   xml: string,
-  options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true }
+  options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true, validate: false, validateEpcs: false }
 ): Promise<string> {
+  return convertToJsonLdSync(xml, options);
+}
+
+/**
+ * Synchronous version of the converter, which convertToJsonLd runs as well
+ */
+export function convertToJsonLdSync(
+  xml: string,
+  options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true, validate: false, validateEpcs: false }
+): string {
   console.log('Starting JSON-LD conversion');
+  return runJsonLdConversion(xml, options);
+}
+
+/**
+ * The conversion of the converters above without their progress logging, which the streaming
+ * converter runs once per event
+ */
+export function runJsonLdConversion(xml: string, options: JsonLdTransformOptions): string {
+  return JSON.stringify(buildJsonLdDocument(xml, options), null, options.prettyPrint ? 2 : 0);
+}
+
+/**
+ * Reads EPCIS 2.0 XML into the EPCIS object model, which the conversion serializes as it is
+ */
+export function buildJsonLdDocument(xml: string, options: JsonLdTransformOptions): EpcisDocument {
   try {
-    // Validate the XML input
-    console.log('Validating XML input');
-    if (!validateXml(xml)) {
-      console.error('XML validation failed');
-      throw new ValidationError('Invalid EPCIS 2.0 XML document');
-    }
-    
-    // Parse the XML
-    console.log('Parsing XML document');
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, 'application/xml');
-    
-    // Check for parsing errors
-    const parseErrors = doc.getElementsByTagName('parsererror');
-    if (parseErrors.length > 0) {
-      console.error('XML parse error:', parseErrors[0].textContent);
-      throw new ValidationError('XML parsing failed: ' + (parseErrors[0].textContent || 'Unknown error'));
-    }
+    const doc = parseXml(xml);
     
     // Check if this is actually an EPCIS 2.0 document
-    console.log('Checking if document is EPCIS 2.0');
     const documentElement = doc.documentElement as XmlDomElement;
-    console.log('Document namespace:', documentElement ? documentElement.namespaceURI : 'none');
     
     // For debugging, allow non-EPCIS 2.0 documents temporarily
     if (!documentElement) {
       throw new ValidationError('Invalid XML document structure - no document element');
     }
     
-    // Build the JSON-LD object
-    const jsonLd: any = {};
+    // Resolve the document element by namespace, so ns2: prefixes and default namespaces are accepted
+    if (!isEpcisDocument(documentElement)) {
+      throw new ValidationError('Not an EPCIS document');
+    }
     
-    // Add JSON-LD context if option is enabled
-    if (options.includeContext) {
-      jsonLd['@context'] = 'https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld';
+    if (options.validateEpcs) {
+      assertValidEpcs(documentElement, 'Input document');
     }
     
-    // Extract document attributes
-    jsonLd.type = 'EPCISDocument';
-    jsonLd.schemaVersion = documentElement.getAttribute('schemaVersion') || '2.0';
-    jsonLd.creationDate = documentElement.getAttribute('creationDate') || new Date().toISOString();
+    rewriteIdentifiers(documentElement, options);
     
-    // Process the EPCISBody (or similar element)
-    const epcisBody = documentElement.getElementsByTagName('epcis:EPCISBody')[0] 
-      || documentElement.getElementsByTagName('EPCISBody')[0] as XmlDomElement;
+    // CBV values become bare terms unless another form is asked for
+    normalizeCbvValues(documentElement, options.cbvFormat || 'bare').forEach(warning => options.onWarning?.(warning));
     
-    // Always create an epcisBody with eventList to match the expected OpenEPCIS structure
-    jsonLd.epcisBody = { eventList: [] };
+    if (options.assignEventIds) {
+      assignEventIds(documentElement);
+    }
+    
+    const { '@context': context, ...document } = readEpcisXml(documentElement, options.onWarning);
+    const jsonLd: EpcisDocument = options.includeContext ? { '@context': context, ...document } : document;
     
-    if (epcisBody) {
-      // Process EventList
-      const eventList = epcisBody.getElementsByTagName('epcis:EventList')[0] 
-        || epcisBody.getElementsByTagName('EventList')[0] as XmlDomElement;
-      
-      if (eventList) {
-        // Process each type of event
-        processEvents(eventList, 'epcis:ObjectEvent', jsonLd.epcisBody.eventList);
-        processEvents(eventList, 'ObjectEvent', jsonLd.epcisBody.eventList);
-        
-        processEvents(eventList, 'epcis:AggregationEvent', jsonLd.epcisBody.eventList);
-        processEvents(eventList, 'AggregationEvent', jsonLd.epcisBody.eventList);
-        
-        processEvents(eventList, 'epcis:TransactionEvent', jsonLd.epcisBody.eventList);
-        processEvents(eventList, 'TransactionEvent', jsonLd.epcisBody.eventList);
-        
-        processEvents(eventList, 'epcis:TransformationEvent', jsonLd.epcisBody.eventList);
-        processEvents(eventList, 'TransformationEvent', jsonLd.epcisBody.eventList);
-        
-        processEvents(eventList, 'epcis:AssociationEvent', jsonLd.epcisBody.eventList);
-        processEvents(eventList, 'AssociationEvent', jsonLd.epcisBody.eventList);
-      }
+    if (options.validate) {
+      assertValidJsonLd(jsonLd, 'Converted document');
     }
     
-    // Serialize to JSON string with appropriate formatting
-    return JSON.stringify(
-      jsonLd, 
-      null, 
-      options.prettyPrint ? 2 : 0
-    );
+    return jsonLd;
   } catch (error) {
     // Re-throw validation and transformation errors as they are already handled
     if (error instanceof ValidationError || error instanceof TransformationError) {
@@ -105,96 +105,488 @@ export async function convertToJsonLd(
 }
 
 /**
- * Process EPCIS events of a specific type
+ * Adds an eventID holding the CBV 2.0 event hash to every event of an EPCIS document that has
+ * none. The eventID goes after eventTimeZoneOffset, where EPCIS 2.0 XML expects it.
  */
-function processEvents(eventList: XmlDomElement, eventType: string, resultArray: any[]): void {
-  const events = eventList.getElementsByTagName(eventType);
-  
-  for (let i = 0; i < events.length; i++) {
-    const event = events[i] as XmlDomElement;
-    const eventObj: any = {
-      type: eventType.split(':')[1] // Remove namespace prefix
-    };
+export function assignEventIds(root: XmlDomElement): void {
+  for (const event of getEvents(root)) {
+    if (fieldElements(event).some(field => isEpcisElement(field, 'eventID'))) {
+      continue;
+    }
+    const context: ReadContext = { namespaces: new Map() };
+    const eventId = eventHash(processEvent(event, context), Object.fromEntries(context.namespaces));
     
-    // Process common event fields
-    processEventFields(event, eventObj);
+    const anchor = childElements(event).find(child => isEpcisElement(child, 'eventTimeZoneOffset'))
+      || childElements(event).find(child => isEpcisElement(child, 'eventTime'));
+    const doc = event.ownerDocument!;
+    const eventIdElement = anchor
+      ? doc.createElementNS(anchor.namespaceURI, anchor.prefix ? `${anchor.prefix}:eventID` : 'eventID')
+      : doc.createElement('eventID');
+    eventIdElement.textContent = eventId;
+    if (!anchor) {
+      event.appendChild(eventIdElement);
+      continue;
+    }
     
-    // Add to result array
-    resultArray.push(eventObj);
+    // Indent the new element like the one it follows
+    event.insertBefore(eventIdElement, anchor.nextSibling);
+    const indentation = anchor.previousSibling;
+    if (indentation && indentation.nodeType === TEXT_NODE && !(indentation.nodeValue || '').trim()) {
+      event.insertBefore(doc.createTextNode(indentation.nodeValue || ''), eventIdElement);
+    }
+  }
+}
+
+/**
+ * Reads an EPCIS document element into the EPCIS object model, with the @context defining the
+ * prefixes of its extension fields. Both the EPCIS 2.0 layout and the 1.2 layout with its
+ * extension wrappers are read. Elements the model has no place for are reported through
+ * onWarning and left out, missing required fields are rejected with a ValidationError.
+ */
+export function readEpcisXml(root: XmlDomElement, onWarning?: (warning: ConversionWarning) => void): EpcisDocument {
+  const context: ReadContext = { namespaces: new Map(), onWarning };
+
+  // The EPCISHeader holds the SBDH, master data and user-defined header elements
+  const header = childElements(root).find(child => isEpcisElement(child, 'EPCISHeader'));
+  const epcisHeader = header ? processHeader(header, context) : undefined;
+  const eventList = getEvents(root).map(event => processEvent(event, context));
+
+  return {
+    '@context': context.namespaces.size > 0
+      ? [EPCIS_CONTEXT_URL, Object.fromEntries(context.namespaces)]
+      : [EPCIS_CONTEXT_URL],
+    type: 'EPCISDocument',
+    // The model is EPCIS 2.0 whatever version the XML was written in
+    schemaVersion: (root.namespaceURI === EPCIS_2_NAMESPACE && root.getAttribute('schemaVersion')) || '2.0',
+    creationDate: root.getAttribute('creationDate') || new Date().toISOString(),
+    ...(epcisHeader ? { epcisHeader } : {}),
+    // Always create an epcisBody with eventList to match the expected OpenEPCIS structure
+    epcisBody: { eventList }
+  };
+}
+
+/**
+ * State of reading one document: the namespaces of the extension prefixes used, which go into
+ * the @context, and where elements the model has no place for are reported
+ */
+interface ReadContext {
+  namespaces: Map<string, string>;
+  onWarning?: (warning: ConversionWarning) => void;
+}
+
+/**
+ * Reports an element the model has no place for
+ */
+function leaveOut(element: XmlDomElement, message: string, context: ReadContext): void {
+  context.onWarning?.({ path: getXPath(element), message: `${message}, it was left out` });
+}
+
+/**
+ * Reports an attribute the model has no place for
+ */
+function leaveOutAttribute(element: XmlDomElement, name: string, context: ReadContext): void {
+  context.onWarning?.({
+    path: `${getXPath(element)}/@${name}`,
+    message: `${name} is not a ${element.localName} attribute, it was left out`
+  });
+}
+
+/**
+ * Get the events of every EventList in document order, including 1.2 events inside extensions
+ */
+function getEvents(root: XmlDomElement): XmlDomElement[] {
+  const epcisBody = childElements(root).find(child => isEpcisElement(child, 'EPCISBody'));
+  if (!epcisBody) {
+    return [];
   }
+  return fieldElements(epcisBody)
+    .filter(child => isEpcisElement(child, 'EventList'))
+    .flatMap(eventList => fieldElements(eventList))
+    .filter(child => EVENT_TYPES.some(eventType => isEpcisElement(child, eventType)));
 }
 
 /**
- * Process common EPCIS event fields
+ * Process the EPCISHeader into the JSON-LD epcisHeader object.
+ * Master data is read from epcisMasterData or, for 1.2 layouts, extension/EPCISMasterData.
  */
-function processEventFields(event: XmlDomElement, eventObj: any): void {
-  // Process eventTime
-  const eventTime = getElementTextContent(event, 'eventTime');
-  if (eventTime) eventObj.eventTime = eventTime;
-  
-  // Process eventTimeZoneOffset
-  const timeZoneOffset = getElementTextContent(event, 'eventTimeZoneOffset');
-  if (timeZoneOffset) eventObj.eventTimeZoneOffset = timeZoneOffset;
-  
-  // Process epcList if available
-  const epcList = event.getElementsByTagName('epcList')[0] as XmlDomElement;
-  if (epcList) {
-    eventObj.epcList = [];
-    const epcs = epcList.getElementsByTagName('epc');
-    for (let j = 0; j < epcs.length; j++) {
-      const epc = epcs[j].textContent;
-      if (epc) eventObj.epcList.push(epc);
+function processHeader(header: XmlDomElement, context: ReadContext): EpcisHeader {
+  const headerFields: FieldsOf<EpcisHeader> = {};
+
+  for (const field of fieldElements(header)) {
+    if (isEpcisElement(field, 'epcisMasterData') || isEpcisElement(field, 'EPCISMasterData')) {
+      headerFields.epcisMasterData = processMasterData(field, context);
+    } else if (isExtensionElement(field)) {
+      appendValue(headerFields, getQualifiedKey(field, context), convertExtensionElement(field, context));
+    } else {
+      leaveOut(field, `${field.localName} is not an EPCISHeader field`, context);
     }
   }
-  
-  // Process action
-  const action = getElementTextContent(event, 'action');
-  if (action) eventObj.action = action;
-  
-  // Process bizStep
-  const bizStep = getElementTextContent(event, 'bizStep');
-  if (bizStep) eventObj.bizStep = bizStep;
-  
-  // Process disposition
-  const disposition = getElementTextContent(event, 'disposition');
-  if (disposition) eventObj.disposition = disposition;
-  
-  // Process readPoint
-  const readPoint = event.getElementsByTagName('readPoint')[0] as XmlDomElement;
-  if (readPoint) {
-    const id = getElementTextContent(readPoint, 'id');
-    if (id) eventObj.readPoint = { id };
+
+  return headerFields;
+}
+
+/**
+ * Process master data into the JSON-LD vocabularyList structure
+ */
+function processMasterData(masterData: XmlDomElement, context: ReadContext): EpcisMasterData {
+  const vocabularies = fieldElements(masterData)
+    .filter(field => isEpcisElement(field, 'VocabularyList'))
+    .flatMap(list => fieldElements(list).filter(field => isEpcisElement(field, 'Vocabulary')));
+
+  const vocabularyList = vocabularies.map(vocabulary => ({
+    type: vocabulary.getAttribute('type') || '',
+    vocabularyElementList: fieldElements(vocabulary)
+      .filter(field => isEpcisElement(field, 'VocabularyElementList'))
+      .flatMap(list => fieldElements(list).filter(field => isEpcisElement(field, 'VocabularyElement')))
+      .map(element => processVocabularyElement(element, context))
+  }));
+
+  return { vocabularyList };
+}
+
+/**
+ * Process a single VocabularyElement with its attributes and children
+ */
+function processVocabularyElement(element: XmlDomElement, context: ReadContext): VocabularyElement {
+  const elementFields: FieldsOf<VocabularyElement> = {};
+
+  for (const field of fieldElements(element)) {
+    if (isEpcisElement(field, 'attribute')) {
+      const value = childElements(field).length > 0
+        ? convertExtensionElement(field, context)
+        : getText(field);
+      elementFields.attributes = [...(elementFields.attributes || []), { id: field.getAttribute('id') || '', attribute: value }];
+    } else if (isEpcisElement(field, 'children')) {
+      elementFields.children = childElements(field).map(getText);
+    } else if (isExtensionElement(field)) {
+      appendValue(elementFields, getQualifiedKey(field, context), convertExtensionElement(field, context));
+    } else {
+      leaveOut(field, `${field.localName} is not a VocabularyElement field`, context);
+    }
+  }
+
+  return { id: requireField(element.getAttribute('id') || undefined, 'id', getXPath(element)), ...elementFields };
+}
+
+/**
+ * Convert a user extension element to its JSON-LD value.
+ * Elements holding only text become strings. Otherwise the element becomes an object keyed by
+ * child name, with XML attributes as plain keys and element text under "#text".
+ * Repeated children are collected into arrays.
+ */
+function convertExtensionElement(element: XmlDomElement, context: ReadContext): ExtensionValue {
+  const children = childElements(element);
+  const attributes = getAttributes(element);
+  const text = getText(element);
+
+  if (children.length === 0 && attributes.length === 0) {
+    return text;
   }
-  
-  // Process bizLocation
-  const bizLocation = event.getElementsByTagName('bizLocation')[0] as XmlDomElement;
-  if (bizLocation) {
-    const id = getElementTextContent(bizLocation, 'id');
-    if (id) eventObj.bizLocation = { id };
+
+  const obj: ExtensionObject = {};
+  attributes.forEach(attr => {
+    const key = attr.prefix && attr.namespaceURI
+      ? qualifyName(attr.namespaceURI, attr.prefix, attr.localName || attr.name, context)
+      : attr.name;
+    obj[key] = attr.value;
+  });
+  if (children.length === 0) {
+    obj['#text'] = text;
+  }
+
+  for (const child of children) {
+    const key = isExtensionElement(child) ? getQualifiedKey(child, context) : child.localName || child.nodeName;
+    appendValue(obj, key, convertExtensionElement(child, context));
   }
-  
-  // Additional fields would be added here for a complete implementation
+
+  return obj;
 }
 
 /**
- * Helper function to get text content of a child element
+ * Set a key on a JSON-LD object, collecting repeated keys into an array
  */
-function getElementTextContent(parent: XmlDomElement, tagName: string): string | null {
-  const elements = parent.getElementsByTagName(tagName);
-  if (elements.length > 0 && elements[0].textContent) {
-    return elements[0].textContent;
+function appendValue<K extends string>(obj: { [key in K]?: ExtensionValue }, key: K, value: ExtensionValue): void {
+  const existing = obj[key];
+  if (existing === undefined) {
+    obj[key] = value;
+  } else {
+    obj[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
   }
-  return null;
 }
 
 /**
- * Synchronous version of the converter (for API compatibility)
+ * Get the JSON-LD key for an extension element (prefix:localName) and record its namespace for the @context
  */
-export function convertToJsonLdSync(
-  xml: string,
-  options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true }
-): string {
-  // This is a simplified synchronous implementation
-  // In a real-world scenario, we would handle this differently
-  throw new Error('Synchronous conversion is not implemented in this version');
-}
\ No newline at end of file
+function getQualifiedKey(element: XmlDomElement, context: ReadContext): ExtensionKey {
+  return qualifyName(element.namespaceURI!, element.prefix, element.localName || element.nodeName, context);
+}
+
+/**
+ * Build a prefix:localName key, preferring the conventional prefix of well-known namespaces
+ * over generated ones such as ns2, and record the prefix for the @context. Namespaces declared
+ * as the default namespace get a prefix of their own, ns1, ns2 and so on.
+ */
+function qualifyName(
+  namespaceURI: string,
+  declaredPrefix: string | null,
+  localName: string,
+  context: ReadContext
+): ExtensionKey {
+  const prefix = getPreferredPrefix(namespaceURI, declaredPrefix) || generatePrefix(namespaceURI, context.namespaces);
+  context.namespaces.set(prefix, namespaceURI);
+  return `${prefix}:${localName}`;
+}
+
+/**
+ * Give a namespace without a prefix the prefix it already got, or the first free one of ns1, ns2...
+ */
+function generatePrefix(namespaceURI: string, namespaces: Map<string, string>): string {
+  const existing = Array.from(namespaces).find(([, uri]) => uri === namespaceURI);
+  if (existing) {
+    return existing[0];
+  }
+  let index = 1;
+  while (namespaces.has(`ns${index}`)) {
+    index++;
+  }
+  return `ns${index}`;
+}
+
+/**
+ * Process a single EPCIS event into its JSON-LD object.
+ * Standard fields get their JSON-LD shape in document order, anything in another namespace is an extension.
+ */
+function processEvent(event: XmlDomElement, context: ReadContext): EpcisEvent {
+  // The type is the local name, whatever prefix or default namespace the document uses
+  const type = event.localName || '';
+  if (!isOneOf(type, EVENT_TYPES)) {
+    throw new ValidationError(`${getXPath(event)} is not an EPCIS event`);
+  }
+
+  const fields: EventFields = {};
+  for (const field of fieldElements(event)) {
+    const name = field.localName || field.nodeName;
+
+    if (isExtensionElement(field)) {
+      appendValue(fields, getQualifiedKey(field, context), convertExtensionElement(field, context));
+    } else if (!EVENT_FIELDS[type].includes(name)) {
+      leaveOut(field, `${name} is not a field of ${type}`, context);
+    } else if (isOneOf(name, EPC_LIST_FIELDS)) {
+      fields[name] = getChildTexts(field, 'epc');
+    } else if (isOneOf(name, QUANTITY_LIST_FIELDS)) {
+      fields[name] = fieldElements(field)
+        .filter(element => isEpcisElement(element, 'quantityElement'))
+        .map(element => processQuantityElement(element, context));
+    } else if (name === 'certificationInfo' && fields.certificationInfo !== undefined) {
+      fields.certificationInfo = [fields.certificationInfo, getText(field)].flat();
+    } else if (isOneOf(name, TEXT_FIELDS)) {
+      fields[name] = getText(field);
+    } else if (name === 'action') {
+      fields.action = readAction(getText(field), getXPath(field));
+    } else if (name === 'persistentDisposition') {
+      fields.persistentDisposition = processPersistentDisposition(field, context);
+    } else if (name === 'readPoint' || name === 'bizLocation') {
+      fields[name] = processLocation(field, context);
+    } else if (name === 'bizTransactionList') {
+      fields.bizTransactionList = processTypedList(field, 'bizTransaction')
+        .map(({ type, value }) => ({ ...(type ? { type } : {}), bizTransaction: value }));
+    } else if (name === 'sourceList') {
+      fields.sourceList = processTypedList(field, 'source')
+        .map(({ type, value, path }) => ({ type: requireField(type, 'type', path), source: value }));
+    } else if (name === 'destinationList') {
+      fields.destinationList = processTypedList(field, 'destination')
+        .map(({ type, value, path }) => ({ type: requireField(type, 'type', path), destination: value }));
+    } else if (name === 'ilmd') {
+      fields.ilmd = processExtensionFields(field, context);
+    } else if (name === 'errorDeclaration') {
+      fields.errorDeclaration = processErrorDeclaration(field, context);
+    } else if (name === 'sensorElementList') {
+      fields.sensorElementList = fieldElements(field)
+        .filter(element => isEpcisElement(element, 'sensorElement'))
+        .map(element => processSensorElement(element, context));
+    }
+  }
+
+  return createEvent(type, fields, getXPath(event));
+}
+
+/**
+ * Process a quantityElement into { epcClass, quantity, uom }
+ */
+function processQuantityElement(element: XmlDomElement, context: ReadContext): QuantityElement {
+  const quantityFields: Partial<QuantityElement> = {};
+  for (const field of childElements(element)) {
+    if (isEpcisElement(field, 'epcClass')) {
+      quantityFields.epcClass = getText(field);
+    } else if (isEpcisElement(field, 'quantity')) {
+      quantityFields.quantity = Number(getText(field));
+    } else if (isEpcisElement(field, 'uom')) {
+      quantityFields.uom = getText(field);
+    } else {
+      leaveOut(field, `${field.localName} is not a quantityElement field`, context);
+    }
+  }
+  return { ...quantityFields, epcClass: requireField(quantityFields.epcClass, 'epcClass', getXPath(element)) };
+}
+
+/**
+ * Process persistentDisposition into { set: [...], unset: [...] }
+ */
+function processPersistentDisposition(element: XmlDomElement, context: ReadContext): PersistentDisposition {
+  const disposition: PersistentDisposition = {};
+  for (const field of childElements(element)) {
+    const key = field.localName || field.nodeName;
+    if (key === 'set' || key === 'unset') {
+      disposition[key] = [...(disposition[key] || []), getText(field)];
+    } else {
+      leaveOut(field, `${key} is not a persistentDisposition field`, context);
+    }
+  }
+  return disposition;
+}
+
+/**
+ * Process readPoint or bizLocation into { id, ...extensions }
+ */
+function processLocation(element: XmlDomElement, context: ReadContext): EpcisLocation {
+  const locationFields: FieldsOf<EpcisLocation> = {};
+  for (const field of fieldElements(element)) {
+    if (isEpcisElement(field, 'id')) {
+      locationFields.id = getText(field);
+    } else if (isExtensionElement(field)) {
+      appendValue(locationFields, getQualifiedKey(field, context), convertExtensionElement(field, context));
+    } else {
+      leaveOut(field, `${field.localName} is not a field of ${element.localName}`, context);
+    }
+  }
+  return { ...locationFields, id: requireField(locationFields.id, 'id', getXPath(element)) };
+}
+
+/**
+ * Read the items of bizTransactionList, sourceList or destinationList with their type attribute
+ */
+function processTypedList(list: XmlDomElement, itemName: string): Array<{ type?: string; value: string; path: string }> {
+  return childElements(list)
+    .filter(item => isEpcisElement(item, itemName))
+    .map(item => ({ type: item.getAttribute('type') || undefined, value: getText(item), path: getXPath(item) }));
+}
+
+/**
+ * Process errorDeclaration into { declarationTime, reason, correctiveEventIDs, ...extensions }
+ */
+function processErrorDeclaration(element: XmlDomElement, context: ReadContext): ErrorDeclaration {
+  const declarationFields: FieldsOf<ErrorDeclaration> = {};
+  for (const field of fieldElements(element)) {
+    if (isEpcisElement(field, 'declarationTime')) {
+      declarationFields.declarationTime = getText(field);
+    } else if (isEpcisElement(field, 'reason')) {
+      declarationFields.reason = getText(field);
+    } else if (isEpcisElement(field, 'correctiveEventIDs')) {
+      declarationFields.correctiveEventIDs = getChildTexts(field, 'correctiveEventID');
+    } else if (isExtensionElement(field)) {
+      appendValue(declarationFields, getQualifiedKey(field, context), convertExtensionElement(field, context));
+    } else {
+      leaveOut(field, `${field.localName} is not an errorDeclaration field`, context);
+    }
+  }
+  return {
+    ...declarationFields,
+    declarationTime: requireField(declarationFields.declarationTime, 'declarationTime', getXPath(element))
+  };
+}
+
+/**
+ * Process a sensorElement into { sensorMetadata, sensorReport: [...], ...extensions }
+ */
+function processSensorElement(element: XmlDomElement, context: ReadContext): SensorElement {
+  const sensorFields: FieldsOf<SensorElement> = {};
+  for (const field of fieldElements(element)) {
+    if (isEpcisElement(field, 'sensorMetadata')) {
+      sensorFields.sensorMetadata = processSensorMetadata(field, context);
+    } else if (isEpcisElement(field, 'sensorReport')) {
+      sensorFields.sensorReport = [...(sensorFields.sensorReport || []), processSensorReport(field, context)];
+    } else if (isExtensionElement(field)) {
+      appendValue(sensorFields, getQualifiedKey(field, context), convertExtensionElement(field, context));
+    } else {
+      leaveOut(field, `${field.localName} is not a sensorElement field`, context);
+    }
+  }
+  return { ...sensorFields, sensorReport: requireField(sensorFields.sensorReport, 'sensorReport', getXPath(element)) };
+}
+
+/**
+ * Convert the XML attributes of sensorMetadata into JSON-LD keys, followed by its extension elements
+ */
+function processSensorMetadata(element: XmlDomElement, context: ReadContext): SensorMetadata {
+  const metadataFields: FieldsOf<SensorMetadata> = {};
+  for (const attr of getAttributes(element)) {
+    if (attr.prefix && attr.namespaceURI) {
+      metadataFields[qualifyName(attr.namespaceURI, attr.prefix, attr.localName || attr.name, context)] = attr.value;
+    } else if (isOneOf(attr.name, SENSOR_METADATA_FIELDS)) {
+      metadataFields[attr.name] = attr.value;
+    } else {
+      leaveOutAttribute(element, attr.name, context);
+    }
+  }
+  return { ...metadataFields, ...processExtensionFields(element, context) };
+}
+
+/**
+ * Convert the XML attributes of a sensorReport into JSON-LD keys, with numeric and boolean
+ * values typed accordingly, followed by its extension elements
+ */
+function processSensorReport(element: XmlDomElement, context: ReadContext): SensorReport {
+  const reportFields: FieldsOf<SensorReport> = {};
+  for (const attr of getAttributes(element)) {
+    if (attr.prefix && attr.namespaceURI) {
+      reportFields[qualifyName(attr.namespaceURI, attr.prefix, attr.localName || attr.name, context)] = attr.value;
+    } else if (isOneOf(attr.name, SENSOR_NUMERIC_FIELDS)) {
+      reportFields[attr.name] = Number(attr.value);
+    } else if (attr.name === 'booleanValue') {
+      reportFields.booleanValue = attr.value === 'true';
+    } else if (isOneOf(attr.name, SENSOR_REPORT_TEXT_FIELDS)) {
+      reportFields[attr.name] = attr.value;
+    } else {
+      leaveOutAttribute(element, attr.name, context);
+    }
+  }
+  return { ...reportFields, ...processExtensionFields(element, context) };
+}
+
+/**
+ * Get the attributes of an element without its namespace declarations
+ */
+function getAttributes(element: XmlDomElement): XmlDomAttr[] {
+  return Array.from(element.attributes).filter(attr => attr.name !== 'xmlns' && attr.prefix !== 'xmlns');
+}
+
+/**
+ * Convert the extension elements of a container (ilmd, sensor data) into a keyed object
+ */
+function processExtensionFields(element: XmlDomElement, context: ReadContext): ExtensionFields {
+  const fields: ExtensionFields = {};
+  for (const field of fieldElements(element)) {
+    if (isExtensionElement(field)) {
+      appendValue(fields, getQualifiedKey(field, context), convertExtensionElement(field, context));
+    } else {
+      leaveOut(field, `${field.localName} has no namespace, only extension elements go in ${element.localName}`, context);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Get the trimmed text content of an element
+ */
+function getText(element: XmlDomElement): string {
+  return (element.textContent || '').trim();
+}
+
+/**
+ * Get the text of every direct child with the given local name
+ */
+function getChildTexts(parent: XmlDomElement, localName: string): string[] {
+  return childElements(parent)
+    .filter(child => isEpcisElement(child, localName))
+    .map(getText);
+}
@@ -0,0 +1,49 @@
+import { ValidationError, TransformationError } from './utils';
+import { convertToEpcis12Xml } from './xml-converter';
+import { parseJsonLd, readJsonLdDocument } from './jsonld-parser';
+import { buildEpcisXml } from './xml-writer';
+import { assertValidEpcisXml } from './schema-validator';
+import { assertValidJsonLd } from './jsonld-validator';
+import type { JsonLdToXmlOptions, ConversionWarning, XmlConversionResult } from '@shared/schema';
+
+/**
+ * Converts EPCIS 2.0 JSON-LD to EPCIS 2.0 XML, or to EPCIS 1.2 XML with `epcisVersion: '1.2'`
+ *
+ * Extension fields are written in the namespace their prefix has in the document's @context.
+ * Fields that cannot be written as XML, such as keys with an undefined prefix, are listed in the warnings.
+ * With `validate`, the input is checked against the EPCIS JSON Schema and the result against the EPCIS XSD.
+ */
+export async function convertJsonLdToXml(
+  jsonLd: string,
+  options: JsonLdToXmlOptions = { epcisVersion: '2.0' }
+): Promise<XmlConversionResult> {
+  console.log('Starting JSON-LD to XML conversion');
+  try {
+    const json = parseJsonLd(jsonLd);
+    if (options.validate) {
+      assertValidJsonLd(json, 'Input document');
+    }
+
+    const readWarnings: ConversionWarning[] = [];
+    const document = readJsonLdDocument(json, warning => readWarnings.push(warning));
+    const built = buildEpcisXml(document);
+    let result = { xml: built.xml, warnings: [...readWarnings, ...built.warnings] };
+    if (options.epcisVersion === '1.2') {
+      const downgraded = await convertToEpcis12Xml(result.xml);
+      result = { xml: downgraded.xml, warnings: [...result.warnings, ...downgraded.warnings] };
+    }
+
+    if (options.validate) {
+      await assertValidEpcisXml(result.xml, 'Converted document');
+    }
+    return result;
+  } catch (error) {
+    // Re-throw validation and transformation errors as they are already handled
+    if (error instanceof ValidationError || error instanceof TransformationError) {
+      throw error;
+    }
+
+    // Wrap other errors in a transformation error
+    throw new TransformationError(`Failed to convert JSON-LD to XML: ${(error as Error).message}`);
+  }
+}
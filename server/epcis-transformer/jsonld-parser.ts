@@ -0,0 +1,431 @@
+/**
+ * Reading EPCIS 2.0 JSON-LD into the EPCIS object model.
+ *
+ * Every field is checked to have the type the model gives it, and objects missing a required
+ * field are rejected with a ValidationError naming the path of the object, e.g.
+ * epcisBody.eventList[2].readPoint. Keys that are neither EPCIS fields nor prefixed extension
+ * fields are reported through onWarning and left out.
+ */
+
+import { ValidationError } from './utils';
+import {
+  EVENT_TYPES, EVENT_FIELDS, EPC_LIST_FIELDS, QUANTITY_LIST_FIELDS, TEXT_FIELDS, SENSOR_NUMERIC_FIELDS,
+  SENSOR_REPORT_TEXT_FIELDS, SENSOR_METADATA_FIELDS, isOneOf, isExtensionKey, readAction, requireField, createEvent
+} from './epcis-fields';
+import type { EventFields, FieldsOf } from './epcis-fields';
+import type { ConversionWarning } from '@shared/schema';
+import type {
+  EpcisDocument, EpcisEvent, EpcisHeader, EpcisMasterData, EpcisVocabulary, VocabularyElement, VocabularyAttribute,
+  ExtensionValue, ExtensionObject, ExtensionFields, JsonLdContext, QuantityElement, PersistentDisposition,
+  EpcisLocation, BizTransaction, SourceElement, DestinationElement, ErrorDeclaration, SensorElement, SensorMetadata,
+  SensorReport
+} from '@shared/epcis-model';
+
+type JsonObject = { [key: string]: unknown };
+
+/**
+ * State of reading one document: where keys the model has no place for are reported
+ */
+interface ReadContext {
+  onWarning?: (warning: ConversionWarning) => void;
+}
+
+/**
+ * Parses a JSON-LD document into the EPCIS object model, rejecting JSON that is not an EPCISDocument
+ */
+export function parseJsonLdDocument(jsonLd: string, onWarning?: (warning: ConversionWarning) => void): EpcisDocument {
+  return readJsonLdDocument(parseJsonLd(jsonLd), onWarning);
+}
+
+/**
+ * Parses JSON text, checking only that it is an EPCISDocument, for callers that look at the JSON
+ * itself before reading it into the model, such as the JSON Schema validation
+ */
+export function parseJsonLd(jsonLd: string): JsonObject {
+  let document: unknown;
+  try {
+    document = JSON.parse(jsonLd.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new ValidationError(`Invalid JSON-LD document: ${(error as Error).message}`);
+  }
+
+  if (!isObject(document) || document.type !== 'EPCISDocument') {
+    throw new ValidationError('Not an EPCIS JSON-LD document');
+  }
+  return document;
+}
+
+/**
+ * Reads parsed JSON into the EPCIS object model, field by field
+ */
+export function readJsonLdDocument(document: unknown, onWarning?: (warning: ConversionWarning) => void): EpcisDocument {
+  if (!isObject(document) || document.type !== 'EPCISDocument') {
+    throw new ValidationError('Not an EPCIS JSON-LD document');
+  }
+  const context: ReadContext = { onWarning };
+
+  const body = readObject(requireField(document.epcisBody, 'epcisBody', 'EPCISDocument'), 'epcisBody');
+  const eventList = readList(
+    requireField(body.eventList, 'eventList', 'epcisBody'),
+    'epcisBody.eventList',
+    (event, eventPath) => readEvent(event, eventPath, context)
+  ).flatMap(event => event ? [event] : []);
+
+  return {
+    ...(document['@context'] !== undefined ? { '@context': readContext(document['@context'], '@context') } : {}),
+    type: 'EPCISDocument',
+    schemaVersion: readText(requireField(document.schemaVersion, 'schemaVersion', 'EPCISDocument'), 'schemaVersion'),
+    creationDate: readText(requireField(document.creationDate, 'creationDate', 'EPCISDocument'), 'creationDate'),
+    ...(document.epcisHeader !== undefined ? { epcisHeader: readHeader(document.epcisHeader, 'epcisHeader', context) } : {}),
+    epcisBody: { eventList }
+  };
+}
+
+/**
+ * Reads the epcisHeader: its master data and extension fields such as the SBDH
+ */
+function readHeader(value: unknown, path: string, context: ReadContext): EpcisHeader {
+  const headerFields: FieldsOf<EpcisHeader> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    if (key === 'epcisMasterData') {
+      headerFields.epcisMasterData = readMasterData(fieldValue, `${path}.${key}`, context);
+    } else {
+      readExtensionField(headerFields, key, fieldValue, `${path}.${key}`, context);
+    }
+  }
+  return headerFields;
+}
+
+/**
+ * Reads epcisMasterData with its vocabularyList
+ */
+function readMasterData(value: unknown, path: string, context: ReadContext): EpcisMasterData {
+  const masterData = readObject(value, path);
+  const vocabularyList = readList(
+    requireField(masterData.vocabularyList, 'vocabularyList', path),
+    `${path}.vocabularyList`,
+    (item, itemPath): EpcisVocabulary => {
+      const vocabulary = readObject(item, itemPath);
+      return {
+        type: readText(requireField(vocabulary.type, 'type', itemPath), `${itemPath}.type`),
+        vocabularyElementList: readList(
+          requireField(vocabulary.vocabularyElementList, 'vocabularyElementList', itemPath),
+          `${itemPath}.vocabularyElementList`,
+          (element, elementPath) => readVocabularyElement(element, elementPath, context)
+        )
+      };
+    }
+  );
+  return { vocabularyList };
+}
+
+/**
+ * Reads a vocabulary element with its attributes, children and extension fields
+ */
+function readVocabularyElement(value: unknown, path: string, context: ReadContext): VocabularyElement {
+  const elementFields: FieldsOf<VocabularyElement> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    const fieldPath = `${path}.${key}`;
+    if (key === 'id') {
+      elementFields.id = readText(fieldValue, fieldPath);
+    } else if (key === 'attributes') {
+      elementFields.attributes = readList(fieldValue, fieldPath, (item, itemPath): VocabularyAttribute => {
+        const attribute = readObject(item, itemPath);
+        return {
+          id: readText(requireField(attribute.id, 'id', itemPath), `${itemPath}.id`),
+          attribute: readExtensionValue(requireField(attribute.attribute, 'attribute', itemPath), `${itemPath}.attribute`)
+        };
+      });
+    } else if (key === 'children') {
+      elementFields.children = readList(fieldValue, fieldPath, readText);
+    } else {
+      readExtensionField(elementFields, key, fieldValue, fieldPath, context);
+    }
+  }
+  return { ...elementFields, id: requireField(elementFields.id, 'id', path) };
+}
+
+/**
+ * Reads an event in the order of its keys. Events of an unknown type are reported and left out.
+ */
+function readEvent(value: unknown, path: string, context: ReadContext): EpcisEvent | null {
+  const event = readObject(value, path);
+  const type = event.type;
+  if (typeof type !== 'string' || !isOneOf(type, EVENT_TYPES)) {
+    context.onWarning?.({ path, message: `Unknown event type "${type}" was left out` });
+    return null;
+  }
+
+  const fields: EventFields = {};
+  for (const [key, fieldValue] of Object.entries(event)) {
+    const fieldPath = `${path}.${key}`;
+
+    if (key === 'type') {
+      continue;
+    } else if (key === '@context') {
+      fields['@context'] = readContext(fieldValue, fieldPath);
+    } else if (isExtensionKey(key) || !EVENT_FIELDS[type].includes(key)) {
+      readExtensionField(fields, key, fieldValue, fieldPath, context, type);
+    } else if (isOneOf(key, EPC_LIST_FIELDS)) {
+      fields[key] = readList(fieldValue, fieldPath, readText);
+    } else if (isOneOf(key, QUANTITY_LIST_FIELDS)) {
+      fields[key] = readList(fieldValue, fieldPath, (item, itemPath) => readQuantityElement(item, itemPath, context));
+    } else if (key === 'certificationInfo') {
+      fields.certificationInfo = Array.isArray(fieldValue) ? readList(fieldValue, fieldPath, readText) : readText(fieldValue, fieldPath);
+    } else if (isOneOf(key, TEXT_FIELDS)) {
+      fields[key] = readText(fieldValue, fieldPath);
+    } else if (key === 'action') {
+      fields.action = readAction(readText(fieldValue, fieldPath), path);
+    } else if (key === 'persistentDisposition') {
+      fields.persistentDisposition = readPersistentDisposition(fieldValue, fieldPath, context);
+    } else if (key === 'readPoint' || key === 'bizLocation') {
+      fields[key] = readLocation(fieldValue, fieldPath, context);
+    } else if (key === 'bizTransactionList') {
+      fields.bizTransactionList = readList(fieldValue, fieldPath, readBizTransaction);
+    } else if (key === 'sourceList') {
+      fields.sourceList = readList(fieldValue, fieldPath, (item, itemPath): SourceElement => {
+        const { type, value } = readTypedItem(item, itemPath, 'source');
+        return { type: requireField(type, 'type', itemPath), source: value };
+      });
+    } else if (key === 'destinationList') {
+      fields.destinationList = readList(fieldValue, fieldPath, (item, itemPath): DestinationElement => {
+        const { type, value } = readTypedItem(item, itemPath, 'destination');
+        return { type: requireField(type, 'type', itemPath), destination: value };
+      });
+    } else if (key === 'ilmd') {
+      fields.ilmd = readExtensionFields(fieldValue, fieldPath, context);
+    } else if (key === 'errorDeclaration') {
+      fields.errorDeclaration = readErrorDeclaration(fieldValue, fieldPath, context);
+    } else if (key === 'sensorElementList') {
+      fields.sensorElementList = readList(fieldValue, fieldPath, (item, itemPath) => readSensorElement(item, itemPath, context));
+    }
+  }
+
+  return createEvent(type, fields, path);
+}
+
+/**
+ * Reads a quantity element, { epcClass, quantity, uom }
+ */
+function readQuantityElement(value: unknown, path: string, context: ReadContext): QuantityElement {
+  const quantityFields: Partial<QuantityElement> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    if (key === 'epcClass' || key === 'uom') {
+      quantityFields[key] = readText(fieldValue, `${path}.${key}`);
+    } else if (key === 'quantity') {
+      quantityFields.quantity = readNumber(fieldValue, `${path}.${key}`);
+    } else {
+      leaveOut(`${path}.${key}`, `${key} is not a quantity element field`, context);
+    }
+  }
+  return { ...quantityFields, epcClass: requireField(quantityFields.epcClass, 'epcClass', path) };
+}
+
+/**
+ * Reads a persistentDisposition, { set: [...], unset: [...] }
+ */
+function readPersistentDisposition(value: unknown, path: string, context: ReadContext): PersistentDisposition {
+  const disposition: PersistentDisposition = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    if (key === 'set' || key === 'unset') {
+      disposition[key] = readList(fieldValue, `${path}.${key}`, readText);
+    } else {
+      leaveOut(`${path}.${key}`, `${key} is not a persistentDisposition field`, context);
+    }
+  }
+  return disposition;
+}
+
+/**
+ * Reads a readPoint or bizLocation, { id, ...extensions }
+ */
+function readLocation(value: unknown, path: string, context: ReadContext): EpcisLocation {
+  const locationFields: FieldsOf<EpcisLocation> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    if (key === 'id') {
+      locationFields.id = readText(fieldValue, `${path}.${key}`);
+    } else {
+      readExtensionField(locationFields, key, fieldValue, `${path}.${key}`, context);
+    }
+  }
+  return { ...locationFields, id: requireField(locationFields.id, 'id', path) };
+}
+
+function readBizTransaction(value: unknown, path: string): BizTransaction {
+  const { type, value: bizTransaction } = readTypedItem(value, path, 'bizTransaction');
+  return { ...(type !== undefined ? { type } : {}), bizTransaction };
+}
+
+/**
+ * Reads an item of bizTransactionList, sourceList or destinationList: its type and its value under itemName
+ */
+function readTypedItem(value: unknown, path: string, itemName: string): { type?: string; value: string } {
+  const item = readObject(value, path);
+  return {
+    type: item.type !== undefined ? readText(item.type, `${path}.type`) : undefined,
+    value: readText(requireField(item[itemName], itemName, path), `${path}.${itemName}`)
+  };
+}
+
+/**
+ * Reads an errorDeclaration, { declarationTime, reason, correctiveEventIDs, ...extensions }
+ */
+function readErrorDeclaration(value: unknown, path: string, context: ReadContext): ErrorDeclaration {
+  const declarationFields: FieldsOf<ErrorDeclaration> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    const fieldPath = `${path}.${key}`;
+    if (key === 'declarationTime' || key === 'reason') {
+      declarationFields[key] = readText(fieldValue, fieldPath);
+    } else if (key === 'correctiveEventIDs') {
+      declarationFields.correctiveEventIDs = readList(fieldValue, fieldPath, readText);
+    } else {
+      readExtensionField(declarationFields, key, fieldValue, fieldPath, context);
+    }
+  }
+  return { ...declarationFields, declarationTime: requireField(declarationFields.declarationTime, 'declarationTime', path) };
+}
+
+/**
+ * Reads a sensorElement, { sensorMetadata, sensorReport: [...], ...extensions }
+ */
+function readSensorElement(value: unknown, path: string, context: ReadContext): SensorElement {
+  const sensorFields: FieldsOf<SensorElement> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    const fieldPath = `${path}.${key}`;
+    if (key === 'sensorMetadata') {
+      sensorFields.sensorMetadata = readSensorMetadata(fieldValue, fieldPath, context);
+    } else if (key === 'sensorReport') {
+      sensorFields.sensorReport = readList(fieldValue, fieldPath, (item, itemPath) => readSensorReport(item, itemPath, context));
+    } else {
+      readExtensionField(sensorFields, key, fieldValue, fieldPath, context);
+    }
+  }
+  return { ...sensorFields, sensorReport: requireField(sensorFields.sensorReport, 'sensorReport', path) };
+}
+
+function readSensorMetadata(value: unknown, path: string, context: ReadContext): SensorMetadata {
+  const metadataFields: FieldsOf<SensorMetadata> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    if (isOneOf(key, SENSOR_METADATA_FIELDS)) {
+      metadataFields[key] = readText(fieldValue, `${path}.${key}`);
+    } else {
+      readExtensionField(metadataFields, key, fieldValue, `${path}.${key}`, context);
+    }
+  }
+  return metadataFields;
+}
+
+function readSensorReport(value: unknown, path: string, context: ReadContext): SensorReport {
+  const reportFields: FieldsOf<SensorReport> = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    const fieldPath = `${path}.${key}`;
+    if (isOneOf(key, SENSOR_NUMERIC_FIELDS)) {
+      reportFields[key] = readNumber(fieldValue, fieldPath);
+    } else if (key === 'booleanValue') {
+      reportFields.booleanValue = readBoolean(fieldValue, fieldPath);
+    } else if (isOneOf(key, SENSOR_REPORT_TEXT_FIELDS)) {
+      reportFields[key] = readText(fieldValue, fieldPath);
+    } else {
+      readExtensionField(reportFields, key, fieldValue, fieldPath, context);
+    }
+  }
+  return reportFields;
+}
+
+/**
+ * Reads an object holding only extension fields, such as ilmd
+ */
+function readExtensionFields(value: unknown, path: string, context: ReadContext): ExtensionFields {
+  const fields: ExtensionFields = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    readExtensionField(fields, key, fieldValue, `${path}.${key}`, context);
+  }
+  return fields;
+}
+
+/**
+ * Sets an extension field on the object being read, or reports a key that is not one.
+ * JSON-LD keywords such as @id have no place in the model and are left out quietly.
+ */
+function readExtensionField(
+  fields: ExtensionFields,
+  key: string,
+  value: unknown,
+  path: string,
+  context: ReadContext,
+  eventType?: string
+): void {
+  if (isExtensionKey(key)) {
+    fields[key] = readExtensionValue(value, path);
+  } else if (!key.startsWith('@')) {
+    leaveOut(path, eventType ? `${key} is not a field of ${eventType}` : `${key} is not an EPCIS field and has no namespace prefix`, context);
+  }
+}
+
+/**
+ * Reads the value of an extension field: text, a number, a boolean, a list or an object of them
+ */
+function readExtensionValue(value: unknown, path: string): ExtensionValue {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => readExtensionValue(item, `${path}[${index}]`));
+  }
+  const object: ExtensionObject = {};
+  for (const [key, fieldValue] of Object.entries(readObject(value, path))) {
+    object[key] = readExtensionValue(fieldValue, `${path}.${key}`);
+  }
+  return object;
+}
+
+/**
+ * Reads a JSON-LD @context: a context URL, an object of term definitions or a list of both
+ */
+function readContext(value: unknown, path: string): JsonLdContext {
+  const readEntry = (entry: unknown, entryPath: string) => typeof entry === 'string' ? entry : readObject(entry, entryPath);
+  return Array.isArray(value) ? readList(value, path, readEntry) : readEntry(value, path);
+}
+
+function leaveOut(path: string, message: string, context: ReadContext): void {
+  context.onWarning?.({ path, message: `${message}, it was left out` });
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readObject(value: unknown, path: string): JsonObject {
+  if (!isObject(value)) {
+    throw new ValidationError(`${path} is not an object`);
+  }
+  return value;
+}
+
+function readList<T>(value: unknown, path: string, readItem: (item: unknown, itemPath: string) => T): T[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(`${path} is not a list`);
+  }
+  return value.map((item, index) => readItem(item, `${path}[${index}]`));
+}
+
+function readText(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError(`${path} is not a string`);
+  }
+  return value;
+}
+
+function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number') {
+    throw new ValidationError(`${path} is not a number`);
+  }
+  return value;
+}
+
+function readBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(`${path} is not a boolean`);
+  }
+  return value;
+}
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { ValidationError } from './utils';
+import type { JsonLdValidationIssue, JsonLdValidationResult } from '@shared/schema';
+
+// Bundled GS1 EPCIS 2.0 JSON Schema (draft-07), validation runs offline against it
+const JSON_SCHEMA_FILE = path.resolve(import.meta.dirname, 'json-schema', 'EPCIS-JSON-Schema.json');
+
+// Keywords that only report that one of their subschemas failed, the subschema errors say why
+const COMBINATOR_KEYWORDS = new Set(['if', 'anyOf', 'oneOf', 'allOf']);
+
+let validateSchema: ValidateFunction | null = null;
+
+/**
+ * Compiles the bundled JSON Schema once
+ */
+function getSchemaValidator(): ValidateFunction {
+  if (!validateSchema) {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    addFormats(ajv);
+    validateSchema = ajv.compile(JSON.parse(fs.readFileSync(JSON_SCHEMA_FILE, 'utf8')));
+  }
+  return validateSchema;
+}
+
+/**
+ * Validates an EPCIS 2.0 JSON-LD document against the bundled GS1 EPCIS JSON Schema.
+ * Each issue is located by the JSON Pointer of the offending value, "" being the document itself.
+ */
+export function validateJsonLd(jsonLd: string | object): JsonLdValidationResult {
+  let document: unknown = jsonLd;
+  if (typeof jsonLd === 'string') {
+    try {
+      document = JSON.parse(jsonLd);
+    } catch (error) {
+      return { valid: false, errors: [{ pointer: '', message: `Invalid JSON: ${(error as Error).message}` }] };
+    }
+  }
+
+  const validate = getSchemaValidator();
+  if (validate(document)) {
+    return { valid: true, errors: [] };
+  }
+
+  return { valid: false, errors: toIssues(validate.errors || []) };
+}
+
+/**
+ * Validates a JSON-LD document against the EPCIS JSON Schema and throws a ValidationError listing
+ * every issue when it is not valid. `subject` names the document in the error message.
+ */
+export function assertValidJsonLd(jsonLd: string | object, subject: string): void {
+  const { valid, errors } = validateJsonLd(jsonLd);
+  if (!valid) {
+    const first = errors[0];
+    throw new ValidationError(
+      `${subject} is not valid against the EPCIS 2.0 JSON Schema: ${first.message} at "${first.pointer}"` +
+        (errors.length > 1 ? ` and ${errors.length - 1} more issue(s)` : ''),
+      errors
+    );
+  }
+}
+
+/**
+ * Turns ajv errors into issues, leaving out combinator failures that a more specific error
+ * on the same value or one of its children already explains
+ */
+function toIssues(errors: ErrorObject[]): JsonLdValidationIssue[] {
+  // Errors of the propertyNames subschema are summed up by the propertyNames error naming the key
+  const relevant = errors.filter(error => error.propertyName === undefined || error.keyword === 'propertyNames');
+  const specific = relevant.filter(error => !COMBINATOR_KEYWORDS.has(error.keyword) || !relevant.some(other =>
+    !COMBINATOR_KEYWORDS.has(other.keyword) &&
+      (other.instancePath === error.instancePath || other.instancePath.startsWith(`${error.instancePath}/`))
+  ));
+
+  const issues: JsonLdValidationIssue[] = [];
+  for (const error of specific) {
+    const issue = { pointer: error.instancePath, message: describeError(error) };
+    if (!issues.some(existing => existing.pointer === issue.pointer && existing.message === issue.message)) {
+      issues.push(issue);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Adds the names and values ajv keeps in the error params to its message
+ */
+function describeError(error: ErrorObject): string {
+  const params = error.params as Record<string, any>;
+  const message = error.message || `must pass "${error.keyword}" keyword validation`;
+  switch (error.keyword) {
+    case 'enum':
+      return `${message}: ${params.allowedValues.join(', ')}`;
+    case 'const':
+      return `${message}: ${params.allowedValue}`;
+    case 'additionalProperties':
+      return `${message}: '${params.additionalProperty}'`;
+    case 'propertyNames':
+      return `property name '${params.propertyName}' is not allowed`;
+    default:
+      return message;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Namespace resolution shared by the EPCIS converters.
+ *
+ * Elements are matched by namespace URI and local name, never by prefix, so documents
+ * written with generated prefixes (ns2, ns3, ...) or a default namespace are read the
+ * same way as documents using the conventional epcis: prefix.
+ */
+
+import { ELEMENT_NODE } from './utils';
+
+type XmlDomNode = import('@xmldom/xmldom').Node;
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+export const EPCIS_1_NAMESPACE = 'urn:epcglobal:epcis:xsd:1';
+export const EPCIS_2_NAMESPACE = 'urn:epcglobal:epcis:xsd:2';
+export const EPCIS_MASTERDATA_NAMESPACE = 'urn:epcglobal:epcis-masterdata:xsd:1';
+export const SBDH_NAMESPACE = 'http://www.unece.org/cefact/namespaces/StandardBusinessDocumentHeader';
+export const CBV_MDA_NAMESPACE = 'urn:epcglobal:cbv:mda';
+export const GS1_US_HEALTHCARE_NAMESPACE = 'http://epcis.gs1us.org/hc/ns';
+export const GS1_VOCABULARY_NAMESPACE = 'https://gs1.org/voc/';
+export const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const EPCIS_NAMESPACES = [EPCIS_1_NAMESPACE, EPCIS_2_NAMESPACE, EPCIS_MASTERDATA_NAMESPACE];
+
+// Conventional prefixes of well-known namespaces, used instead of whatever prefix a document declares
+const PREFERRED_PREFIXES: Record<string, string> = {
+  [EPCIS_1_NAMESPACE]: 'epcis',
+  [EPCIS_2_NAMESPACE]: 'epcis',
+  [EPCIS_MASTERDATA_NAMESPACE]: 'epcismd',
+  [SBDH_NAMESPACE]: 'sbdh',
+  [CBV_MDA_NAMESPACE]: 'cbvmda',
+  [GS1_US_HEALTHCARE_NAMESPACE]: 'gs1ushc',
+  [GS1_VOCABULARY_NAMESPACE]: 'gs1',
+  [XSI_NAMESPACE]: 'xsi'
+};
+
+/**
+ * Checks whether a namespace URI is one of the EPCIS schema namespaces (1.x, 2.0 or master data)
+ */
+export function isEpcisNamespace(namespaceURI: string | null | undefined): boolean {
+  return !!namespaceURI && EPCIS_NAMESPACES.includes(namespaceURI);
+}
+
+/**
+ * Checks whether a node is an EPCIS element with the given local name.
+ * EPCIS elements are normally unqualified, but some documents put them in a default EPCIS namespace.
+ */
+export function isEpcisElement(node: XmlDomNode, localName: string): boolean {
+  return node.nodeType === ELEMENT_NODE
+    && (!node.namespaceURI || isEpcisNamespace(node.namespaceURI))
+    && (node as XmlDomElement).localName === localName;
+}
+
+/**
+ * Checks whether a node is an element in a namespace other than EPCIS, i.e. a user extension
+ */
+export function isExtensionElement(node: XmlDomNode): boolean {
+  return node.nodeType === ELEMENT_NODE && !!node.namespaceURI && !isEpcisNamespace(node.namespaceURI);
+}
+
+/**
+ * Checks whether a node is an element with the given namespace URI and local name
+ */
+export function isElementNS(node: XmlDomNode, namespaceURI: string, localName: string): boolean {
+  return node.nodeType === ELEMENT_NODE
+    && node.namespaceURI === namespaceURI
+    && (node as XmlDomElement).localName === localName;
+}
+
+/**
+ * Checks whether an element is an EPCISDocument, whatever prefix or default namespace it uses
+ */
+export function isEpcisDocument(root: XmlDomElement): boolean {
+  return isEpcisElement(root, 'EPCISDocument');
+}
+
+/**
+ * Gets the prefix to write for a namespace: the conventional one for well-known namespaces,
+ * otherwise the prefix the document declared
+ */
+export function getPreferredPrefix(namespaceURI: string, declaredPrefix: string | null): string | null {
+  return PREFERRED_PREFIXES[namespaceURI] || declaredPrefix;
+}
+
+/**
+ * Gets the namespace of a conventional prefix such as sbdh or cbvmda, for JSON-LD documents
+ * that use it without defining it in their @context
+ */
+export function getWellKnownNamespace(prefix: string): string | null {
+  const entry = Object.entries(PREFERRED_PREFIXES)
+    .find(([namespaceURI, preferred]) => preferred === prefix && !isEpcisNamespace(namespaceURI));
+  return entry ? entry[0] : null;
+}
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { ValidationError, TransformationError } from './utils';
+import { assertValidJsonLd } from './jsonld-validator';
 import type { XmlTransformOptions, JsonLdTransformOptions } from '@shared/schema';
 
 // Constants - Using the correct OpenEPCIS API URL structure
@@ -44,10 +45,10 @@ export class OpenEpcisClient {
   /**
    * Convert EPCIS 2.0 XML to JSON-LD format using OpenEPCIS API
    * @param xml EPCIS 2.0 XML content
-   * @param options Transformation options
+   * @param options Transformation options, `validate` checks the response against the EPCIS 2.0 JSON Schema
    * @returns Promise resolving to JSON-LD string
    */
-  async convertToJsonLd(xml: string, options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true }): Promise<string> {
+  async convertToJsonLd(xml: string, options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true, validate: false, validateEpcs: false }): Promise<string> {
     try {
       const response = await axios.post(
         `${this.baseUrl}/convert/json/2.0`, 
@@ -62,12 +63,19 @@ export class OpenEpcisClient {
       // Format JSON response based on options
       const jsonResponse = response.data;
       
+      if (options.validate) {
+        assertValidJsonLd(jsonResponse, 'OpenEPCIS response');
+      }
+      
       if (options.prettyPrint) {
         return JSON.stringify(jsonResponse, null, 2);
       }
       
       return JSON.stringify(jsonResponse);
     } catch (unknown) {
+      if (unknown instanceof ValidationError) {
+        throw unknown;
+      }
       const error = unknown as Error;
       console.error('OpenEPCIS API Error:', error.message || 'Unknown error');
       throw new TransformationError(`OpenEPCIS API Error: ${error.message || 'Unknown error'}`);
@@ -81,15 +89,18 @@ export class OpenEpcisClient {
    * @param options Transformation options
    * @returns Promise resolving to JSON-LD string
    */
-  async convertFrom12ToJsonLd(xml: string, options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true }): Promise<string> {
+  async convertFrom12ToJsonLd(xml: string, options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true, validate: false, validateEpcs: false }): Promise<string> {
     try {
       // First, convert from 1.2 to 2.0 XML
       console.log('Performing two-step conversion for 1.2 to JSON-LD');
       const epcis20Xml = await this.convertToEpcis20Xml(xml);
       
       // Then convert from 2.0 XML to JSON-LD
-      return this.convertToJsonLd(epcis20Xml, options);
+      return await this.convertToJsonLd(epcis20Xml, options);
     } catch (unknown) {
+      if (unknown instanceof ValidationError) {
+        throw unknown;
+      }
       const error = unknown as Error;
       console.error('OpenEPCIS API Error during two-step conversion:', error.message || 'Unknown error');
       throw new TransformationError(`OpenEPCIS API Error: ${error.message || 'Unknown error'}`);
@@ -0,0 +1,296 @@
+import { ValidationError, parseXml, getXPath, childElements, fieldElements } from './utils';
+import { isEpcisDocument, isEpcisElement } from './namespaces';
+import { validateEpcisXml } from './schema-validator';
+import { toCbvTerm } from './cbv';
+import { DSCSA_RULES } from './dscsa-rules';
+import type { RuleIssue, RuleSeverity, RuleValidationOptions, ValidationReport } from '@shared/schema';
+
+type XmlDomNode = import('@xmldom/xmldom').Node;
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+const EVENT_TYPES = [
+  'ObjectEvent', 'AggregationEvent', 'TransactionEvent', 'TransformationEvent', 'AssociationEvent'
+];
+
+// Rule id under which XSD issues are reported when the schema option is set
+const SCHEMA_RULE_ID = 'xsd';
+
+/**
+ * An EPCIS event as the rules see it. Fields are found by name whether they sit directly under
+ * the event or, in EPCIS 1.x documents, inside its extension and baseExtension wrappers.
+ */
+export interface RuleEvent {
+  element: XmlDomElement;
+  // Local name of the event element, e.g. ObjectEvent
+  type: string;
+  // Position of the event in document order, across all EventLists
+  index: number;
+  getField(name: string): XmlDomElement | null;
+  getText(name: string): string | null;
+}
+
+export interface RuleFinding {
+  message: string;
+  // Element the finding is about, the checked event when left out
+  element?: XmlDomElement;
+}
+
+/**
+ * A business rule. Event rules are run once per event, document rules once per document.
+ */
+export interface EpcisRule {
+  id: string;
+  description: string;
+  // Severity of the findings unless the rules option overrides it
+  severity: RuleSeverity;
+  checkEvent?(event: RuleEvent): RuleFinding[];
+  checkDocument?(root: XmlDomElement, events: RuleEvent[]): RuleFinding[];
+}
+
+// Dispositions CBV lists for the business steps that imply a particular state of the objects
+const BIZSTEP_DISPOSITIONS: Record<string, string[]> = {
+  accepting: ['in_progress'],
+  arriving: ['in_progress'],
+  commissioning: ['active'],
+  decommissioning: ['inactive'],
+  destroying: ['destroyed'],
+  dispensing: ['dispensed', 'partially_dispensed'],
+  encoding: ['encoded'],
+  killing: ['inactive'],
+  packing: ['in_progress', 'container_closed'],
+  recalling: ['recalled'],
+  retail_selling: ['retail_sold'],
+  returning: ['returned'],
+  shipping: ['in_transit'],
+  stocking: ['sellable_accessible'],
+  storing: ['sellable_not_accessible'],
+  unpacking: ['in_progress', 'container_open']
+};
+
+// +hh:mm or -hh:mm between -14:00 and +14:00
+const TIMEZONE_OFFSET_PATTERN = /^[+-](?:(?:0\d|1[0-3]):[0-5]\d|14:00)$/;
+
+export const BUILT_IN_RULES: EpcisRule[] = [
+  {
+    id: 'object-add-requires-epcs',
+    description: 'An ObjectEvent with action ADD must list EPCs or quantities',
+    severity: 'error',
+    checkEvent(event) {
+      if (event.type !== 'ObjectEvent' || event.getText('action') !== 'ADD') {
+        return [];
+      }
+      const hasEpcs = countChildren(event.getField('epcList'), 'epc') > 0;
+      const hasQuantities = countChildren(event.getField('quantityList'), 'quantityElement') > 0;
+      return hasEpcs || hasQuantities ? [] : [{ message: 'ObjectEvent with action ADD has neither EPCs nor quantities' }];
+    }
+  },
+  {
+    id: 'aggregation-requires-parent',
+    description: 'An AggregationEvent with action ADD or DELETE must have a parentID',
+    severity: 'error',
+    checkEvent(event) {
+      const action = event.getText('action');
+      if (event.type !== 'AggregationEvent' || (action !== 'ADD' && action !== 'DELETE') || event.getText('parentID')) {
+        return [];
+      }
+      return [{ message: `AggregationEvent with action ${action} has no parentID` }];
+    }
+  },
+  {
+    id: 'aggregation-delete-unpacks-all',
+    description: 'An AggregationEvent with action DELETE and no children disaggregates everything from its parent',
+    severity: 'info',
+    checkEvent(event) {
+      if (event.type !== 'AggregationEvent' || event.getText('action') !== 'DELETE') {
+        return [];
+      }
+      const hasChildren = countChildren(event.getField('childEPCs'), 'epc') > 0
+        || countChildren(event.getField('childQuantityList'), 'quantityElement') > 0;
+      return hasChildren ? [] : [{
+        message: `AggregationEvent with action DELETE lists no children, so all children of ${event.getText('parentID') || 'its parent'} are unpacked`
+      }];
+    }
+  },
+  {
+    id: 'valid-timezone-offset',
+    description: 'eventTimeZoneOffset must be present and between -14:00 and +14:00 in the form +hh:mm',
+    severity: 'error',
+    checkEvent(event) {
+      const offset = event.getText('eventTimeZoneOffset');
+      if (offset === null) {
+        return [{ message: `${event.type} has no eventTimeZoneOffset` }];
+      }
+      return TIMEZONE_OFFSET_PATTERN.test(offset) ? [] : [{
+        message: `'${offset}' is not a valid time zone offset, expected +hh:mm or -hh:mm between -14:00 and +14:00`,
+        element: event.getField('eventTimeZoneOffset')!
+      }];
+    }
+  },
+  {
+    id: 'disposition-matches-bizstep',
+    description: 'The disposition should be one CBV lists for the business step',
+    severity: 'warning',
+    checkEvent(event) {
+      const bizStep = toCbvTerm(event.getText('bizStep'), 'bizstep');
+      const disposition = toCbvTerm(event.getText('disposition'), 'disp');
+      const expected = bizStep ? BIZSTEP_DISPOSITIONS[bizStep] : undefined;
+      if (!expected || !disposition || expected.includes(disposition)) {
+        return [];
+      }
+      return [{
+        message: `Disposition '${disposition}' is not expected for business step '${bizStep}', expected ${expected.join(' or ')}`,
+        element: event.getField('disposition')!
+      }];
+    }
+  }
+];
+
+// Optional rule packs, enabled by name through the rulePacks option
+export const RULE_PACKS: Record<RuleValidationOptions['rulePacks'][number], EpcisRule[]> = {
+  dscsa: DSCSA_RULES
+};
+
+/**
+ * Checks EPCIS documents against business rules. Starts with the built-in rules and the rules of
+ * the enabled packs, whose severities can be changed or turned off through the rules option,
+ * and takes additional rules.
+ */
+export class RuleEngine {
+  private rules: EpcisRule[];
+  private severities: Record<string, RuleSeverity | 'off'>;
+  private checkSchema: boolean;
+
+  constructor(options: Partial<RuleValidationOptions> = {}, rules: EpcisRule[] = BUILT_IN_RULES) {
+    this.rules = [...rules, ...(options.rulePacks || []).flatMap(pack => RULE_PACKS[pack])];
+    this.severities = options.rules || {};
+    this.checkSchema = options.schema === true;
+  }
+
+  /**
+   * Adds a rule, which must not reuse the id of a rule already in the engine
+   */
+  addRule(rule: EpcisRule): this {
+    if (this.rules.some(existing => existing.id === rule.id)) {
+      throw new ValidationError(`A rule with id '${rule.id}' already exists`);
+    }
+    this.rules.push(rule);
+    return this;
+  }
+
+  /**
+   * Checks an EPCIS 1.x or 2.0 XML document and reports every finding. Issues are ordered by event,
+   * with findings about the document as a whole first.
+   */
+  async validate(xml: string): Promise<ValidationReport> {
+    const unknownRule = Object.keys(this.severities).find(id => !this.rules.some(rule => rule.id === id));
+    if (unknownRule) {
+      throw new ValidationError(`Unknown rule '${unknownRule}'`);
+    }
+
+    const root = parseXml(xml).documentElement!;
+    if (!isEpcisDocument(root)) {
+      throw new ValidationError('Not an EPCIS document');
+    }
+
+    const events = collectEvents(root);
+    const eventIndexOf = (element: XmlDomElement): number | null => {
+      for (let node: XmlDomNode | null = element; node; node = node.parentNode) {
+        const event = events.find(candidate => candidate.element === node);
+        if (event) {
+          return event.index;
+        }
+      }
+      return null;
+    };
+
+    const issues: RuleIssue[] = [];
+
+    if (this.checkSchema) {
+      const eventXPaths = events.map(event => getXPath(event.element));
+      const { errors } = await validateEpcisXml(xml);
+      for (const error of errors) {
+        const eventIndex = eventXPaths.findIndex(eventXPath =>
+          !!error.xpath && (error.xpath === eventXPath || error.xpath.startsWith(`${eventXPath}/`))
+        );
+        issues.push({
+          severity: 'error',
+          ruleId: SCHEMA_RULE_ID,
+          eventIndex: eventIndex === -1 ? null : eventIndex,
+          xpath: error.xpath,
+          message: error.line !== null ? `${error.message} (line ${error.line})` : error.message
+        });
+      }
+    }
+
+    for (const rule of this.rules) {
+      const severity = this.severities[rule.id] || rule.severity;
+      if (severity === 'off') {
+        continue;
+      }
+
+      const findings = [
+        ...events.flatMap(event =>
+          (rule.checkEvent?.(event) || []).map(finding => ({ ...finding, element: finding.element || event.element }))
+        ),
+        ...(rule.checkDocument?.(root, events) || [])
+      ];
+      for (const finding of findings) {
+        issues.push({
+          severity,
+          ruleId: rule.id,
+          eventIndex: finding.element ? eventIndexOf(finding.element) : null,
+          xpath: finding.element ? getXPath(finding.element) : null,
+          message: finding.message
+        });
+      }
+    }
+
+    // Stable sort, so the issues of one event keep the rule order
+    issues.sort((a, b) => (a.eventIndex ?? -1) - (b.eventIndex ?? -1));
+
+    return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+  }
+}
+
+/**
+ * Checks an EPCIS XML document against the built-in business rules
+ */
+export async function validateEpcis(
+  xml: string,
+  options: Partial<RuleValidationOptions> = {}
+): Promise<ValidationReport> {
+  return new RuleEngine(options).validate(xml);
+}
+
+/**
+ * Collects the events of every EventList in document order, including 1.2 events
+ * inside EventList extensions
+ */
+function collectEvents(root: XmlDomElement): RuleEvent[] {
+  const body = childElements(root).find(child => isEpcisElement(child, 'EPCISBody'));
+  if (!body) {
+    return [];
+  }
+
+  return childElements(body)
+    .filter(child => isEpcisElement(child, 'EventList'))
+    .flatMap(eventList => fieldElements(eventList))
+    .filter(child => EVENT_TYPES.some(eventType => isEpcisElement(child, eventType)))
+    .map((element, index) => {
+      const getField = (name: string) => fieldElements(element).find(field => isEpcisElement(field, name)) || null;
+      return {
+        element,
+        type: element.localName!,
+        index,
+        getField,
+        getText: (name: string) => {
+          const field = getField(name);
+          return field ? (field.textContent || '').trim() : null;
+        }
+      };
+    });
+}
+
+function countChildren(parent: XmlDomElement | null, localName: string): number {
+  return parent ? childElements(parent).filter(child => isEpcisElement(child, localName)).length : 0;
+}
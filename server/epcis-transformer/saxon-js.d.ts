@@ -2,6 +2,8 @@ declare module 'saxon-js' {
   export interface TransformOptions {
     stylesheetText?: string;
     stylesheetLocation?: string;
+    stylesheetFileName?: string;
+    stylesheetInternal?: Record<string, any>;
     sourceText?: string;
     sourceNode?: Node;
     sourceLocation?: string;
@@ -10,7 +12,15 @@ declare module 'saxon-js' {
     [key: string]: any;
   }
 
-  export default {
-    transform: (options: TransformOptions) => string | any
+  export interface TransformResult {
+    principalResult: any;
+    [key: string]: any;
+  }
+
+  const SaxonJS: {
+    transform(options: TransformOptions, execution: 'sync'): TransformResult;
+    transform(options: TransformOptions, execution?: 'async'): Promise<TransformResult>;
   };
-}
\ No newline at end of file
+
+  export default SaxonJS;
+}
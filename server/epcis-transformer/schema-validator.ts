@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import { DOMParser, ParseError, onErrorStopParsing } from '@xmldom/xmldom';
+import { validateXML } from 'xmllint-wasm';
+import { ValidationError, TransformationError, getXPath, forEachElement } from './utils';
+import { EPCIS_1_NAMESPACE, EPCIS_2_NAMESPACE, isEpcisDocument } from './namespaces';
+import type { ValidationIssue, SchemaValidationResult } from '@shared/schema';
+
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+// Where xmldom stopped parsing, as its ParseError gives it
+interface ParseLocator {
+  lineNumber?: number;
+  columnNumber?: number;
+}
+
+// EPCIS, EPCglobal and SBDH schemas, validation runs offline against these. The files bundled now
+// are hand-written stand-ins for the official GS1 and UN/CEFACT schemas, see the README.
+const XSD_DIRECTORY = path.resolve(import.meta.dirname, 'xsd');
+
+const SCHEMA_FILES: Record<string, string> = {
+  '1.2': 'EPCglobal-epcis-1_2.xsd',
+  '2.0': 'EPCglobal-epcis-2_0.xsd'
+};
+
+// File name the document is given inside xmllint, used to tell its errors from schema errors
+const DOCUMENT_FILE_NAME = 'document.xml';
+
+let schemaFiles: Array<{ fileName: string; contents: string }> | null = null;
+
+/**
+ * Loads the bundled XSD files once
+ */
+function loadSchemaFiles(): Array<{ fileName: string; contents: string }> {
+  if (!schemaFiles) {
+    schemaFiles = fs.readdirSync(XSD_DIRECTORY)
+      .filter(fileName => fileName.endsWith('.xsd'))
+      .map(fileName => ({ fileName, contents: fs.readFileSync(path.join(XSD_DIRECTORY, fileName), 'utf8') }));
+  }
+  return schemaFiles;
+}
+
+/**
+ * Validates an EPCIS document against the bundled EPCIS 1.2 or 2.0 XSD, chosen by the namespace
+ * of its EPCISDocument element. Malformed XML is reported as a single issue at the parse error.
+ */
+export async function validateEpcisXml(xml: string): Promise<SchemaValidationResult> {
+  let root: XmlDomElement;
+  try {
+    root = new DOMParser({ onError: onErrorStopParsing }).parseFromString(xml, 'application/xml').documentElement!;
+  } catch (error) {
+    const locator: ParseLocator | undefined = error instanceof ParseError ? error.locator : undefined;
+    return {
+      valid: false,
+      schemaVersion: null,
+      errors: [{
+        line: locator?.lineNumber ?? null,
+        column: locator?.columnNumber ?? null,
+        xpath: null,
+        message: (error as Error).message.split('\n')[0].trim()
+      }]
+    };
+  }
+
+  const schemaVersion = root.namespaceURI === EPCIS_1_NAMESPACE ? '1.2'
+    : root.namespaceURI === EPCIS_2_NAMESPACE ? '2.0'
+    : null;
+  if (!isEpcisDocument(root) || !schemaVersion) {
+    return {
+      valid: false,
+      schemaVersion: null,
+      errors: [{
+        line: root.lineNumber ?? null,
+        column: root.columnNumber ?? null,
+        xpath: `/${root.nodeName}`,
+        message: 'Not an EPCIS 1.2 or 2.0 document'
+      }]
+    };
+  }
+
+  const files = loadSchemaFiles();
+  const schemaFile = files.find(file => file.fileName === SCHEMA_FILES[schemaVersion])!;
+  let result;
+  try {
+    result = await validateXML({
+      xml: [{ fileName: DOCUMENT_FILE_NAME, contents: xml }],
+      schema: [schemaFile],
+      preload: files.filter(file => file !== schemaFile)
+    });
+  } catch (error) {
+    // xmllint only fails outright when the bundled schemas cannot be compiled
+    throw new TransformationError(`Schema validation failed to run: ${(error as Error).message}`);
+  }
+
+  const locate = createElementLocator(root);
+  const errors = result.errors
+    .filter(error => error.loc?.fileName === DOCUMENT_FILE_NAME)
+    .map(error => locate(error.loc!.lineNumber, error.message));
+
+  return { valid: errors.length === 0, schemaVersion, errors };
+}
+
+/**
+ * Validates an EPCIS document against its XSD and throws a ValidationError listing every issue
+ * when it is not valid. `subject` names the document in the error message, e.g. "Converted document".
+ */
+export async function assertValidEpcisXml(xml: string, subject: string): Promise<void> {
+  const { valid, schemaVersion, errors } = await validateEpcisXml(xml);
+  if (!valid) {
+    const schema = schemaVersion ? `the EPCIS ${schemaVersion} schema` : 'the EPCIS schemas';
+    const first = errors[0];
+    const location = first.line !== null ? ` (line ${first.line})` : '';
+    throw new ValidationError(
+      `${subject} is not valid against ${schema}: ${first.message}${location}` +
+        (errors.length > 1 ? ` and ${errors.length - 1} more issue(s)` : ''),
+      errors
+    );
+  }
+}
+
+/**
+ * Creates a function that turns an xmllint message into a ValidationIssue, finding the element
+ * it is about from its line and name to add the column and XPath. When several elements of that
+ * name share the line (minified documents), the one holding the invalid value quoted in the message
+ * is preferred, then the first one not matched to an earlier error.
+ */
+function createElementLocator(root: XmlDomElement): (line: number, rawMessage: string) => ValidationIssue {
+  const elementsByLine = new Map<number, XmlDomElement[]>();
+  forEachElement(root, element => {
+    const line = element.lineNumber ?? 0;
+    elementsByLine.set(line, [...(elementsByLine.get(line) || []), element]);
+  });
+  const usedElements = new Set<XmlDomElement>();
+
+  return (line, rawMessage) => {
+    // xmllint messages look like "element bizStep: Schemas validity error : Element 'bizStep': ..."
+    const message = rawMessage.replace(/^.*?Schemas validity error : /, '').trim();
+    const subject = message.match(/^Element '(?:\{([^}]*)\})?([^']+)'(?:, attribute '(?:\{[^}]*\})?([^']+)')?/);
+    if (!subject) {
+      return { line, column: null, xpath: null, message };
+    }
+
+    const [, namespaceURI, localName, attributeName] = subject;
+    const invalidValue = message.match(/: '([^']*)' is not a valid value/)?.[1];
+    const candidates = (elementsByLine.get(line) || []).filter(element =>
+      element.localName === localName && (element.namespaceURI || '') === (namespaceURI || '')
+    );
+    const holdsValue = (element: XmlDomElement) => invalidValue !== undefined && invalidValue === (
+      attributeName ? element.getAttribute(attributeName) : (element.textContent || '').trim()
+    );
+    const element = candidates.find(candidate => !usedElements.has(candidate) && holdsValue(candidate))
+      || candidates.find(candidate => !usedElements.has(candidate))
+      || candidates[0];
+    if (!element) {
+      return { line, column: null, xpath: null, message };
+    }
+    usedElements.add(element);
+
+    const xpath = getXPath(element) + (attributeName ? `/@${attributeName}` : '');
+    return { line, column: element.columnNumber ?? null, xpath, message };
+  };
+}
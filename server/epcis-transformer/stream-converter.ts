@@ -0,0 +1,396 @@
+/**
+ * Streaming conversion of EPCIS XML documents too large to load into a DOM.
+ *
+ * The input is read with a SAX parser and its events are converted one at a time. Each event is
+ * wrapped in the root, EPCISBody and EventList start tags of the input, so that namespaces and the
+ * EPCIS version resolve as in the whole document, and goes through the same conversion as
+ * convertToEpcis20Xml and convertToJsonLd. Only the header and the event being converted are held
+ * in memory, whatever the size of the document.
+ */
+
+import { Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { SaxesParser, type SaxesTagNS } from 'saxes';
+import { runEpcis20Conversion, toConversionError } from './xml-converter';
+import { buildJsonLdDocument } from './json-converter';
+import { ValidationError, TransformationError } from './utils';
+import { XSI_NAMESPACE, getPreferredPrefix, isEpcisNamespace } from './namespaces';
+import type { ConversionWarning, JsonLdTransformOptions, XmlTransformOptions } from '@shared/schema';
+import type { JsonLdContext } from '@shared/epcis-model';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+// Stands in for the events while the JSON-LD envelope is serialized
+const EVENTS_PLACEHOLDER = '\u0000events';
+
+interface OpenElement {
+  name: string;
+  startTag: string;
+}
+
+interface EventSplitterHandlers {
+  // The document without its events, once the EventList starts or, when it has none, at its end
+  onEnvelope(xml: string, complete: boolean): void;
+  // A document holding one child element of the EventList, at the given XPath of the input
+  onEvent(xml: string, path: string): void;
+  onWarning(warning: ConversionWarning): void;
+}
+
+/**
+ * Reads an EPCIS XML document in chunks and cuts it into its envelope and its events
+ */
+export class EventSplitter {
+  // Namespaces declared on the root, EPCISBody and EventList, by prefix
+  readonly namespaces: Record<string, string> = {};
+
+  private parser = new SaxesParser({ xmlns: true });
+  private decoder = new StringDecoder('utf8');
+  private open: OpenElement[] = [];
+  private state: 'envelope' | 'events' | 'after' = 'envelope';
+  private envelope = '';
+  // Markup of the event being read, null between events
+  private event: string | null = null;
+  private eventName = '';
+  // Comments between events, kept with the event that follows them
+  private comments = '';
+  // Positions of the EventList and of the events in it so far, for their XPaths
+  private eventListCount = 0;
+  private eventCounts = new Map<string, number>();
+
+  constructor(private handlers: EventSplitterHandlers) {
+    this.parser.on('error', error => {
+      throw new ValidationError(`XML parsing failed: ${error.message.split('\n')[0].trim()}`);
+    });
+    this.parser.on('opentag', tag => this.openTag(tag));
+    this.parser.on('closetag', tag => this.closeTag(tag));
+    this.parser.on('text', text => this.append(escapeXml(text)));
+    this.parser.on('cdata', cdata => this.append(`<![CDATA[${cdata}]]>`));
+    this.parser.on('comment', comment => this.append(`<!--${comment}-->`, true));
+    this.parser.on('processinginstruction', ({ target, body }) => {
+      if (this.open.length > 0) {
+        this.append(`<?${target}${body ? ` ${body}` : ''}?>`);
+      }
+    });
+  }
+
+  write(chunk: Buffer | string): void {
+    this.parser.write(typeof chunk === 'string' ? chunk : this.decoder.write(chunk));
+  }
+
+  close(): void {
+    this.parser.write(this.decoder.end());
+    this.parser.close();
+  }
+
+  private openTag(tag: SaxesTagNS): void {
+    const attributes = Object.values(tag.attributes).map(attribute => ` ${attribute.name}="${escapeAttribute(attribute.value)}"`);
+    const element = { name: tag.name, startTag: `<${tag.name}${attributes.join('')}>` };
+    const depth = this.open.length;
+    const isEpcis = (localName: string) => tag.local === localName && (!tag.uri || isEpcisNamespace(tag.uri));
+
+    if (depth === 0 && !isEpcis('EPCISDocument')) {
+      throw new ValidationError('Not an EPCIS document');
+    }
+
+    if (this.state === 'envelope') {
+      this.envelope += element.startTag;
+      this.open.push(element);
+      if (depth <= 2) {
+        Object.assign(this.namespaces, tag.ns);
+      }
+      if (depth === 2 && isEpcis('EventList') && this.open[1].name.replace(/^.*:/, '') === 'EPCISBody') {
+        this.state = 'events';
+        this.eventListCount++;
+        this.handlers.onEnvelope(XML_DECLARATION + this.envelope + this.closingTags(), false);
+      }
+    } else if (this.state === 'events') {
+      if (this.event === null) {
+        this.event = this.comments;
+        this.eventName = tag.name;
+        this.comments = '';
+      }
+      this.event += element.startTag;
+      this.open.push(element);
+    } else if (depth === 2 && isEpcis('EventList')) {
+      // Events of further EventLists join those of the first, as in the converted document
+      this.state = 'events';
+      this.eventListCount++;
+      this.eventCounts.clear();
+      this.open.push(element);
+    } else {
+      // Anything following the EventLists is left out
+      if (depth <= 2) {
+        this.handlers.onWarning({
+          path: '/' + [...this.open.map(open => open.name), tag.name].join('/'),
+          message: `${tag.local} after the EventList is not carried over when streaming`
+        });
+      }
+      this.open.push(element);
+    }
+  }
+
+  private closeTag(tag: SaxesTagNS): void {
+    this.open.pop();
+    const endTag = `</${tag.name}>`;
+
+    if (this.state === 'envelope') {
+      this.envelope += endTag;
+      if (this.open.length === 0) {
+        this.handlers.onEnvelope(XML_DECLARATION + this.envelope, true);
+      }
+    } else if (this.state === 'events') {
+      if (this.event !== null) {
+        this.event += endTag;
+        if (this.open.length === 3) {
+          this.emitEvent();
+        }
+      } else {
+        this.state = 'after';
+      }
+    }
+  }
+
+  /**
+   * Adds text, CDATA, comments and processing instructions to the envelope or the current event.
+   * Between events only comments are kept, text there is the indentation of the input.
+   */
+  private append(markup: string, isComment = false): void {
+    if (this.state === 'envelope' && this.open.length > 0) {
+      this.envelope += markup;
+    } else if (this.state === 'events') {
+      if (this.event !== null) {
+        this.event += markup;
+      } else if (isComment) {
+        this.comments += markup;
+      }
+    }
+  }
+
+  private emitEvent(): void {
+    const count = (this.eventCounts.get(this.eventName) || 0) + 1;
+    this.eventCounts.set(this.eventName, count);
+    const [root, body, eventList] = this.open.map(open => open.name);
+    const path = `/${root}/${body}/${eventList}[${this.eventListCount}]/${this.eventName}[${count}]`;
+    const xml = XML_DECLARATION + this.open.map(open => open.startTag).join('') + this.event + this.closingTags();
+    this.event = null;
+    this.handlers.onEvent(xml, path);
+  }
+
+  private closingTags(): string {
+    return this.open.map(open => `</${open.name}>`).reverse().join('');
+  }
+}
+
+/**
+ * Creates a Transform stream converting EPCIS 1.x XML to EPCIS 2.0 XML event by event, with the
+ * output of convertToEpcis20Xml. Schema validation needs the whole document and is not available.
+ */
+export function createEpcis20XmlStream(
+  options: XmlTransformOptions = { validateXml: false, preserveComments: false, validateEpcs: false }
+): Transform {
+  if (options.validateXml) {
+    throw new TransformationError('Schema validation needs the whole document and is not available when streaming');
+  }
+  let epilogue = '';
+  // Whitespace the converter writes before the end of the EventList
+  let eventListEnd: string | null = null;
+
+  const splitter = new EventSplitter({
+    onEnvelope: (xml, complete) => {
+      const converted = runEpcis20Conversion(xml, options);
+      if (complete) {
+        stream.push(converted);
+        return;
+      }
+      const { before, after } = splitAtEventList(converted);
+      stream.push(before);
+      epilogue = after;
+    },
+    onEvent: (xml, path) => {
+      const converted = runEpcis20Conversion(xml, {
+        ...options,
+        onWarning: options.onWarning && (warning => options.onWarning!(relocateWarning(warning, path))),
+        onSourceVersion: undefined
+      });
+      const { content } = splitAtEventList(converted);
+      const events = content.trimEnd();
+      eventListEnd ??= content.slice(events.length);
+      stream.push(events);
+    },
+    onWarning: warning => options.onWarning?.(warning)
+  });
+
+  // A document without an EventList was written whole, leaving nothing to end it with
+  const stream = createSplittingStream(splitter, () => (eventListEnd || '') + epilogue);
+  return stream;
+}
+
+/**
+ * Creates a Transform stream converting EPCIS 2.0 XML to JSON-LD event by event, with the output
+ * of convertToJsonLd. Namespaces declared on the root go into the @context of the document, an
+ * event using one declared further down gets an @context of its own. The validate option checks
+ * each event against the JSON Schema as it is written.
+ */
+export function createJsonLdStream(
+  options: JsonLdTransformOptions = { prettyPrint: true, includeContext: true, validate: false, validateEpcs: false }
+): Transform {
+  const indent = options.prettyPrint ? 2 : 0;
+  const documentContext = new Map<string, string>();
+  let emptyDocument = '';
+  let before = '';
+  let after = '';
+  let eventIndent = '';
+  let eventCount = 0;
+
+  const splitter = new EventSplitter({
+    onEnvelope: (xml, complete) => {
+      const document = buildJsonLdDocument(xml, options);
+      if (complete) {
+        stream.push(JSON.stringify(document, null, indent));
+        return;
+      }
+
+      if (options.includeContext) {
+        const context = withDeclaredNamespaces(document['@context'], splitter.namespaces);
+        contextEntries(context).forEach(([prefix, uri]) => documentContext.set(prefix, uri));
+        document['@context'] = context;
+      }
+
+      emptyDocument = JSON.stringify(document, null, indent);
+      const serialized = JSON.stringify({ ...document, epcisBody: { eventList: [EVENTS_PLACEHOLDER] } }, null, indent);
+      const index = serialized.indexOf(JSON.stringify(EVENTS_PLACEHOLDER));
+      before = serialized.slice(0, index);
+      after = serialized.slice(index + JSON.stringify(EVENTS_PLACEHOLDER).length);
+      eventIndent = options.prettyPrint ? before.slice(before.lastIndexOf('\n') + 1) : '';
+    },
+    onEvent: (xml, path) => {
+      const converted = buildJsonLdDocument(xml, {
+        ...options,
+        onWarning: options.onWarning && (warning => options.onWarning!(relocateWarning(warning, path)))
+      });
+      const eventContext = options.includeContext
+        ? contextEntries(converted['@context']).filter(([prefix, uri]) => documentContext.get(prefix) !== uri)
+        : [];
+
+      for (const event of converted.epcisBody.eventList) {
+        const output = eventContext.length > 0 ? { '@context': Object.fromEntries(eventContext), ...event } : event;
+        const separator = eventCount === 0 ? before : ',' + (options.prettyPrint ? `\n${eventIndent}` : '');
+        stream.push(separator + JSON.stringify(output, null, indent).replace(/\n/g, `\n${eventIndent}`));
+        eventCount++;
+      }
+    },
+    onWarning: warning => options.onWarning?.(warning)
+  });
+
+  const stream = createSplittingStream(splitter, () => eventCount > 0 ? after : emptyDocument);
+  return stream;
+}
+
+/**
+ * Wraps an EventSplitter in a Transform stream, writing the end of the output once the input is read
+ */
+function createSplittingStream(splitter: EventSplitter, end: () => string): Transform {
+  return new Transform({
+    transform(chunk: Buffer | string, _encoding, callback) {
+      try {
+        splitter.write(chunk);
+        callback();
+      } catch (error) {
+        callback(toConversionError(error));
+      }
+    },
+    flush(callback) {
+      try {
+        splitter.close();
+        callback(null, end());
+      } catch (error) {
+        callback(toConversionError(error));
+      }
+    }
+  });
+}
+
+/**
+ * Splits a converted EPCIS 2.0 document around the content of its EventList
+ */
+function splitAtEventList(xml: string): { before: string; content: string; after: string } {
+  const bodyStart = xml.search(/<(?:[\w.-]+:)?EPCISBody[\s>]/);
+  const start = /<((?:[\w.-]+:)?EventList)(\s[^>]*?)?(\/?)>/.exec(xml.slice(Math.max(bodyStart, 0)));
+  if (bodyStart === -1 || !start) {
+    throw new TransformationError('The converted document has no EventList');
+  }
+  const startIndex = bodyStart + start.index;
+  const startEnd = startIndex + start[0].length;
+  const name = start[1];
+
+  if (start[3]) {
+    return {
+      before: xml.slice(0, startIndex) + `<${name}${start[2] || ''}>`,
+      content: '',
+      after: `</${name}>` + xml.slice(startEnd)
+    };
+  }
+  const end = xml.lastIndexOf(`</${name}>`);
+  return { before: xml.slice(0, startEnd), content: xml.slice(startEnd, end), after: xml.slice(end) };
+}
+
+/**
+ * Moves a warning about the one-event document an event was converted in to the event's place in the input
+ */
+export function relocateWarning(warning: ConversionWarning, path: string): ConversionWarning {
+  // The event is the only one of its document, so its XPath there has no positions
+  const localPath = path.replace(/\[\d+\]/g, '');
+  if (warning.path !== localPath && !warning.path.startsWith(`${localPath}/`)) {
+    return warning;
+  }
+  return { ...warning, path: path + warning.path.slice(localPath.length) };
+}
+
+/**
+ * Adds the namespaces declared on the root of the input to the @context of the converted envelope,
+ * which only defines the prefixes the envelope itself uses
+ */
+export function withDeclaredNamespaces(
+  context: JsonLdContext | undefined,
+  namespaces: Record<string, string>
+): Array<string | Record<string, string>> {
+  const prefixes = new Map(contextEntries(context));
+  for (const [declaredPrefix, uri] of Object.entries(namespaces)) {
+    const prefix = getPreferredPrefix(uri, declaredPrefix);
+    if (prefix && !isEpcisNamespace(uri) && uri !== XSI_NAMESPACE && !prefixes.has(prefix)) {
+      prefixes.set(prefix, uri);
+    }
+  }
+  return [
+    ...contextUrls(context),
+    ...(prefixes.size > 0 ? [Object.fromEntries(prefixes)] : [])
+  ];
+}
+
+/**
+ * Gets the prefix definitions of a JSON-LD @context
+ */
+function contextEntries(context: JsonLdContext | undefined): Array<[string, string]> {
+  return contextParts(context).flatMap(entry => typeof entry === 'string'
+    ? []
+    : Object.entries(entry).filter((definition): definition is [string, string] => typeof definition[1] === 'string'));
+}
+
+/**
+ * Gets the context URLs of a JSON-LD @context
+ */
+function contextUrls(context: JsonLdContext | undefined): string[] {
+  return contextParts(context).filter((entry): entry is string => typeof entry === 'string');
+}
+
+function contextParts(context: JsonLdContext | undefined): Array<string | Record<string, unknown>> {
+  return Array.isArray(context) ? context : context ? [context] : [];
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeXml(value).replace(/"/g, '&quot;').replace(/[\t\n\r]/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,154 @@
+/**
+ * Conversion between any two of the formats the transformer handles, with the input format
+ * detected from the document itself.
+ *
+ * The converters each take one step, e.g. EPCIS 2.0 XML to JSON-LD. The steps form a small graph
+ * of formats, and a conversion runs the shortest chain of steps from the detected format to the
+ * requested one, collecting the warnings of every step.
+ */
+
+import { XMLSerializer } from '@xmldom/xmldom';
+import { convertToEpcis20Xml, convertToEpcis12Xml } from './xml-converter';
+import { convertToJsonLd } from './json-converter';
+import { convertJsonLdToXml } from './jsonld-converter';
+import { parseJsonLd } from './jsonld-parser';
+import { detectEpcisVersion, epcisXmlFormat, upgradeToEpcis12 } from './epcis-versions';
+import { assertValidEpcisXml } from './schema-validator';
+import { assertValidJsonLd } from './jsonld-validator';
+import { ValidationError, parseXml } from './utils';
+import type { ConversionWarning, EpcisFormat, EpcisSourceFormat, TransformOptions, TransformResult } from '@shared/schema';
+
+interface ConversionStep {
+  from: EpcisSourceFormat;
+  to: EpcisFormat;
+  convert(input: string, options: TransformOptions, warnings: ConversionWarning[]): Promise<string>;
+}
+
+// The 2.0 conversion reads EPCIS 1.0 and 1.1 documents as well as 1.2
+const toEpcis20Xml: ConversionStep['convert'] = (input, options, warnings) => convertToEpcis20Xml(input, {
+  validateXml: options.validate === true,
+  preserveComments: false,
+  validateEpcs: false,
+  onWarning: warning => warnings.push(warning)
+});
+
+const STEPS: ConversionStep[] = [
+  {
+    from: 'epcis11-xml',
+    to: 'epcis12-xml',
+    convert: async (input, options, warnings) => {
+      if (options.validate) {
+        await assertValidEpcisXml(input, 'Input document');
+      }
+      const doc = parseXml(input);
+      const root = doc.documentElement!;
+      warnings.push(...upgradeToEpcis12(root, detectEpcisVersion(root)));
+      const xml = new XMLSerializer().serializeToString(doc);
+      if (options.validate) {
+        await assertValidEpcisXml(xml, 'Converted document');
+      }
+      return xml;
+    }
+  },
+  { from: 'epcis11-xml', to: 'epcis20-xml', convert: toEpcis20Xml },
+  { from: 'epcis12-xml', to: 'epcis20-xml', convert: toEpcis20Xml },
+  {
+    from: 'epcis20-xml',
+    to: 'epcis12-xml',
+    convert: async (input, options, warnings) => {
+      const result = await convertToEpcis12Xml(input, { validateXml: options.validate === true, preserveComments: false });
+      warnings.push(...result.warnings);
+      return result.xml;
+    }
+  },
+  {
+    from: 'epcis20-xml',
+    to: 'jsonld',
+    convert: (input, options, warnings) => convertToJsonLd(input, {
+      prettyPrint: true,
+      includeContext: true,
+      validate: options.validate === true,
+      validateEpcs: false,
+      onWarning: warning => warnings.push(warning)
+    })
+  },
+  {
+    from: 'jsonld',
+    to: 'epcis20-xml',
+    convert: async (input, options, warnings) => {
+      const result = await convertJsonLdToXml(input, { epcisVersion: '2.0', validate: options.validate === true });
+      warnings.push(...result.warnings);
+      return result.xml;
+    }
+  },
+  {
+    from: 'jsonld',
+    to: 'epcis12-xml',
+    convert: async (input, options, warnings) => {
+      const result = await convertJsonLdToXml(input, { epcisVersion: '1.2', validate: options.validate === true });
+      warnings.push(...result.warnings);
+      return result.xml;
+    }
+  }
+];
+
+/**
+ * Tells the format of an EPCIS document: JSON-LD by its leading brace, EPCIS 1.0 or 1.1, 1.2 or
+ * 2.0 XML by its namespace and schemaVersion. Throws a ValidationError for anything that is not EPCIS.
+ */
+export function detectFormat(input: string): EpcisSourceFormat {
+  const text = input.replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('{')) {
+    parseJsonLd(text);
+    return 'jsonld';
+  }
+  return epcisXmlFormat(detectEpcisVersion(text));
+}
+
+/**
+ * Converts an EPCIS document of any supported format to the format given by the to option,
+ * planning the chain of conversions from the detected format. A document already in the
+ * requested format is returned as it is, checked against its schema with the validate option.
+ */
+export async function transform(input: string, options: TransformOptions): Promise<TransformResult> {
+  const sourceFormat = detectFormat(input);
+  const chain = planConversion(sourceFormat, options.to);
+  const warnings: ConversionWarning[] = [];
+
+  if (chain.length === 1 && options.validate) {
+    if (sourceFormat === 'jsonld') {
+      assertValidJsonLd(input, 'Input document');
+    } else {
+      await assertValidEpcisXml(input, 'Input document');
+    }
+  }
+
+  let result = input;
+  for (let i = 1; i < chain.length; i++) {
+    const step = STEPS.find(candidate => candidate.from === chain[i - 1] && candidate.to === chain[i])!;
+    result = await step.convert(result, options, warnings);
+  }
+
+  return { result, sourceFormat, chain, warnings };
+}
+
+/**
+ * Finds the shortest chain of conversion steps between two formats, both ends included
+ */
+function planConversion(from: EpcisSourceFormat, to: EpcisFormat): EpcisSourceFormat[] {
+  const chains = new Map<EpcisSourceFormat, EpcisSourceFormat[]>([[from, [from]]]);
+  const queue: EpcisSourceFormat[] = [from];
+  while (queue.length > 0 && !chains.has(to)) {
+    const format = queue.shift()!;
+    for (const step of STEPS.filter(candidate => candidate.from === format && !chains.has(candidate.to))) {
+      chains.set(step.to, [...chains.get(format)!, step.to]);
+      queue.push(step.to);
+    }
+  }
+
+  const chain = chains.get(to);
+  if (!chain) {
+    throw new ValidationError(`No conversion from ${from} to ${to}`);
+  }
+  return chain;
+}
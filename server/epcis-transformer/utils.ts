@@ -2,7 +2,16 @@ import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
 import https from 'https';
-import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { DOMParser, XMLSerializer, onErrorStopParsing } from '@xmldom/xmldom';
+import { isEpcisElement } from './namespaces';
+import type { ValidationIssue, JsonLdValidationIssue } from '@shared/schema';
+
+type XmlDomDocument = import('@xmldom/xmldom').Document;
+type XmlDomNode = import('@xmldom/xmldom').Node;
+type XmlDomElement = import('@xmldom/xmldom').Element;
+
+export const ELEMENT_NODE = 1;
+export const TEXT_NODE = 3;
 
 const writeFile = promisify(fs.writeFile);
 const readFile = promisify(fs.readFile);
@@ -10,11 +19,14 @@ const readFile = promisify(fs.readFile);
 // Error types for better error handling
 export class ValidationError extends Error {
   code: string;
+  // Individual schema validation problems, empty when the error is not about schema validity
+  errors: Array<ValidationIssue | JsonLdValidationIssue>;
   
-  constructor(message: string) {
+  constructor(message: string, errors: Array<ValidationIssue | JsonLdValidationIssue> = []) {
     super(message);
     this.name = 'ValidationError';
     this.code = 'INVALID_XML';
+    this.errors = errors;
   }
 }
 
@@ -29,25 +41,102 @@ export class TransformationError extends Error {
 }
 
 /**
- * Validates if the provided string is valid XML
+ * Validates if the provided string is well-formed XML.
+ * See validateEpcisXml in schema-validator.ts for validation against the EPCIS schemas.
  */
 export function validateXml(xml: string): boolean {
   try {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, 'application/xml');
-    
-    // Check for parsing errors
-    const errors = doc.getElementsByTagName('parsererror');
-    if (errors.length > 0) {
-      return false;
-    }
-    
+    parseXml(xml);
     return true;
   } catch (error) {
     return false;
   }
 }
 
+/**
+ * Parses an XML document, stopping at the first error. Malformed XML is rejected with a
+ * ValidationError quoting the parser's message.
+ */
+export function parseXml(xml: string): XmlDomDocument {
+  try {
+    return new DOMParser({ onError: onErrorStopParsing }).parseFromString(xml, 'application/xml');
+  } catch (error) {
+    throw new ValidationError(`XML parsing failed: ${(error as Error).message.split('\n')[0].trim()}`);
+  }
+}
+
+/**
+ * The child elements of an element, leaving out text, comments and other nodes
+ */
+export function childElements(element: XmlDomElement): XmlDomElement[] {
+  return Array.from(element.childNodes).filter(child => child.nodeType === ELEMENT_NODE) as XmlDomElement[];
+}
+
+/**
+ * Calls visit on an element and every element below it, each element before its children
+ */
+export function forEachElement(root: XmlDomElement, visit: (element: XmlDomElement) => void): void {
+  visit(root);
+  childElements(root).forEach(child => forEachElement(child, visit));
+}
+
+/**
+ * The child elements of an element with the 1.2 extension and baseExtension wrappers removed.
+ * EPCIS 1.2 nests fields added in later versions one extension level deeper each time,
+ * so wrappers are unwrapped recursively.
+ */
+export function fieldElements(element: XmlDomElement): XmlDomElement[] {
+  return childElements(element).flatMap(child =>
+    isEpcisElement(child, 'extension') || isEpcisElement(child, 'baseExtension') ? fieldElements(child) : [child]
+  );
+}
+
+/**
+ * Re-indents an element tree in place. Whitespace-only text between elements is replaced,
+ * text content of leaf elements is left untouched.
+ */
+export function indentElement(element: XmlDomElement, depth: number = 0): void {
+  const children = Array.from(element.childNodes);
+  const hasContent = children.some(child => child.nodeType === TEXT_NODE && (child.nodeValue || '').trim() !== '');
+  if (hasContent || !children.some(child => child.nodeType !== TEXT_NODE)) {
+    return;
+  }
+
+  const doc = element.ownerDocument!;
+  children.forEach(child => {
+    if (child.nodeType === TEXT_NODE) {
+      element.removeChild(child);
+      return;
+    }
+    element.insertBefore(doc.createTextNode('\n' + '  '.repeat(depth + 1)), child);
+    if (child.nodeType === ELEMENT_NODE) {
+      indentElement(child as XmlDomElement, depth + 1);
+    }
+  });
+  element.appendChild(doc.createTextNode('\n' + '  '.repeat(depth)));
+}
+
+/**
+ * Builds the XPath of an element with the names as written in the document, indexing steps
+ * whose element has siblings of the same name
+ */
+export function getXPath(element: XmlDomElement): string {
+  const steps: string[] = [];
+  let current: XmlDomNode | null = element;
+
+  while (current && current.nodeType === ELEMENT_NODE) {
+    const name = current.nodeName;
+    const parent: XmlDomNode | null = current.parentNode;
+    const siblings = parent && parent.nodeType === ELEMENT_NODE
+      ? Array.from(parent.childNodes).filter(sibling => sibling.nodeType === ELEMENT_NODE && sibling.nodeName === name)
+      : [];
+    steps.unshift(siblings.length > 1 ? `${name}[${siblings.indexOf(current) + 1}]` : name);
+    current = parent;
+  }
+
+  return '/' + steps.join('/');
+}
+
 /**
  * Formats XML string with proper indentation
  */
@@ -1,120 +1,747 @@
+import fs from 'fs';
+import path from 'path';
 import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
-import { ValidationError, TransformationError, validateXml } from './utils';
-import type { XmlTransformOptions } from '@shared/schema';
+import SaxonJS from 'saxon-js';
+import { ValidationError, TransformationError, parseXml, childElements, fieldElements, indentElement, ELEMENT_NODE } from './utils';
+import { EVENT_FIELDS, REQUIRED_EVENT_FIELDS } from './epcis-fields';
+import { assertValidEpcisXml } from './schema-validator';
+import { assertValidEpcs } from './epc-uri';
+import { rewriteIdentifiers } from './digital-link';
+import { normalizeCbvValues } from './cbv';
+import { assignEventIds, readEpcisXml } from './json-converter';
+import { buildEpcisXml } from './xml-writer';
+import { detectEpcisVersion, upgradeToEpcis12 } from './epcis-versions';
+import {
+  EPCIS_1_NAMESPACE,
+  EPCIS_2_NAMESPACE,
+  SBDH_NAMESPACE,
+  isElementNS,
+  isEpcisDocument,
+  isEpcisElement,
+  isEpcisNamespace,
+  isExtensionElement,
+  getPreferredPrefix
+} from './namespaces';
+import type {
+  XmlTransformOptions,
+  Xml12TransformOptions,
+  ConversionWarning,
+  XmlConversionResult
+} from '@shared/schema';
+
+// Precompiled form of xslt/convert-1.2-to-2.0.xsl, regenerate with `npm run xslt:compile`
+const XSLT_SEF_PATH = path.resolve(import.meta.dirname, 'xslt', 'convert-1.2-to-2.0.sef.json');
+
+let compiledStylesheet: Record<string, any> | null = null;
+
+type XmlDomNode = import('@xmldom/xmldom').Node;
+type XmlDomElement = import('@xmldom/xmldom').Element;
+type XmlDomDocument = import('@xmldom/xmldom').Document;
+
+// Fields of each event type in EPCIS 1.2 schema order, split into those written directly
+// on the event and those wrapped in the event's extension element
+const EPCIS12_EVENT_FIELDS: Record<string, { fields: string[]; extension: string[] }> = {
+  ObjectEvent: {
+    fields: ['epcList', 'action', 'bizStep', 'disposition', 'readPoint', 'bizLocation', 'bizTransactionList'],
+    extension: ['quantityList', 'sourceList', 'destinationList', 'ilmd']
+  },
+  AggregationEvent: {
+    fields: [
+      'parentID', 'childEPCs', 'action', 'bizStep', 'disposition', 'readPoint', 'bizLocation', 'bizTransactionList'
+    ],
+    extension: ['childQuantityList', 'sourceList', 'destinationList']
+  },
+  TransactionEvent: {
+    fields: [
+      'bizTransactionList', 'parentID', 'epcList', 'action', 'bizStep', 'disposition', 'readPoint', 'bizLocation'
+    ],
+    extension: ['quantityList', 'sourceList', 'destinationList']
+  },
+  TransformationEvent: {
+    fields: [
+      'inputEPCList', 'inputQuantityList', 'outputEPCList', 'outputQuantityList', 'transformationID', 'bizStep',
+      'disposition', 'readPoint', 'bizLocation', 'bizTransactionList', 'sourceList', 'destinationList', 'ilmd'
+    ],
+    extension: []
+  }
+};
+
+// EPCIS 1.2 keeps these base fields on the event and moves the rest into baseExtension
+const EPCIS12_BASE_FIELDS = ['eventTime', 'recordTime', 'eventTimeZoneOffset'];
+const EPCIS12_BASE_EXTENSION_FIELDS = ['eventID', 'errorDeclaration'];
+
+const COMMENT_NODE = 8;
+
+/**
+ * Copies attributes to an element of the new document, dropping declarations of EPCIS namespaces
+ * since EPCIS elements are written unqualified
+ */
+function copyAttributes(source: XmlDomElement, target: XmlDomElement): void {
+  for (const attr of Array.from(source.attributes)) {
+    const isDeclaration = attr.name === 'xmlns' || attr.prefix === 'xmlns';
+    if (!(isDeclaration && isEpcisNamespace(attr.value))) {
+      target.setAttributeNS(attr.namespaceURI, attr.name, attr.value);
+    }
+  }
+}
+
+/**
+ * Creates an empty copy of an element in the new document. Elements in an EPCIS namespace
+ * (e.g. from a default-namespaced document) become unqualified, others keep their namespace.
+ */
+function copyElement(element: XmlDomElement, newDoc: XmlDomDocument): XmlDomElement {
+  const copy = isEpcisNamespace(element.namespaceURI)
+    ? newDoc.createElement(element.localName || element.nodeName)
+    : newDoc.createElementNS(element.namespaceURI, element.nodeName);
+  copyAttributes(element, copy);
+  return copy;
+}
+
+/**
+ * Imports a node tree into the new document, copying elements with copyElement
+ */
+function importNode(node: XmlDomNode, newDoc: XmlDomDocument): XmlDomNode {
+  if (node.nodeType !== ELEMENT_NODE) {
+    return newDoc.importNode(node, true);
+  }
+  const copy = copyElement(node as XmlDomElement, newDoc);
+  Array.from(node.childNodes).forEach(child => copy.appendChild(importNode(child, newDoc)));
+  return copy;
+}
+
+/**
+ * Removes every comment from a node tree
+ */
+export function removeComments(node: XmlDomNode): void {
+  Array.from(node.childNodes).forEach(child => {
+    if (child.nodeType === COMMENT_NODE) {
+      node.removeChild(child);
+    } else {
+      removeComments(child);
+    }
+  });
+}
+
+/**
+ * Lists the comments that belong to an element so they can move with it: the comments between it
+ * and the previous element and, for the last element of its parent, the comments after it.
+ * Comments on a 1.2 extension wrapper go with its first and last fields once the wrapper is removed.
+ */
+function attachedComments(element: XmlDomElement): { before: XmlDomNode[]; after: XmlDomNode[] } {
+  const parent = element.parentNode as XmlDomElement | null;
+  const isWrapped = !!parent && (isEpcisElement(parent, 'extension') || isEpcisElement(parent, 'baseExtension'));
+
+  const before: XmlDomNode[] = [];
+  let sibling = element.previousSibling;
+  for (; sibling && sibling.nodeType !== ELEMENT_NODE; sibling = sibling.previousSibling) {
+    if (sibling.nodeType === COMMENT_NODE) before.unshift(sibling);
+  }
+  if (!sibling && isWrapped) before.unshift(...attachedComments(parent!).before);
+
+  const after: XmlDomNode[] = [];
+  sibling = element.nextSibling;
+  for (; sibling && sibling.nodeType !== ELEMENT_NODE; sibling = sibling.nextSibling) {
+    if (sibling.nodeType === COMMENT_NODE) after.push(sibling);
+  }
+  if (sibling) return { before, after: [] };
+  if (isWrapped) after.push(...attachedComments(parent!).after);
+
+  return { before, after };
+}
+
+/**
+ * Appends the converted form of a source element together with the source element's comments
+ */
+function appendWithComments(parent: XmlDomElement, source: XmlDomElement, node: XmlDomNode): void {
+  const doc = parent.ownerDocument!;
+  const { before, after } = attachedComments(source);
+  before.forEach(comment => parent.appendChild(doc.importNode(comment, true)));
+  parent.appendChild(node);
+  after.forEach(comment => parent.appendChild(doc.importNode(comment, true)));
+}
+
+/**
+ * Copies the comments outside the document element, keeping them on their side of it
+ */
+function copyDocumentComments(doc: XmlDomDocument, newDoc: XmlDomDocument): void {
+  let beforeRoot = true;
+  Array.from(doc.childNodes).forEach(node => {
+    if (node === doc.documentElement) {
+      beforeRoot = false;
+    } else if (node.nodeType === COMMENT_NODE) {
+      const comment = newDoc.importNode(node, true);
+      if (beforeRoot) {
+        newDoc.insertBefore(comment, newDoc.documentElement);
+      } else {
+        newDoc.appendChild(comment);
+      }
+    }
+  });
+}
+
+/**
+ * Converts the EPCISHeader into the 2.0 layout: the SBDH first, then master data moved
+ * from extension/EPCISMasterData to epcisMasterData, then any other header elements
+ */
+function convertHeader(header: XmlDomElement, newDoc: XmlDomDocument): XmlDomElement {
+  const newHeader = newDoc.createElement('EPCISHeader');
+  copyAttributes(header, newHeader);
+
+  const fields = fieldElements(header);
+  const isSbdh = (field: XmlDomElement) => isElementNS(field, SBDH_NAMESPACE, 'StandardBusinessDocumentHeader');
+  const isMasterData = (field: XmlDomElement) =>
+    isEpcisElement(field, 'EPCISMasterData') || isEpcisElement(field, 'epcisMasterData');
+
+  fields.filter(isSbdh).forEach(field => appendWithComments(newHeader, field, importNode(field, newDoc)));
+  fields.filter(isMasterData).forEach(field => {
+    const masterData = newDoc.createElement('epcisMasterData');
+    fieldElements(field).forEach(child =>
+      appendWithComments(masterData, child, importWithoutExtensions(child, newDoc))
+    );
+    appendWithComments(newHeader, field, masterData);
+  });
+  fields
+    .filter(field => !isSbdh(field) && !isMasterData(field))
+    .forEach(field => appendWithComments(newHeader, field, importNode(field, newDoc)));
+
+  return newHeader;
+}
 
 /**
- * Converts EPCIS 1.2 XML to EPCIS 2.0 XML
+ * Imports an element tree, replacing every 1.2 extension wrapper inside it with its children
+ */
+function importWithoutExtensions(element: XmlDomElement, newDoc: XmlDomDocument): XmlDomNode {
+  const copy = copyElement(element, newDoc);
+  for (const child of unwrapExtensions(element)) {
+    copy.appendChild(
+      child.nodeType === ELEMENT_NODE
+        ? importWithoutExtensions(child as XmlDomElement, newDoc)
+        : importNode(child, newDoc)
+    );
+  }
+  return copy;
+}
+
+/**
+ * Lists the child nodes of an element with 1.2 extension wrappers replaced by their content,
+ * keeping comments and text in place
+ */
+function unwrapExtensions(element: XmlDomElement): XmlDomNode[] {
+  return Array.from(element.childNodes).flatMap(child =>
+    isEpcisElement(child, 'extension') ? unwrapExtensions(child as XmlDomElement) : [child]
+  );
+}
+
+/**
+ * Converts the EPCISBody, merging all EventLists into one and unwrapping
+ * TransformationEvent and AssociationEvent from their 1.2 extension elements
+ */
+function convertBody(body: XmlDomElement, newDoc: XmlDomDocument): XmlDomElement {
+  const newBody = newDoc.createElement('EPCISBody');
+  let newEventList: XmlDomElement | null = null;
+
+  for (const child of childElements(body)) {
+    if (isEpcisElement(child, 'EventList')) {
+      if (!newEventList) {
+        newEventList = newDoc.createElement('EventList');
+        appendWithComments(newBody, child, newEventList);
+      } else {
+        // Comments before a merged EventList are kept inside the single EventList
+        const eventList = newEventList;
+        attachedComments(child).before.forEach(comment => eventList.appendChild(newDoc.importNode(comment, true)));
+      }
+      for (const event of collectEvents(child)) {
+        appendWithComments(newEventList, event, convertEvent(event, newDoc));
+      }
+    } else if (isEpcisElement(child, 'extension')) {
+      childElements(child).forEach(node => appendWithComments(newBody, node, importNode(node, newDoc)));
+    } else {
+      appendWithComments(newBody, child, importNode(child, newDoc));
+    }
+  }
+
+  return newBody;
+}
+
+/**
+ * Lists the events of an EventList in document order, descending into 1.2 extension wrappers
+ */
+function collectEvents(eventList: XmlDomElement): XmlDomElement[] {
+  return childElements(eventList).flatMap(child =>
+    isEpcisElement(child, 'extension') ? collectEvents(child) : [child]
+  );
+}
+
+/**
+ * Converts a single event, putting its fields into EPCIS 2.0 order.
+ * User extension elements keep their relative order and follow the standard fields.
+ */
+function convertEvent(event: XmlDomElement, newDoc: XmlDomDocument): XmlDomNode {
+  const eventType = event.localName || '';
+  const fieldOrder = EVENT_FIELDS[eventType];
+  if (isExtensionElement(event) || !fieldOrder) {
+    return importNode(event, newDoc);
+  }
+
+  const newEvent = newDoc.createElement(eventType);
+  copyAttributes(event, newEvent);
+
+  const fields = fieldElements(event);
+  const standardFields = fields.filter(field => !isExtensionElement(field) && fieldOrder.includes(field.localName || ''));
+  const otherFields = fields.filter(field => !standardFields.includes(field));
+  const requiredFields = REQUIRED_EVENT_FIELDS[eventType] || [];
+
+  for (const name of fieldOrder) {
+    const matches = standardFields.filter(field => field.localName === name);
+    if (matches.length === 0 && requiredFields.includes(name)) {
+      newEvent.appendChild(newDoc.createElement(name));
+    }
+    for (const field of matches) {
+      appendWithComments(
+        newEvent,
+        field,
+        name === 'errorDeclaration' ? convertErrorDeclaration(field, newDoc) : importNode(field, newDoc)
+      );
+    }
+  }
+  otherFields.forEach(field => appendWithComments(newEvent, field, importNode(field, newDoc)));
+
+  return newEvent;
+}
+
+/**
+ * Converts an errorDeclaration, unwrapping its 1.2 extension element
+ */
+function convertErrorDeclaration(errorDeclaration: XmlDomElement, newDoc: XmlDomDocument): XmlDomElement {
+  const newErrorDeclaration = newDoc.createElement('errorDeclaration');
+  copyAttributes(errorDeclaration, newErrorDeclaration);
+  fieldElements(errorDeclaration).forEach(field =>
+    appendWithComments(newErrorDeclaration, field, importNode(field, newDoc))
+  );
+  return newErrorDeclaration;
+}
+
+/**
+ * Converts EPCIS 1.2 XML to EPCIS 2.0 XML by running the bundled XSLT through SaxonJS
+ */
+function convertWithXslt(xml: string): string {
+  if (!compiledStylesheet) {
+    compiledStylesheet = JSON.parse(fs.readFileSync(XSLT_SEF_PATH, 'utf8')) as Record<string, any>;
+  }
+
+  const result = SaxonJS.transform({
+    stylesheetInternal: compiledStylesheet,
+    sourceText: xml,
+    destination: 'serialized'
+  }, 'sync');
+
+  return result.principalResult as string;
+}
+
+/**
+ * Converts EPCIS 1.x XML to EPCIS 2.0 XML
  * 
- * This is a simplified implementation that handles the most common conversion cases
- * In a production environment, a proper XSLT processor should be used
+ * The local engine is a simplified implementation that handles the most common conversion cases.
+ * Set `engine: 'xslt'` to run the bundled GS1 stylesheet instead.
  */
 export async function convertToEpcis20Xml(
   xml: string, 
-  options: XmlTransformOptions = { validateXml: false, preserveComments: false }
+  options: XmlTransformOptions = { validateXml: false, preserveComments: false, validateEpcs: false }
 ): Promise<string> {
   try {
-    // Validate XML if option is enabled
-    if (options.validateXml && !validateXml(xml)) {
-      throw new ValidationError('Invalid EPCIS 1.2 XML document');
+    // Validate the input against its EPCIS schema if option is enabled
+    if (options.validateXml) {
+      await assertValidEpcisXml(xml, 'Input document');
     }
     
-    console.log('Starting manual XML transformation');
+    logConversionStart(options);
+    const result = runEpcis20Conversion(xml, options);
     
-    // Parse input XML
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, 'application/xml');
-    
-    // Check for parsing errors
-    const errors = doc.getElementsByTagName('parsererror');
-    if (errors.length > 0) {
-      throw new ValidationError('XML parsing failed: ' + (errors[0].textContent || 'Unknown error'));
+    // Check the converted document against the EPCIS 2.0 schema before handing it out
+    if (options.validateXml) {
+      await assertValidEpcisXml(result, 'Converted document');
     }
     
-    // Get root element
-    const rootElement = doc.documentElement;
-    if (!rootElement) {
-      throw new ValidationError('Invalid XML document: no root element');
+    return result;
+  } catch (error) {
+    throw toConversionError(error);
+  }
+}
+
+/**
+ * Synchronous version of the converter, giving the same output. Schema validation runs xmllint
+ * in a worker thread and is only available through convertToEpcis20Xml.
+ */
+export function convertToEpcis20XmlSync(
+  xml: string, 
+  options: XmlTransformOptions = { validateXml: false, preserveComments: false, validateEpcs: false }
+): string {
+  if (options.validateXml) {
+    throw new TransformationError('Schema validation is asynchronous, use convertToEpcis20Xml for validateXml');
+  }
+  try {
+    logConversionStart(options);
+    return runEpcis20Conversion(xml, options);
+  } catch (error) {
+    throw toConversionError(error);
+  }
+}
+
+/**
+ * Parses EPCIS XML and brings 1.0 and 1.1 documents up to 1.2, the layouts the converters and
+ * the reader of the object model take
+ */
+export function upgradeEpcisXml(
+  xml: string,
+  options: Pick<XmlTransformOptions, 'onWarning' | 'onSourceVersion'>
+): { doc: XmlDomDocument; isUpgraded: boolean } {
+  const doc = parseXml(xml);
+  const sourceVersion = doc.documentElement ? detectEpcisVersion(doc.documentElement) : null;
+  if (sourceVersion) {
+    options.onSourceVersion?.(sourceVersion);
+  }
+  const upgradeWarnings = sourceVersion ? upgradeToEpcis12(doc.documentElement!, sourceVersion) : [];
+  upgradeWarnings.forEach(warning => options.onWarning?.(warning));
+  return { doc, isUpgraded: sourceVersion === '1.0' || sourceVersion === '1.1' || upgradeWarnings.length > 0 };
+}
+
+/**
+ * The conversion to EPCIS 2.0 shared by the asynchronous and synchronous converters, everything
+ * but the schema validation and the progress logging. The streaming converter runs it once per event.
+ *
+ * The local engine reads the document into the object model and writes it back out, as parseEpcis
+ * and serializeEpcis do. Kept comments have no place in the model, so with preserveComments the
+ * document is restructured in place and the comments move with their elements.
+ */
+export function runEpcis20Conversion(xml: string, options: XmlTransformOptions): string {
+  // EPCIS 1.0 and 1.1 documents are brought up to 1.2 before the conversion to 2.0
+  const { doc, isUpgraded } = upgradeEpcisXml(xml, options);
+  
+  if (options.validateEpcs && doc.documentElement) {
+    assertValidEpcs(doc.documentElement, 'Input document');
+  }
+  
+  // Comments are dropped unless asked for
+  if (!options.preserveComments) {
+    removeComments(doc);
+  }
+  
+  if (options.identifierFormat && doc.documentElement) {
+    rewriteIdentifiers(doc.documentElement, options);
+  }
+  
+  // CBV values are kept as written unless a form is asked for
+  if (options.cbvFormat && doc.documentElement) {
+    normalizeCbvValues(doc.documentElement, options.cbvFormat).forEach(warning => options.onWarning?.(warning));
+  }
+  
+  // The stylesheet reads the input as written unless comments were removed or the document changed
+  const isRewritten = isUpgraded || !!options.identifierFormat || !!options.cbvFormat;
+  let result: string;
+  if (options.engine === 'xslt') {
+    result = convertWithXslt(options.preserveComments && !isRewritten ? xml : new XMLSerializer().serializeToString(doc));
+  } else if (options.preserveComments) {
+    result = convertDocument(doc);
+  } else {
+    const root = getEpcisRoot(doc);
+    const { xml: converted, warnings } = buildEpcisXml(readEpcisXml(root, options.onWarning), getDeclaredNamespaces(root));
+    warnings.forEach(warning => options.onWarning?.(warning));
+    result = converted;
+  }
+  
+  // Event hashes are taken from the EPCIS 2.0 form of the events
+  if (options.assignEventIds) {
+    const convertedDoc = new DOMParser().parseFromString(result, 'application/xml');
+    assignEventIds(convertedDoc.documentElement!);
+    result = new XMLSerializer().serializeToString(convertedDoc);
+  }
+  
+  return result;
+}
+
+function logConversionStart(options: XmlTransformOptions): void {
+  if (options.engine !== 'xslt') {
+    console.log('Starting manual XML transformation');
+  }
+}
+
+/**
+ * Passes validation and transformation errors on as they are, wrapping anything else
+ */
+export function toConversionError(error: unknown): Error {
+  if (error instanceof ValidationError || error instanceof TransformationError) {
+    return error;
+  }
+  return new TransformationError(`Failed to convert XML: ${(error as Error).message}`);
+}
+
+/**
+ * Gets the document element of a parsed document, checking that it is an EPCISDocument
+ * whatever prefix or default namespace it uses
+ */
+function getEpcisRoot(doc: XmlDomDocument): XmlDomElement {
+  const rootElement = doc.documentElement;
+  if (!rootElement) {
+    throw new ValidationError('Invalid XML document: no root element');
+  }
+  if (!isEpcisDocument(rootElement)) {
+    throw new ValidationError('Not an EPCIS document');
+  }
+  return rootElement;
+}
+
+/**
+ * Lists the namespaces other than EPCIS declared on the document element, by the prefix the
+ * object model gives them. They stay declared on the converted document, where the events the
+ * streaming converter converts one by one find them.
+ */
+function getDeclaredNamespaces(root: XmlDomElement): Record<string, string> {
+  const namespaces: Record<string, string> = {};
+  for (const attr of Array.from(root.attributes)) {
+    if (attr.prefix === 'xmlns' && !isEpcisNamespace(attr.value)) {
+      namespaces[getPreferredPrefix(attr.value, attr.localName) || attr.localName!] = attr.value;
     }
+  }
+  return namespaces;
+}
+
+/**
+ * Restructures a parsed EPCIS 1.2 document into EPCIS 2.0 XML keeping its comments
+ */
+function convertDocument(doc: XmlDomDocument): string {
+  const parser = new DOMParser();
+  
+  const rootElement = getEpcisRoot(doc);
+  
+  // Update root element namespace
+  if (rootElement.namespaceURI === EPCIS_1_NAMESPACE) {
+    // Create a new document with the updated namespace
+    const newXmlString = '<?xml version="1.0" encoding="UTF-8"?><epcis:EPCISDocument xmlns:epcis="' + EPCIS_2_NAMESPACE + '"></epcis:EPCISDocument>';
+    const newDoc = parser.parseFromString(newXmlString, 'application/xml');
     
-    // Check if this is an EPCIS document
-    if (rootElement.nodeName !== 'epcis:EPCISDocument' && 
-        rootElement.nodeName !== 'EPCISDocument') {
-      throw new ValidationError('Not an EPCIS document');
+    // Safety check for new document
+    const newRoot = newDoc.documentElement;
+    if (!newRoot) {
+      throw new ValidationError('Failed to create new document with updated namespace');
     }
     
-    // Update namespace and schema version
-    const oldNamespace = 'urn:epcglobal:epcis:xsd:1';
-    const newNamespace = 'urn:epcglobal:epcis:xsd:2';
-    
-    // Update root element namespace
-    if (rootElement.namespaceURI === oldNamespace) {
-      // Create a new document with the updated namespace
-      const newXmlString = '<?xml version="1.0" encoding="UTF-8"?><epcis:EPCISDocument xmlns:epcis="' + newNamespace + '"></epcis:EPCISDocument>';
-      const newDoc = parser.parseFromString(newXmlString, 'application/xml');
-      
-      // Safety check for new document
-      const newRoot = newDoc.documentElement;
-      if (!newRoot) {
-        throw new ValidationError('Failed to create new document with updated namespace');
+    // Copy attributes from old root to new root, except the EPCIS 1.x namespace declaration
+    copyAttributes(rootElement, newRoot);
+    
+    // Set schema version to 2.0
+    newRoot.setAttribute('schemaVersion', '2.0');
+    
+    // Copy children, moving EPCIS 1.2 extension constructs into their 2.0 positions
+    Array.from(rootElement.childNodes).forEach(child => {
+      if (isEpcisElement(child, 'EPCISHeader')) {
+        newRoot.appendChild(convertHeader(child as XmlDomElement, newDoc));
+      } else if (isEpcisElement(child, 'EPCISBody')) {
+        newRoot.appendChild(convertBody(child as XmlDomElement, newDoc));
+      } else {
+        newRoot.appendChild(importNode(child, newDoc));
       }
-      
-      // Copy attributes from old root to new root
-      for (let i = 0; i < rootElement.attributes.length; i++) {
-        const attr = rootElement.attributes[i];
-        if (attr.name === 'xmlns:epcis') {
-          // Skip this attribute as we've already set it
-          continue;
-        } else {
-          newRoot.setAttribute(attr.name, attr.value);
-        }
+    });
+    indentElement(newRoot);
+    copyDocumentComments(doc, newDoc);
+    
+    // Serialize to string
+    const serializer = new XMLSerializer();
+    return serializer.serializeToString(newDoc);
+  } else {
+    // Just update the schema version attribute
+    rootElement.setAttribute('schemaVersion', '2.0');
+    
+    // Serialize to string
+    const serializer = new XMLSerializer();
+    return serializer.serializeToString(doc);
+  }
+}
+
+/**
+ * Converts the EPCISHeader into the 1.2 layout: the SBDH, then master data wrapped
+ * in extension/EPCISMasterData, then any other header elements
+ */
+function downgradeHeader(header: XmlDomElement, newDoc: XmlDomDocument): XmlDomElement {
+  const newHeader = newDoc.createElement('EPCISHeader');
+  copyAttributes(header, newHeader);
+
+  const fields = childElements(header);
+  const isSbdh = (field: XmlDomElement) => isElementNS(field, SBDH_NAMESPACE, 'StandardBusinessDocumentHeader');
+  const isMasterData = (field: XmlDomElement) => isEpcisElement(field, 'epcisMasterData');
+
+  fields.filter(isSbdh).forEach(field => appendWithComments(newHeader, field, importNode(field, newDoc)));
+  fields.filter(isMasterData).forEach(field => {
+    const extension = newDoc.createElement('extension');
+    const masterData = newDoc.createElement('EPCISMasterData');
+    Array.from(field.childNodes).forEach(child => masterData.appendChild(importNode(child, newDoc)));
+    extension.appendChild(masterData);
+    appendWithComments(newHeader, field, extension);
+  });
+  fields
+    .filter(field => !isSbdh(field) && !isMasterData(field))
+    .forEach(field => appendWithComments(newHeader, field, importNode(field, newDoc)));
+
+  return newHeader;
+}
+
+/**
+ * Converts the EPCISBody into the 1.2 layout, wrapping each TransformationEvent in an
+ * EventList extension element. AssociationEvents have no 1.2 equivalent and are reported.
+ */
+function downgradeBody(body: XmlDomElement, newDoc: XmlDomDocument, warnings: ConversionWarning[]): XmlDomElement {
+  const newBody = newDoc.createElement('EPCISBody');
+
+  for (const child of childElements(body)) {
+    if (!isEpcisElement(child, 'EventList')) {
+      appendWithComments(newBody, child, importNode(child, newDoc));
+      continue;
+    }
+
+    const newEventList = newDoc.createElement('EventList');
+    const eventCounts: Record<string, number> = {};
+    for (const event of childElements(child)) {
+      const eventType = event.localName || event.nodeName;
+      eventCounts[eventType] = (eventCounts[eventType] || 0) + 1;
+      const eventPath = `EPCISBody/EventList/${eventType}[${eventCounts[eventType]}]`;
+
+      if (isEpcisElement(event, 'AssociationEvent')) {
+        warnings.push({ path: eventPath, message: 'AssociationEvent has no EPCIS 1.2 equivalent and was left out' });
+      } else if (isEpcisElement(event, 'TransformationEvent')) {
+        const extension = newDoc.createElement('extension');
+        extension.appendChild(downgradeEvent(event, newDoc, eventPath, warnings));
+        appendWithComments(newEventList, event, extension);
+      } else if (!isExtensionElement(event) && EPCIS12_EVENT_FIELDS[eventType]) {
+        appendWithComments(newEventList, event, downgradeEvent(event, newDoc, eventPath, warnings));
+      } else {
+        appendWithComments(newEventList, event, importNode(event, newDoc));
       }
-      
-      // Set schema version to 2.0
-      newRoot.setAttribute('schemaVersion', '2.0');
-      
-      // Copy children
-      Array.from(rootElement.childNodes).forEach(child => {
-        const importedNode = newDoc.importNode(child, true);
-        newRoot.appendChild(importedNode);
-      });
-      
-      // Serialize to string
-      const serializer = new XMLSerializer();
-      return serializer.serializeToString(newDoc);
-    } else {
-      // Just update the schema version attribute
-      rootElement.setAttribute('schemaVersion', '2.0');
-      
-      // Serialize to string
-      const serializer = new XMLSerializer();
-      return serializer.serializeToString(doc);
     }
-  } catch (error) {
-    // Re-throw validation and transformation errors as they are already handled
-    if (error instanceof ValidationError || error instanceof TransformationError) {
-      throw error;
+    appendWithComments(newBody, child, newEventList);
+  }
+
+  return newBody;
+}
+
+/**
+ * Converts a single event into the 1.2 layout: base fields, baseExtension, the event's own
+ * fields, then its extension. User extension elements follow the standard fields.
+ */
+function downgradeEvent(
+  event: XmlDomElement,
+  newDoc: XmlDomDocument,
+  eventPath: string,
+  warnings: ConversionWarning[]
+): XmlDomElement {
+  const eventType = event.localName || event.nodeName;
+  const layout = EPCIS12_EVENT_FIELDS[eventType];
+  const newEvent = newDoc.createElement(eventType);
+  copyAttributes(event, newEvent);
+
+  const fields = childElements(event);
+  const standardFields = fields.filter(field => !isExtensionElement(field));
+  const appendFields = (parent: XmlDomElement, names: string[]) => {
+    for (const name of names) {
+      standardFields
+        .filter(field => field.localName === name)
+        .forEach(field => appendWithComments(parent, field, importNode(field, newDoc)));
     }
-    
-    // Wrap other errors in a transformation error
-    throw new TransformationError(`Failed to convert XML: ${(error as Error).message}`);
+  };
+  const hasAny = (names: string[]) => standardFields.some(field => names.includes(field.localName || ''));
+
+  appendFields(newEvent, EPCIS12_BASE_FIELDS);
+  if (hasAny(EPCIS12_BASE_EXTENSION_FIELDS)) {
+    const baseExtension = newDoc.createElement('baseExtension');
+    appendFields(baseExtension, EPCIS12_BASE_EXTENSION_FIELDS);
+    newEvent.appendChild(baseExtension);
   }
+  appendFields(newEvent, layout.fields);
+  if (hasAny(layout.extension)) {
+    const extension = newDoc.createElement('extension');
+    appendFields(extension, layout.extension);
+    newEvent.appendChild(extension);
+  }
+
+  const representable = [
+    ...EPCIS12_BASE_FIELDS, ...EPCIS12_BASE_EXTENSION_FIELDS, ...layout.fields, ...layout.extension
+  ];
+  standardFields
+    .filter(field => !representable.includes(field.localName || ''))
+    .forEach(field => warnings.push({
+      path: `${eventPath}/${field.localName}`,
+      message: `${field.localName} has no EPCIS 1.2 equivalent on ${eventType} and was left out`
+    }));
+
+  fields
+    .filter(field => isExtensionElement(field))
+    .forEach(field => appendWithComments(newEvent, field, importNode(field, newDoc)));
+
+  return newEvent;
 }
 
 /**
- * Synchronous version of the converter
+ * Converts EPCIS 2.0 XML to EPCIS 1.2 XML
+ * 
+ * Fields introduced after 1.0 are moved back into the 1.2 extension and baseExtension wrappers.
+ * Data EPCIS 1.2 cannot represent, such as sensorElementList, certificationInfo or AssociationEvent,
+ * is left out of the document and listed in the returned warnings.
  */
-export function convertToEpcis20XmlSync(
-  xml: string, 
-  options: XmlTransformOptions = { validateXml: false, preserveComments: false }
-): string {
-  // We can directly use the async version since our implementation is actually synchronous
-  // In a real implementation with proper XSLT processing, we would need different code here
+export async function convertToEpcis12Xml(
+  xml: string,
+  options: Xml12TransformOptions = { validateXml: false, preserveComments: false }
+): Promise<XmlConversionResult> {
   try {
-    return convertToEpcis20Xml(xml, options) as unknown as string;
+    // Validate the input against its EPCIS schema if option is enabled
+    if (options.validateXml) {
+      await assertValidEpcisXml(xml, 'Input document');
+    }
+    
+    const doc = parseXml(xml);
+    if (!options.preserveComments) {
+      removeComments(doc);
+    }
+    
+    const rootElement = doc.documentElement;
+    if (!rootElement || !isEpcisDocument(rootElement)) {
+      throw new ValidationError('Not an EPCIS document');
+    }
+    if (rootElement.namespaceURI !== EPCIS_2_NAMESPACE) {
+      throw new ValidationError('Not an EPCIS 2.0 document');
+    }
+    
+    console.log('Starting manual XML downgrade');
+    
+    // Create a new document with the 1.2 namespace
+    const newXmlString = '<?xml version="1.0" encoding="UTF-8"?><epcis:EPCISDocument xmlns:epcis="' + EPCIS_1_NAMESPACE + '"></epcis:EPCISDocument>';
+    const newDoc = parseXml(newXmlString);
+    const newRoot = newDoc.documentElement!;
+    copyAttributes(rootElement, newRoot);
+    newRoot.setAttribute('schemaVersion', '1.2');
+    
+    const warnings: ConversionWarning[] = [];
+    Array.from(rootElement.childNodes).forEach(child => {
+      if (isEpcisElement(child, 'EPCISHeader')) {
+        newRoot.appendChild(downgradeHeader(child as XmlDomElement, newDoc));
+      } else if (isEpcisElement(child, 'EPCISBody')) {
+        newRoot.appendChild(downgradeBody(child as XmlDomElement, newDoc, warnings));
+      } else {
+        newRoot.appendChild(importNode(child, newDoc));
+      }
+    });
+    indentElement(newRoot);
+    copyDocumentComments(doc, newDoc);
+    
+    const result = new XMLSerializer().serializeToString(newDoc);
+    
+    // Check the converted document against the EPCIS 1.2 schema before handing it out
+    if (options.validateXml) {
+      await assertValidEpcisXml(result, 'Converted document');
+    }
+    
+    return { xml: result, warnings };
   } catch (error) {
     if (error instanceof ValidationError || error instanceof TransformationError) {
       throw error;
     }
     throw new TransformationError(`Failed to convert XML: ${(error as Error).message}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,478 @@
+/**
+ * Writing documents of the EPCIS object model as EPCIS 2.0 XML, for the JSON-LD to XML
+ * conversion, serializeEpcis and the conversion of EPCIS 1.x XML to 2.0.
+ *
+ * Standard fields are written in EPCIS 2.0 schema order and extension fields in the namespace
+ * their prefix has in the document's @context. Fields that cannot be written as XML, such as keys
+ * with an undefined prefix, are listed in the warnings.
+ */
+
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { indentElement } from './utils';
+import { EPCIS_2_NAMESPACE, SBDH_NAMESPACE, getWellKnownNamespace } from './namespaces';
+import {
+  EVENT_FIELDS, REQUIRED_EVENT_FIELDS, EPC_LIST_FIELDS, QUANTITY_LIST_FIELDS, TEXT_FIELDS, SENSOR_NUMERIC_FIELDS,
+  SENSOR_REPORT_TEXT_FIELDS, SENSOR_METADATA_FIELDS, isOneOf, isExtensionKey
+} from './epcis-fields';
+import type { EventFields } from './epcis-fields';
+import type { ConversionWarning, XmlConversionResult } from '@shared/schema';
+import type {
+  EpcisDocument, EpcisEvent, EpcisHeader, EpcisMasterData, ExtensionValue, ExtensionFields, JsonLdContext,
+  QuantityElement, ErrorDeclaration, SensorElement, SensorMetadata, SensorReport
+} from '@shared/epcis-model';
+
+type XmlDomElement = import('@xmldom/xmldom').Element;
+type XmlDomDocument = import('@xmldom/xmldom').Document;
+
+const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/';
+
+/**
+ * State shared while building one XML document: the prefixes defined by the @context,
+ * the prefixes actually used (declared on the root at the end) and the warnings
+ */
+interface BuildContext {
+  doc: XmlDomDocument;
+  prefixes: Map<string, string>;
+  usedPrefixes: Set<string>;
+  warnings: ConversionWarning[];
+}
+
+/**
+ * Writes a document of the EPCIS object model as EPCIS 2.0 XML. The document element declares the
+ * namespaces its fields use and, by prefix, any namespaces given, whether or not a field uses them.
+ */
+export function buildEpcisXml(document: EpcisDocument, namespaces: Record<string, string> = {}): XmlConversionResult {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(
+    '<?xml version="1.0" encoding="UTF-8"?><epcis:EPCISDocument xmlns:epcis="' + EPCIS_2_NAMESPACE + '"></epcis:EPCISDocument>',
+    'application/xml'
+  );
+  const root = doc.documentElement!;
+  const context: BuildContext = {
+    doc,
+    prefixes: readContextPrefixes(document['@context']),
+    usedPrefixes: new Set(),
+    warnings: []
+  };
+  for (const [prefix, namespaceURI] of Object.entries(namespaces)) {
+    context.prefixes.set(prefix, namespaceURI);
+    context.usedPrefixes.add(prefix);
+  }
+
+  root.setAttribute('schemaVersion', '2.0');
+  root.setAttribute('creationDate', document.creationDate || new Date().toISOString());
+
+  if (document.epcisHeader) {
+    root.appendChild(buildHeader(document.epcisHeader, context));
+  }
+
+  const body = doc.createElement('EPCISBody');
+  const eventList = doc.createElement('EventList');
+  document.epcisBody.eventList.forEach((event, index) => {
+    const eventElement = buildEvent(event, `epcisBody.eventList[${index}]`, context);
+    if (eventElement) eventList.appendChild(eventElement);
+  });
+  body.appendChild(eventList);
+  root.appendChild(body);
+
+  // Declare the namespaces of all extension fields on the document element
+  for (const prefix of Array.from(context.usedPrefixes).sort()) {
+    root.setAttributeNS(XMLNS_NAMESPACE, `xmlns:${prefix}`, context.prefixes.get(prefix)!);
+  }
+  indentElement(root);
+
+  return { xml: new XMLSerializer().serializeToString(doc), warnings: context.warnings };
+}
+
+/**
+ * Reads the prefix definitions of a JSON-LD @context. The context can be a URL, an object,
+ * or an array of both; prefixes map either to a namespace string or to an object with @id.
+ */
+function readContextPrefixes(jsonLdContext: JsonLdContext | undefined): Map<string, string> {
+  const prefixes = new Map<string, string>();
+  const entries = Array.isArray(jsonLdContext) ? jsonLdContext : [jsonLdContext];
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    for (const [prefix, value] of Object.entries(entry)) {
+      if (prefix.startsWith('@')) continue;
+      const namespaceURI = typeof value === 'string' ? value : readId(value);
+      if (namespaceURI) prefixes.set(prefix, namespaceURI);
+    }
+  }
+
+  return prefixes;
+}
+
+/**
+ * Gives the @id of an expanded term definition
+ */
+function readId(definition: unknown): string | null {
+  if (!definition || typeof definition !== 'object' || !('@id' in definition)) {
+    return null;
+  }
+  return typeof definition['@id'] === 'string' ? definition['@id'] : null;
+}
+
+/**
+ * Builds the EPCISHeader: the SBDH, epcisMasterData and extension elements, in the order the schema gives them
+ */
+function buildHeader(header: EpcisHeader, context: BuildContext): XmlDomElement {
+  const headerElement = context.doc.createElement('EPCISHeader');
+  const isSbdh = (key: string) => key.endsWith(':StandardBusinessDocumentHeader')
+    && getNamespace(key.substring(0, key.indexOf(':')), context) === SBDH_NAMESPACE;
+  const keys = Object.keys(header).filter(isExtensionKey);
+
+  keys.filter(isSbdh).forEach(key => appendExtensionField(headerElement, key, header[key], `epcisHeader.${key}`, context));
+  if (header.epcisMasterData) {
+    headerElement.appendChild(buildMasterData(header.epcisMasterData, context));
+  }
+  keys.filter(key => !isSbdh(key)).forEach(key =>
+    appendExtensionField(headerElement, key, header[key], `epcisHeader.${key}`, context)
+  );
+
+  return headerElement;
+}
+
+/**
+ * Builds epcisMasterData from the JSON-LD vocabularyList structure
+ */
+function buildMasterData(masterData: EpcisMasterData, context: BuildContext): XmlDomElement {
+  const { doc } = context;
+  const masterDataElement = doc.createElement('epcisMasterData');
+  const vocabularyList = doc.createElement('VocabularyList');
+
+  for (const vocabulary of masterData.vocabularyList) {
+    const vocabularyElement = doc.createElement('Vocabulary');
+    vocabularyElement.setAttribute('type', vocabulary.type);
+    const elementList = doc.createElement('VocabularyElementList');
+
+    for (const element of vocabulary.vocabularyElementList) {
+      const vocabularyElementElement = doc.createElement('VocabularyElement');
+      vocabularyElementElement.setAttribute('id', element.id);
+      for (const attribute of element.attributes || []) {
+        const attributeElement = doc.createElement('attribute');
+        attributeElement.setAttribute('id', attribute.id);
+        appendContent(attributeElement, attribute.attribute, `${element.id}.attributes`, context);
+        vocabularyElementElement.appendChild(attributeElement);
+      }
+      if (element.children) {
+        const children = doc.createElement('children');
+        element.children.forEach(id => children.appendChild(createTextElement(doc, 'id', id)));
+        vocabularyElementElement.appendChild(children);
+      }
+      appendExtensionFields(vocabularyElementElement, element, element.id, context);
+      elementList.appendChild(vocabularyElementElement);
+    }
+
+    vocabularyElement.appendChild(elementList);
+    vocabularyList.appendChild(vocabularyElement);
+  }
+
+  masterDataElement.appendChild(vocabularyList);
+  return masterDataElement;
+}
+
+/**
+ * Builds a single event, writing its standard fields in EPCIS 2.0 schema order followed by
+ * its extension fields. Events of an unknown type and fields of another event type are reported and left out.
+ */
+function buildEvent(event: EpcisEvent, jsonPath: string, context: BuildContext): XmlDomElement | null {
+  const { doc } = context;
+  const fieldOrder = EVENT_FIELDS[event.type];
+  if (!fieldOrder) {
+    context.warnings.push({ path: jsonPath, message: `Unknown event type "${event.type}" was left out` });
+    return null;
+  }
+
+  const eventElement = doc.createElement(event.type);
+  const requiredFields = REQUIRED_EVENT_FIELDS[event.type] || [];
+  const fields: EventFields = event;
+
+  for (const name of fieldOrder) {
+    if (name in fields) {
+      appendStandardField(eventElement, name, fields, context);
+    } else if (requiredFields.includes(name)) {
+      eventElement.appendChild(doc.createElement(name));
+    }
+  }
+
+  for (const key of Object.keys(event)) {
+    if (key === 'type' || key.startsWith('@') || fieldOrder.includes(key)) continue;
+    if (isExtensionKey(key)) {
+      appendExtensionField(eventElement, key, event[key], `${jsonPath}.${key}`, context);
+    } else {
+      context.warnings.push({ path: `${jsonPath}.${key}`, message: `${key} is not a field of ${event.type}, it was left out` });
+    }
+  }
+
+  return eventElement;
+}
+
+/**
+ * Appends a standard EPCIS event field in its XML form
+ */
+function appendStandardField(parent: XmlDomElement, name: string, fields: EventFields, context: BuildContext): void {
+  const { doc } = context;
+
+  if (isOneOf(name, EPC_LIST_FIELDS)) {
+    const list = doc.createElement(name);
+    (fields[name] || []).forEach(epc => list.appendChild(createTextElement(doc, 'epc', epc)));
+    parent.appendChild(list);
+  } else if (isOneOf(name, QUANTITY_LIST_FIELDS)) {
+    const list = doc.createElement(name);
+    (fields[name] || []).forEach(quantity => list.appendChild(buildQuantityElement(quantity, doc)));
+    parent.appendChild(list);
+  } else if (name === 'bizStep' && fields.bizStep !== undefined) {
+    parent.appendChild(createTextElement(doc, name, toCbvUri(fields.bizStep, 'bizstep')));
+  } else if (name === 'disposition' && fields.disposition !== undefined) {
+    parent.appendChild(createTextElement(doc, name, toCbvUri(fields.disposition, 'disp')));
+  } else if (name === 'action' && fields.action !== undefined) {
+    parent.appendChild(createTextElement(doc, name, fields.action));
+  } else if (name === 'persistentDisposition' && fields.persistentDisposition) {
+    const persistentDisposition = doc.createElement(name);
+    for (const key of ['set', 'unset'] as const) {
+      (fields.persistentDisposition[key] || []).forEach(disposition =>
+        persistentDisposition.appendChild(createTextElement(doc, key, toCbvUri(disposition, 'disp')))
+      );
+    }
+    parent.appendChild(persistentDisposition);
+  } else if ((name === 'readPoint' || name === 'bizLocation') && fields[name]) {
+    const location = doc.createElement(name);
+    location.appendChild(createTextElement(doc, 'id', fields[name].id));
+    appendExtensionFields(location, fields[name], name, context);
+    parent.appendChild(location);
+  } else if (name === 'bizTransactionList' && fields.bizTransactionList) {
+    const items = fields.bizTransactionList.map(({ type, bizTransaction }) => ({ type, value: bizTransaction }));
+    parent.appendChild(buildTypedList(name, 'bizTransaction', 'btt', items, doc));
+  } else if (name === 'sourceList' && fields.sourceList) {
+    const items = fields.sourceList.map(({ type, source }) => ({ type, value: source }));
+    parent.appendChild(buildTypedList(name, 'source', 'sdt', items, doc));
+  } else if (name === 'destinationList' && fields.destinationList) {
+    const items = fields.destinationList.map(({ type, destination }) => ({ type, value: destination }));
+    parent.appendChild(buildTypedList(name, 'destination', 'sdt', items, doc));
+  } else if (name === 'ilmd' && fields.ilmd) {
+    const ilmd = doc.createElement(name);
+    appendExtensionFields(ilmd, fields.ilmd, name, context);
+    parent.appendChild(ilmd);
+  } else if (name === 'errorDeclaration' && fields.errorDeclaration) {
+    parent.appendChild(buildErrorDeclaration(fields.errorDeclaration, context));
+  } else if (name === 'sensorElementList' && fields.sensorElementList) {
+    const list = doc.createElement(name);
+    fields.sensorElementList.forEach(sensorElement => list.appendChild(buildSensorElement(sensorElement, context)));
+    parent.appendChild(list);
+  } else if (isOneOf(name, TEXT_FIELDS)) {
+    // certificationInfo may be given as a list
+    [fields[name] ?? []].flat().forEach(text => parent.appendChild(createTextElement(doc, name, text)));
+  }
+}
+
+/**
+ * Builds a quantityElement from { epcClass, quantity, uom }
+ */
+function buildQuantityElement(quantity: QuantityElement, doc: XmlDomDocument): XmlDomElement {
+  const element = doc.createElement('quantityElement');
+  element.appendChild(createTextElement(doc, 'epcClass', quantity.epcClass));
+  if (quantity.quantity !== undefined) {
+    element.appendChild(createTextElement(doc, 'quantity', String(quantity.quantity)));
+  }
+  if (quantity.uom !== undefined) {
+    element.appendChild(createTextElement(doc, 'uom', quantity.uom));
+  }
+  return element;
+}
+
+/**
+ * Builds bizTransactionList, sourceList or destinationList from its items and their types
+ */
+function buildTypedList(
+  name: string,
+  itemName: string,
+  vocabulary: string,
+  items: Array<{ type?: string; value: string }>,
+  doc: XmlDomDocument
+): XmlDomElement {
+  const list = doc.createElement(name);
+  for (const item of items) {
+    const itemElement = createTextElement(doc, itemName, item.value);
+    if (item.type) itemElement.setAttribute('type', toCbvUri(item.type, vocabulary));
+    list.appendChild(itemElement);
+  }
+  return list;
+}
+
+/**
+ * Builds errorDeclaration from { declarationTime, reason, correctiveEventIDs, ...extensions }
+ */
+function buildErrorDeclaration(errorDeclaration: ErrorDeclaration, context: BuildContext): XmlDomElement {
+  const { doc } = context;
+  const element = doc.createElement('errorDeclaration');
+
+  element.appendChild(createTextElement(doc, 'declarationTime', errorDeclaration.declarationTime));
+  if (errorDeclaration.reason !== undefined) {
+    element.appendChild(createTextElement(doc, 'reason', toCbvUri(errorDeclaration.reason, 'er')));
+  }
+  if (errorDeclaration.correctiveEventIDs) {
+    const list = doc.createElement('correctiveEventIDs');
+    errorDeclaration.correctiveEventIDs.forEach(id => list.appendChild(createTextElement(doc, 'correctiveEventID', id)));
+    element.appendChild(list);
+  }
+  appendExtensionFields(element, errorDeclaration, 'errorDeclaration', context);
+
+  return element;
+}
+
+/**
+ * Builds a sensorElement; sensorMetadata and sensorReport values become XML attributes
+ */
+function buildSensorElement(sensorElement: SensorElement, context: BuildContext): XmlDomElement {
+  const element = context.doc.createElement('sensorElement');
+
+  if (sensorElement.sensorMetadata) {
+    element.appendChild(buildSensorMetadata(sensorElement.sensorMetadata, context));
+  }
+  sensorElement.sensorReport.forEach(report => element.appendChild(buildSensorReport(report, context)));
+  appendExtensionFields(element, sensorElement, 'sensorElement', context);
+
+  return element;
+}
+
+function buildSensorMetadata(metadata: SensorMetadata, context: BuildContext): XmlDomElement {
+  const element = context.doc.createElement('sensorMetadata');
+  for (const name of SENSOR_METADATA_FIELDS) {
+    const value = metadata[name];
+    if (value !== undefined) element.setAttribute(name, value);
+  }
+  appendSensorExtensions(element, metadata, context);
+  return element;
+}
+
+function buildSensorReport(report: SensorReport, context: BuildContext): XmlDomElement {
+  const element = context.doc.createElement('sensorReport');
+  for (const name of [...SENSOR_REPORT_TEXT_FIELDS, ...SENSOR_NUMERIC_FIELDS, 'booleanValue'] as const) {
+    const value = report[name];
+    if (value !== undefined) element.setAttribute(name, String(value));
+  }
+  appendSensorExtensions(element, report, context);
+  return element;
+}
+
+/**
+ * Writes the extension fields of sensor data, text values as prefixed attributes and others as elements
+ */
+function appendSensorExtensions(element: XmlDomElement, data: ExtensionFields, context: BuildContext): void {
+  for (const key of Object.keys(data).filter(isExtensionKey)) {
+    const value = data[key];
+    if (typeof value === 'object') {
+      appendExtensionField(element, key, value, `${element.localName}.${key}`, context);
+    } else {
+      setAttribute(element, key, String(value), context);
+    }
+  }
+}
+
+/**
+ * Appends the extension fields (prefix:localName keys) of a model object, leaving its standard fields to the caller
+ */
+function appendExtensionFields(parent: XmlDomElement, fields: ExtensionFields, jsonPath: string, context: BuildContext): void {
+  for (const key of Object.keys(fields).filter(isExtensionKey)) {
+    appendExtensionField(parent, key, fields[key], `${jsonPath}.${key}`, context);
+  }
+}
+
+/**
+ * Appends an extension field (prefix:localName) in the namespace its prefix has in the @context.
+ * Repeated values are written as repeated elements; fields without a usable prefix are reported.
+ */
+function appendExtensionField(
+  parent: XmlDomElement,
+  key: string,
+  value: ExtensionValue,
+  jsonPath: string,
+  context: BuildContext
+): void {
+  const namespaceURI = resolvePrefix(key, context);
+  if (!namespaceURI) {
+    context.warnings.push({
+      path: jsonPath,
+      message: `${key} is not an EPCIS field and has no namespace prefix defined in @context, it was left out`
+    });
+    return;
+  }
+
+  for (const item of Array.isArray(value) ? value : [value]) {
+    const element = context.doc.createElementNS(namespaceURI, key);
+    appendContent(element, item, jsonPath, context);
+    parent.appendChild(element);
+  }
+}
+
+/**
+ * Writes a JSON-LD value into an element: strings and numbers become text, objects become
+ * prefixed child elements, with plain keys as attributes and "#text" as the element text
+ */
+function appendContent(element: XmlDomElement, value: ExtensionValue, jsonPath: string, context: BuildContext): void {
+  if (typeof value !== 'object') {
+    element.appendChild(context.doc.createTextNode(String(value)));
+    return;
+  }
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (key === '#text') {
+      element.appendChild(context.doc.createTextNode(String(fieldValue)));
+    } else if (!key.includes(':') && typeof fieldValue !== 'object') {
+      element.setAttribute(key, String(fieldValue));
+    } else {
+      appendExtensionField(element, key, fieldValue, `${jsonPath}.${key}`, context);
+    }
+  }
+}
+
+/**
+ * Sets an attribute, resolving its namespace when the name is prefixed
+ */
+function setAttribute(element: XmlDomElement, name: string, value: string, context: BuildContext): void {
+  const namespaceURI = name.includes(':') ? resolvePrefix(name, context) : null;
+  if (namespaceURI) {
+    element.setAttributeNS(namespaceURI, name, value);
+  } else {
+    element.setAttribute(name, value);
+  }
+}
+
+/**
+ * Resolves the namespace of a prefix:localName key from the @context, falling back to
+ * the well-known EPCIS companion namespaces, and records the prefix as used
+ */
+function resolvePrefix(key: string, context: BuildContext): string | null {
+  const separator = key.indexOf(':');
+  if (separator <= 0) return null;
+
+  const prefix = key.substring(0, separator);
+  const namespaceURI = getNamespace(prefix, context);
+  if (!namespaceURI) return null;
+
+  context.prefixes.set(prefix, namespaceURI);
+  context.usedPrefixes.add(prefix);
+  return namespaceURI;
+}
+
+/**
+ * Gives the namespace of a prefix, from the @context or else the well-known namespaces
+ */
+function getNamespace(prefix: string, context: BuildContext): string | null {
+  return context.prefixes.get(prefix) || getWellKnownNamespace(prefix);
+}
+
+/**
+ * Expands a bare CBV term (e.g. "shipping") to its URN; full URIs are kept as they are
+ */
+function toCbvUri(value: string, vocabulary: string): string {
+  return value.includes(':') ? value : `urn:epcglobal:cbv:${vocabulary}:${value}`;
+}
+
+function createTextElement(doc: XmlDomDocument, name: string, text: string): XmlDomElement {
+  const element = doc.createElement(name);
+  element.appendChild(doc.createTextNode(text));
+  return element;
+}
@@ -25,18 +25,36 @@
             <xsl:attribute name="creationDate">
                 <xsl:value-of select="@creationDate"/>
             </xsl:attribute>
+            <xsl:if test="EPCISHeader">
+                <EPCISHeader>
+                    <!-- copy attributes to keep user user defined extension -->
+                    <xsl:apply-templates mode="copy-nodes" select="EPCISHeader/@*"/>
+                    <xsl:apply-templates mode="copy-nodes" select="EPCISHeader/*[local-name() = 'StandardBusinessDocumentHeader']"/>
+                    <!-- master data moves from extension/EPCISMasterData to epcisMasterData -->
+                    <xsl:for-each select="EPCISHeader/extension/EPCISMasterData">
+                        <epcisMasterData>
+                            <xsl:apply-templates mode="copy-nodes" select="@*|VocabularyList"/>
+                        </epcisMasterData>
+                    </xsl:for-each>
+                    <!-- copy user-defined header elements such as the DSCSA transaction statement -->
+                    <xsl:apply-templates mode="copy-nodes"
+                                         select="EPCISHeader/*[namespace-uri() != '' and local-name() != 'StandardBusinessDocumentHeader']|EPCISHeader/extension/extension/*"/>
+                </EPCISHeader>
+            </xsl:if>
             <EPCISBody>
                 <!-- copy attributes to keep user user defined extension -->
                 <xsl:apply-templates mode="copy-nodes" select="EPCISBody/@*"/>
                 <xsl:for-each select="EPCISBody/*">
                     <xsl:choose>
                         <!-- match EventList -->
+                        <!-- EPCIS 2.0 allows a single EventList, so all 1.2 EventLists are merged into the first one -->
+                        <xsl:when test="name() = 'EventList' and preceding-sibling::EventList"/>
                         <xsl:when test="name() = 'EventList'">
                             <EventList>
                                 <!-- copy attributes to keep user user defined extension -->
                                 <xsl:apply-templates mode="copy-nodes" select="@*"/>
-                                <!-- loop through EventList child nodes-->
-                                <xsl:for-each select="*">
+                                <!-- loop through the child nodes of every EventList, keeping document order -->
+                                <xsl:for-each select="../EventList/*">
                                     <xsl:if test="name() = 'ObjectEvent'">
                                         <ObjectEvent>
                                             <xsl:apply-templates mode="copy-nodes" select="@*"/>
@@ -92,7 +110,7 @@
 
     <!-- no-op for any well-known EPCIS elements in copy-nodes mode -->
     <xsl:template mode="copy-nodes"
-                  match="EPCISBody|EventList|ObjectEvent|AggregationEvent|TransformationEvent|TransactionEvent|AssociationEvent|extension">
+                  match="EPCISBody|EventList|ObjectEvent|AggregationEvent|TransformationEvent|TransactionEvent|AssociationEvent|extension|baseExtension">
     </xsl:template>
 
     <!-- convert EPCISEvent base type elements -->
@@ -102,30 +120,21 @@
             <xsl:apply-templates mode="copy-nodes" select="recordTime"/>
         </xsl:if>
         <xsl:apply-templates mode="copy-nodes" select="eventTimeZoneOffset"/>
-        <xsl:if test="eventID or errorDeclaration">
-            <baseExtension>
-                <xsl:apply-templates mode="copy-nodes" select="eventID"/>
-                <!-- adding errorDeclaration explicitly because it must respect sequence of elements in EPCIS 1.2 -->
-                <xsl:if test="errorDeclaration">
-                    <errorDeclaration>
-                        <xsl:apply-templates mode="copy-nodes" select="errorDeclaration/@*"/>
-                        <xsl:apply-templates mode="copy-nodes" select="errorDeclaration/declarationTime"/>
-                        <xsl:apply-templates mode="copy-nodes" select="errorDeclaration/reason"/>
-                        <xsl:apply-templates mode="copy-nodes" select="errorDeclaration/correctiveEventIDs"/>
-                        <xsl:apply-templates mode="copy-nodes" select="errorDeclaration/extension"/>
-                        <!-- copy user-defined extension -->
-                        <xsl:if test="errorDeclaration/*[not(name()='declarationTime' or name()='reason' or name()='correctiveEventIDs' or name()='extension')]">
-                            <xsl:apply-templates mode="copy-nodes"
-                                                 select="errorDeclaration/*[not(name()='declarationTime' or name()='reason' or name()='correctiveEventIDs' or name()='extension')]"/>
-                        </xsl:if>
-                    </errorDeclaration>
-                </xsl:if>
-                <!-- adding extension explicitly because it's excluded from copy-nodes mode -->
-                <xsl:if test="extension">
-                    <xsl:apply-templates mode="copy-nodes" select="extension"/>
-                </xsl:if>
-            </baseExtension>
-        </xsl:if>
+        <!-- eventID and errorDeclaration live in baseExtension in EPCIS 1.2 and directly on the event in 2.0 -->
+        <xsl:apply-templates mode="copy-nodes" select="baseExtension/eventID|eventID"/>
+        <xsl:for-each select="baseExtension/errorDeclaration|errorDeclaration">
+            <!-- adding errorDeclaration explicitly because it must respect sequence of elements in EPCIS 2.0 -->
+            <errorDeclaration>
+                <xsl:apply-templates mode="copy-nodes" select="@*"/>
+                <xsl:apply-templates mode="copy-nodes" select="declarationTime"/>
+                <xsl:apply-templates mode="copy-nodes" select="reason"/>
+                <xsl:apply-templates mode="copy-nodes" select="correctiveEventIDs"/>
+                <!-- unwrap the 1.2 extension and copy user-defined extension elements -->
+                <xsl:apply-templates mode="copy-nodes" select="extension/*"/>
+                <xsl:apply-templates mode="copy-nodes"
+                                     select="*[not(name()='declarationTime' or name()='reason' or name()='correctiveEventIDs' or name()='extension')]"/>
+            </errorDeclaration>
+        </xsl:for-each>
     </xsl:template>
 
     <!-- convert EPCIS 1.2 ObjectEvent to 2.0 -->
@@ -145,10 +154,8 @@
                              select="extension/quantityList|extension/sourceList|extension/destinationList"/>
         <xsl:apply-templates mode="copy-nodes"
                              select="extension/extension/sensorElementList|extension/extension/persistentDisposition"/>
-        <!-- adding ilmd explicitly because it's excluded from copy-nodes mode -->
-        <xsl:if test="ilmd">
-            <xsl:apply-templates mode="copy-nodes" select="ilmd"/>
-        </xsl:if>
+        <!-- ilmd is wrapped in extension in EPCIS 1.2 ObjectEvent -->
+        <xsl:apply-templates mode="copy-nodes" select="extension/ilmd|ilmd"/>
         <xsl:if test="extension/extension/*[not(name()='sensorElementList' or name()='persistentDisposition')]">
             <extension>
                 <!-- copy attributes -->
@@ -228,7 +235,7 @@
                 <xsl:apply-templates mode="copy-nodes" select="bizTransactionList"/>
             </xsl:when>
             <xsl:otherwise>
-                <epcList/>
+                <bizTransactionList/>
             </xsl:otherwise>
         </xsl:choose>
         <xsl:apply-templates mode="copy-nodes" select="parentID"/>
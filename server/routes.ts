@@ -3,25 +3,40 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
 import { 
-  convertToEpcis20Xml, 
-  convertToJsonLd, 
+  convertToEpcis12Xml,
+  convertJsonLdToXml,
+  createTransformer,
+  listEngines,
+  transform,
+  validateEpcis,
+  inspectEpc,
   ValidationError, 
-  TransformationError,
-  openEpcisClient
+  TransformationError
 } from './epcis-transformer';
 import { 
   xmlTransformOptionsSchema, 
-  jsonLdTransformOptionsSchema 
+  xml12TransformOptionsSchema,
+  jsonLdTransformOptionsSchema,
+  jsonLdToXmlOptionsSchema,
+  ruleValidationOptionsSchema,
+  transformOptionsSchema,
+  type ConversionWarning,
+  type EpcisVersion
 } from "@shared/schema";
 
+// Engine of a conversion request that names none; the /api/openepcis/ paths are kept for existing clients
+const defaultEngine = (req: Request): string => req.path.startsWith('/api/openepcis/') ? 'openepcis' : 'local';
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // API endpoint for converting EPCIS 1.2 XML to EPCIS 2.0 XML
-  app.post('/api/convert-to-epcis20-xml', async (req: Request, res: Response) => {
+  app.post(['/api/convert-to-epcis20-xml', '/api/openepcis/convert-to-epcis20-xml'], async (req: Request, res: Response) => {
     try {
       // Validate request body
       const requestSchema = z.object({
         xml: z.string().min(1, "XML content is required"),
-        options: xmlTransformOptionsSchema.optional()
+        options: xmlTransformOptionsSchema.optional(),
+        // Conversion engine by name: local, xslt, openepcis or a registered one
+        engine: z.string().optional()
       });
       
       const parseResult = requestSchema.safeParse(req.body);
@@ -33,21 +48,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { xml, options = { validateXml: false, preserveComments: false } } = parseResult.data;
+      const { xml, options = { validateXml: false, preserveComments: false, validateEpcs: false }, engine = defaultEngine(req) } = parseResult.data;
+      const transformer = createTransformer({ engine });
       
-      console.log('Starting XML transformation');
+      console.log(`Starting XML transformation with the ${transformer.engine} engine`);
       
-      // Perform the conversion
-      const result = await convertToEpcis20Xml(xml, options);
+      // Perform the conversion, collecting warnings and the EPCIS version the input was detected as
+      const warnings: ConversionWarning[] = [];
+      let sourceVersion: EpcisVersion | null = null;
+      const result = await transformer.convertToEpcis20Xml(xml, {
+        ...options,
+        onWarning: warning => warnings.push(warning),
+        onSourceVersion: version => { sourceVersion = version; }
+      });
       
-      console.log('XML transformation successful');
+      console.log(`XML transformation of EPCIS ${sourceVersion} input successful with ${warnings.length} warning(s)`);
       
       // Return the result
-      res.json({ result });
+      res.json({ result, warnings, sourceVersion });
     } catch (error) {
       console.error('Error in convert-to-epcis20-xml endpoint:', error);
       if (error instanceof ValidationError) {
-        res.status(400).json({ message: error.message, code: error.code });
+        res.status(400).json({ message: error.message, code: error.code, errors: error.errors });
       } else if (error instanceof TransformationError) {
         res.status(500).json({ message: error.message, code: error.code });
       } else {
@@ -59,13 +81,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // API endpoint for converting EPCIS 2.0 XML to JSON-LD
-  app.post('/api/convert-to-jsonld', async (req: Request, res: Response) => {
+  // API endpoint for converting EPCIS 2.0 XML back to EPCIS 1.2 XML
+  app.post('/api/convert-to-epcis12-xml', async (req: Request, res: Response) => {
     try {
       // Validate request body
       const requestSchema = z.object({
         xml: z.string().min(1, "XML content is required"),
-        options: jsonLdTransformOptionsSchema.optional()
+        options: xml12TransformOptionsSchema.optional()
       });
       
       const parseResult = requestSchema.safeParse(req.body);
@@ -77,21 +99,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { xml, options = { prettyPrint: true, includeContext: true } } = parseResult.data;
+      const { xml, options = { validateXml: false, preserveComments: false, validateEpcs: false } } = parseResult.data;
       
-      console.log('Starting JSON-LD transformation');
+      console.log('Starting XML downgrade');
       
       // Perform the conversion
-      const result = await convertToJsonLd(xml, options);
+      const { xml: result, warnings } = await convertToEpcis12Xml(xml, options);
       
-      console.log('JSON-LD transformation successful');
+      console.log(`XML downgrade successful with ${warnings.length} warning(s)`);
       
-      // Return the result
-      res.json({ result });
+      // Return the result together with the data that could not be represented
+      res.json({ result, warnings });
     } catch (error) {
-      console.error('Error in convert-to-jsonld endpoint:', error);
+      console.error('Error in convert-to-epcis12-xml endpoint:', error);
       if (error instanceof ValidationError) {
-        res.status(400).json({ message: error.message, code: error.code });
+        res.status(400).json({ message: error.message, code: error.code, errors: error.errors });
       } else if (error instanceof TransformationError) {
         res.status(500).json({ message: error.message, code: error.code });
       } else {
@@ -103,13 +125,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // OpenEPCIS API endpoint for converting EPCIS 1.2 XML to EPCIS 2.0 XML
-  app.post('/api/openepcis/convert-to-epcis20-xml', async (req: Request, res: Response) => {
+  // API endpoint for converting EPCIS 2.0 XML to JSON-LD
+  app.post(['/api/convert-to-jsonld', '/api/openepcis/convert-to-jsonld'], async (req: Request, res: Response) => {
     try {
       // Validate request body
       const requestSchema = z.object({
         xml: z.string().min(1, "XML content is required"),
-        options: xmlTransformOptionsSchema.optional()
+        options: jsonLdTransformOptionsSchema.optional(),
+        // Conversion engine by name: local, xslt, openepcis or a registered one
+        engine: z.string().optional()
       });
       
       const parseResult = requestSchema.safeParse(req.body);
@@ -121,39 +145,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { xml, options = { validateXml: false, preserveComments: false } } = parseResult.data;
+      const { xml, options = { prettyPrint: true, includeContext: true, validate: false, validateEpcs: false }, engine = defaultEngine(req) } = parseResult.data;
+      const transformer = createTransformer({ engine });
       
-      console.log('Starting XML transformation via OpenEPCIS API');
+      console.log(`Starting JSON-LD transformation with the ${transformer.engine} engine`);
       
-      // Perform the conversion using OpenEPCIS API
-      const result = await openEpcisClient.convertToEpcis20Xml(xml, options);
+      // Perform the conversion, collecting CBV values that are not in the CBV 2.0 lists
+      const warnings: ConversionWarning[] = [];
+      const result = await transformer.convertToJsonLd(xml, { ...options, onWarning: warning => warnings.push(warning) });
       
-      console.log('OpenEPCIS XML transformation successful');
+      console.log(`JSON-LD transformation successful with ${warnings.length} warning(s)`);
       
       // Return the result
-      res.json({ result });
+      res.json({ result, warnings });
     } catch (error) {
-      console.error('Error in OpenEPCIS convert-to-epcis20-xml endpoint:', error);
+      console.error('Error in convert-to-jsonld endpoint:', error);
       if (error instanceof ValidationError) {
-        res.status(400).json({ message: error.message, code: error.code });
+        res.status(400).json({ message: error.message, code: error.code, errors: error.errors });
       } else if (error instanceof TransformationError) {
         res.status(500).json({ message: error.message, code: error.code });
       } else {
         res.status(500).json({ 
-          message: "An unexpected error occurred with OpenEPCIS API", 
+          message: "An unexpected error occurred", 
           details: error instanceof Error ? error.message : String(error) 
         });
       }
     }
   });
   
-  // OpenEPCIS API endpoint for converting EPCIS 2.0 XML to JSON-LD
-  app.post('/api/openepcis/convert-to-jsonld', async (req: Request, res: Response) => {
+  // API endpoint for converting EPCIS 1.x XML directly to JSON-LD
+  app.post(['/api/convert-from-12-to-jsonld', '/api/openepcis/convert-from-12-to-jsonld'], async (req: Request, res: Response) => {
     try {
       // Validate request body
       const requestSchema = z.object({
         xml: z.string().min(1, "XML content is required"),
-        options: jsonLdTransformOptionsSchema.optional()
+        options: jsonLdTransformOptionsSchema.optional(),
+        // Conversion engine by name: local, xslt, openepcis or a registered one
+        engine: z.string().optional()
       });
       
       const parseResult = requestSchema.safeParse(req.body);
@@ -165,39 +193,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { xml, options = { prettyPrint: true, includeContext: true } } = parseResult.data;
+      const { xml, options = { prettyPrint: true, includeContext: true, validate: false, validateEpcs: false }, engine = defaultEngine(req) } = parseResult.data;
+      const transformer = createTransformer({ engine });
       
-      console.log('Starting JSON-LD transformation via OpenEPCIS API');
+      console.log(`Starting direct 1.x-to-JSON-LD transformation with the ${transformer.engine} engine`);
       
-      // Perform the conversion using OpenEPCIS API
-      const result = await openEpcisClient.convertToJsonLd(xml, options);
+      // Perform the conversion, collecting CBV values that are not in the CBV 2.0 lists
+      const warnings: ConversionWarning[] = [];
+      const result = await transformer.convertFrom12ToJsonLd(xml, { ...options, onWarning: warning => warnings.push(warning) });
       
-      console.log('OpenEPCIS JSON-LD transformation successful');
+      console.log(`Direct transformation successful with ${warnings.length} warning(s)`);
       
       // Return the result
-      res.json({ result });
+      res.json({ result, warnings });
+    } catch (error) {
+      console.error('Error in convert-from-12-to-jsonld endpoint:', error);
+      if (error instanceof ValidationError) {
+        res.status(400).json({ message: error.message, code: error.code, errors: error.errors });
+      } else if (error instanceof TransformationError) {
+        res.status(500).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ 
+          message: "An unexpected error occurred", 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    }
+  });
+  
+  // API endpoint for converting EPCIS 2.0 JSON-LD back to EPCIS XML
+  app.post('/api/convert-jsonld-to-xml', async (req: Request, res: Response) => {
+    try {
+      // Validate request body
+      const requestSchema = z.object({
+        jsonLd: z.string().min(1, "JSON-LD content is required"),
+        options: jsonLdToXmlOptionsSchema.optional()
+      });
+      
+      const parseResult = requestSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const { jsonLd, options = { epcisVersion: '2.0' as const } } = parseResult.data;
+      
+      console.log('Starting JSON-LD to XML transformation');
+      
+      // Perform the conversion
+      const { xml: result, warnings } = await convertJsonLdToXml(jsonLd, options);
+      
+      console.log(`JSON-LD to XML transformation successful with ${warnings.length} warning(s)`);
+      
+      // Return the result together with the fields that could not be written
+      res.json({ result, warnings });
     } catch (error) {
-      console.error('Error in OpenEPCIS convert-to-jsonld endpoint:', error);
+      console.error('Error in convert-jsonld-to-xml endpoint:', error);
       if (error instanceof ValidationError) {
-        res.status(400).json({ message: error.message, code: error.code });
+        res.status(400).json({ message: error.message, code: error.code, errors: error.errors });
       } else if (error instanceof TransformationError) {
         res.status(500).json({ message: error.message, code: error.code });
       } else {
         res.status(500).json({ 
-          message: "An unexpected error occurred with OpenEPCIS API", 
+          message: "An unexpected error occurred", 
           details: error instanceof Error ? error.message : String(error) 
         });
       }
     }
   });
   
-  // OpenEPCIS API endpoint for direct conversion from EPCIS 1.2 XML to JSON-LD
-  app.post('/api/openepcis/convert-from-12-to-jsonld', async (req: Request, res: Response) => {
+  // API endpoint converting any supported EPCIS format to another, the input format being detected
+  app.post('/api/transform', async (req: Request, res: Response) => {
+    try {
+      // Validate request body
+      const requestSchema = z.object({
+        input: z.string().min(1, "Input document is required"),
+        options: transformOptionsSchema
+      });
+      
+      const parseResult = requestSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const { input, options } = parseResult.data;
+      
+      console.log(`Starting transformation to ${options.to}`);
+      
+      // Perform the conversion chain planned from the detected input format
+      const result = await transform(input, options);
+      
+      console.log(`Transformation ${result.chain.join(' -> ')} successful with ${result.warnings.length} warning(s)`);
+      
+      res.json(result);
+    } catch (error) {
+      console.error('Error in transform endpoint:', error);
+      if (error instanceof ValidationError) {
+        res.status(400).json({ message: error.message, code: error.code, errors: error.errors });
+      } else if (error instanceof TransformationError) {
+        res.status(500).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ 
+          message: "An unexpected error occurred", 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    }
+  });
+  
+  // API endpoint for checking EPCIS XML against the business rules
+  app.post('/api/validate', async (req: Request, res: Response) => {
     try {
       // Validate request body
       const requestSchema = z.object({
         xml: z.string().min(1, "XML content is required"),
-        options: jsonLdTransformOptionsSchema.optional()
+        options: ruleValidationOptionsSchema.optional()
       });
       
       const parseResult = requestSchema.safeParse(req.body);
@@ -209,42 +326,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { xml, options = { prettyPrint: true, includeContext: true } } = parseResult.data;
+      const { xml, options = { rules: {}, rulePacks: [], schema: false } } = parseResult.data;
       
-      console.log('Starting direct 1.2-to-JSON-LD transformation via OpenEPCIS API');
+      console.log('Starting rule validation');
       
-      // Perform the conversion using OpenEPCIS API
-      const result = await openEpcisClient.convertFrom12ToJsonLd(xml, options);
+      // A document that breaks rules is still a successful request, the report says what is wrong
+      const report = await validateEpcis(xml, options);
       
-      console.log('OpenEPCIS direct transformation successful');
+      console.log(`Rule validation finished with ${report.issues.length} issue(s)`);
       
-      // Return the result
-      res.json({ result });
+      res.json(report);
     } catch (error) {
-      console.error('Error in OpenEPCIS convert-from-12-to-jsonld endpoint:', error);
+      console.error('Error in validate endpoint:', error);
       if (error instanceof ValidationError) {
-        res.status(400).json({ message: error.message, code: error.code });
+        res.status(400).json({ message: error.message, code: error.code, errors: error.errors });
       } else if (error instanceof TransformationError) {
         res.status(500).json({ message: error.message, code: error.code });
       } else {
         res.status(500).json({ 
-          message: "An unexpected error occurred with OpenEPCIS API", 
+          message: "An unexpected error occurred", 
           details: error instanceof Error ? error.message : String(error) 
         });
       }
     }
   });
   
-  // Test connection to OpenEPCIS API
-  app.get('/api/openepcis/test-connection', async (_req: Request, res: Response) => {
+  // API endpoint explaining the parts of an EPC URN, e.g. /api/epc/inspect?uri=urn:epc:id:sgtin:0614141.112345.400
+  app.get('/api/epc/inspect', (req: Request, res: Response) => {
+    const parseResult = z.object({ uri: z.string().min(1, "EPC URI is required") }).safeParse(req.query);
+    
+    if (!parseResult.success) {
+      return res.status(400).json({ 
+        message: "Invalid request data", 
+        errors: parseResult.error.errors 
+      });
+    }
+    
+    // An invalid EPC is still a successful inspection, its errors are part of the result
+    res.json(inspectEpc(parseResult.data.uri));
+  });
+  
+  // API endpoint listing the conversion engines the conversion endpoints accept
+  app.get('/api/engines', (_req: Request, res: Response) => {
+    res.json({ engines: listEngines() });
+  });
+  
+  // Test the connection of a conversion engine to its service, /api/openepcis/test-connection testing the openepcis engine
+  app.get(['/api/engines/:engine/test-connection', '/api/openepcis/test-connection'], async (req: Request, res: Response) => {
     try {
-      const isConnected = await openEpcisClient.testConnection();
+      const transformer = createTransformer({ engine: req.params.engine || 'openepcis' });
+      const isConnected = await transformer.testConnection();
       if (isConnected) {
-        res.json({ status: 'connected', message: 'Successfully connected to OpenEPCIS API' });
+        res.json({ status: 'connected', message: `Successfully connected with the ${transformer.engine} engine` });
       } else {
-        res.status(503).json({ status: 'disconnected', message: 'Failed to connect to OpenEPCIS API' });
+        res.status(503).json({ status: 'disconnected', message: `Failed to connect with the ${transformer.engine} engine` });
       }
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(404).json({ status: 'error', message: error.message });
+      }
       res.status(500).json({ 
         status: 'error',
         message: "An unexpected error occurred while testing connection", 
@@ -0,0 +1,237 @@
+import type { EpcisSourceFormat, EpcisVersion } from "./schema";
+
+/**
+ * The EPCIS 2.0 object model, in the shape of the JSON-LD form of EPCIS documents. The converters
+ * read every format into it and write every format from it.
+ *
+ * User extension fields are keyed by the prefix the document's @context gives their namespace,
+ * e.g. "example:temperature". Their values are text or, for elements with children or
+ * attributes, objects keyed the same way with the element text under "#text".
+ */
+
+// Numbers and booleans only come from JSON-LD input, XML gives text
+export type ExtensionValue = string | number | boolean | ExtensionObject | ExtensionValue[];
+
+export interface ExtensionObject {
+  [key: string]: ExtensionValue;
+}
+
+export type ExtensionKey = `${string}:${string}`;
+
+export interface ExtensionFields {
+  [key: ExtensionKey]: ExtensionValue;
+}
+
+// A JSON-LD @context: context URLs and objects mapping prefixes to namespaces
+export type JsonLdContext = string | Record<string, unknown> | Array<string | Record<string, unknown>>;
+
+export interface EpcisDocument {
+  "@context"?: JsonLdContext;
+  type: "EPCISDocument";
+  schemaVersion: string;
+  creationDate: string;
+  epcisHeader?: EpcisHeader;
+  epcisBody: {
+    eventList: EpcisEvent[];
+  };
+}
+
+// The SBDH and other header elements are extension fields, e.g. "sbdh:StandardBusinessDocumentHeader"
+export interface EpcisHeader extends ExtensionFields {
+  epcisMasterData?: EpcisMasterData;
+}
+
+export interface EpcisMasterData {
+  vocabularyList: EpcisVocabulary[];
+}
+
+// A master data vocabulary, e.g. the locations of type urn:epcglobal:epcis:vtype:BusinessLocation
+export interface EpcisVocabulary {
+  type: string;
+  vocabularyElementList: VocabularyElement[];
+}
+
+export interface VocabularyElement extends ExtensionFields {
+  id: string;
+  attributes?: VocabularyAttribute[];
+  // Identifiers of the child elements of a location or party hierarchy
+  children?: string[];
+}
+
+export interface VocabularyAttribute {
+  id: string;
+  attribute: ExtensionValue;
+}
+
+export type EpcisAction = "ADD" | "OBSERVE" | "DELETE";
+
+export interface QuantityElement {
+  epcClass: string;
+  quantity?: number;
+  uom?: string;
+}
+
+// CBV dispositions set or unset on the objects of an event until another event changes them
+export interface PersistentDisposition {
+  set?: string[];
+  unset?: string[];
+}
+
+// A readPoint or bizLocation
+export interface EpcisLocation extends ExtensionFields {
+  id: string;
+}
+
+export interface BizTransaction {
+  type?: string;
+  bizTransaction: string;
+}
+
+export interface SourceElement {
+  type: string;
+  source: string;
+}
+
+export interface DestinationElement {
+  type: string;
+  destination: string;
+}
+
+// Declares an earlier event erroneous, with the events correcting it
+export interface ErrorDeclaration extends ExtensionFields {
+  declarationTime: string;
+  reason?: string;
+  correctiveEventIDs?: string[];
+}
+
+export interface SensorElement extends ExtensionFields {
+  sensorMetadata?: SensorMetadata;
+  sensorReport: SensorReport[];
+}
+
+export interface SensorMetadata extends ExtensionFields {
+  time?: string;
+  startTime?: string;
+  endTime?: string;
+  deviceID?: string;
+  deviceMetadata?: string;
+  rawData?: string;
+  dataProcessingMethod?: string;
+  bizRules?: string;
+}
+
+export interface SensorReport extends ExtensionFields {
+  type?: string;
+  exception?: string;
+  deviceID?: string;
+  deviceMetadata?: string;
+  rawData?: string;
+  dataProcessingMethod?: string;
+  time?: string;
+  microorganism?: string;
+  chemicalSubstance?: string;
+  value?: number;
+  component?: string;
+  stringValue?: string;
+  booleanValue?: boolean;
+  hexBinaryValue?: string;
+  uriValue?: string;
+  minValue?: number;
+  maxValue?: number;
+  meanValue?: number;
+  sDev?: number;
+  percRank?: number;
+  percValue?: number;
+  uom?: string;
+  coordinateReferenceSystem?: string;
+}
+
+// Instance or lot master data of the objects an event creates, as extension fields
+export type Ilmd = ExtensionFields;
+
+// Fields every event type has
+interface EpcisEventBase extends ExtensionFields {
+  // Set on events whose extension namespaces are missing from the document's @context
+  "@context"?: JsonLdContext;
+  eventTime: string;
+  eventTimeZoneOffset: string;
+  recordTime?: string;
+  eventID?: string;
+  certificationInfo?: string | string[];
+  errorDeclaration?: ErrorDeclaration;
+  bizStep?: string;
+  disposition?: string;
+  persistentDisposition?: PersistentDisposition;
+  readPoint?: EpcisLocation;
+  bizLocation?: EpcisLocation;
+  bizTransactionList?: BizTransaction[];
+  sourceList?: SourceElement[];
+  destinationList?: DestinationElement[];
+  sensorElementList?: SensorElement[];
+}
+
+export interface ObjectEvent extends EpcisEventBase {
+  type: "ObjectEvent";
+  action: EpcisAction;
+  epcList?: string[];
+  quantityList?: QuantityElement[];
+  ilmd?: Ilmd;
+}
+
+export interface AggregationEvent extends EpcisEventBase {
+  type: "AggregationEvent";
+  action: EpcisAction;
+  parentID?: string;
+  childEPCs?: string[];
+  childQuantityList?: QuantityElement[];
+}
+
+export interface TransactionEvent extends EpcisEventBase {
+  type: "TransactionEvent";
+  action: EpcisAction;
+  parentID?: string;
+  epcList?: string[];
+  quantityList?: QuantityElement[];
+}
+
+export interface TransformationEvent extends EpcisEventBase {
+  type: "TransformationEvent";
+  inputEPCList?: string[];
+  inputQuantityList?: QuantityElement[];
+  outputEPCList?: string[];
+  outputQuantityList?: QuantityElement[];
+  transformationID?: string;
+  ilmd?: Ilmd;
+}
+
+export interface AssociationEvent extends EpcisEventBase {
+  type: "AssociationEvent";
+  action: EpcisAction;
+  parentID?: string;
+  childEPCs?: string[];
+  childQuantityList?: QuantityElement[];
+}
+
+export type EpcisEvent = ObjectEvent | AggregationEvent | TransactionEvent | TransformationEvent | AssociationEvent;
+
+export type EpcisEventType = EpcisEvent["type"];
+
+// What iterateEvents yields: the header first, the master data when the document has any, then each event
+export type EpcisItem =
+  | {
+      kind: "header";
+      sourceFormat: EpcisSourceFormat;
+      sourceVersion: EpcisVersion;
+      creationDate?: string;
+      // Defines the prefixes of the extension fields
+      context: JsonLdContext;
+      // The epcisHeader without its master data, e.g. the StandardBusinessDocumentHeader
+      header: Omit<EpcisHeader, "epcisMasterData">;
+    }
+  | { kind: "masterData"; vocabularyList: EpcisVocabulary[] }
+  | {
+      kind: "event";
+      event: EpcisEvent;
+      // XPath of the event in XML input, JSON Pointer in JSON-LD input
+      path: string;
+    };
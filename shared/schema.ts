@@ -2,19 +2,206 @@ import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Data a conversion could not carry over into the target format, or a value it did not recognise
+export const conversionWarningSchema = z.object({
+  path: z.string(),
+  message: z.string()
+});
+
+// Rewriting of EPCs, class patterns and location and party identifiers between EPC URNs and
+// GS1 Digital Link URIs, shared by the EPCIS 2.0 XML and JSON-LD conversions
+export const identifierFormatOptionsSchema = z.object({
+  // Leave out to keep identifiers as they are written in the input
+  identifierFormat: z.enum(["urn", "digitalLink"]).optional(),
+  // Scheme and host of the Digital Link URIs written, https://id.gs1.org unless given
+  digitalLinkDomain: z.string().url().optional(),
+  // GS1 Company Prefix lengths by leading digits of the GS1 key, used to split keys into URN parts
+  companyPrefixLengths: z.record(z.string().regex(/^\d+$/), z.number().int().min(6).max(12)).optional()
+});
+
+// Normalization of bizStep, disposition, business transaction, source/destination type and error
+// reason values to the CBV 2.0 vocabularies, shared by the EPCIS 2.0 XML and JSON-LD conversions
+export const cbvFormatOptionsSchema = z.object({
+  // Form the values are written in: bare terms (shipping), URNs or GS1 Web URIs
+  cbvFormat: z.enum(["bare", "urn", "webUri"]).optional(),
+  // Called for every CBV value missing from the CBV 2.0 lists
+  onWarning: z.function().args(conversionWarningSchema).returns(z.void()).optional()
+});
+
+// EPCIS versions the converters read, told apart by namespace and schemaVersion
+export const epcisVersionSchema = z.enum(["1.0", "1.1", "1.2", "2.0"]);
+
 // Define transformation options schemas
 export const xmlTransformOptionsSchema = z.object({
+  validateXml: z.boolean().default(false),
+  preserveComments: z.boolean().default(false),
+  // Reject input whose EPC URNs have a bad syntax, company prefix length or embedded check digit
+  validateEpcs: z.boolean().default(false),
+  // Give events without an eventID their CBV 2.0 event hash ID
+  assignEventIds: z.boolean().optional(),
+  // 'local' restructures the DOM in TypeScript, 'xslt' runs the bundled GS1 stylesheet
+  engine: z.enum(["local", "xslt"]).optional(),
+  // Called with the EPCIS version of the input, 1.0 and 1.1 documents being upgraded through 1.2
+  onSourceVersion: z.function().args(epcisVersionSchema).returns(z.void()).optional(),
+  ...identifierFormatOptionsSchema.shape,
+  ...cbvFormatOptionsSchema.shape
+});
+
+export const xml12TransformOptionsSchema = z.object({
   validateXml: z.boolean().default(false),
   preserveComments: z.boolean().default(false)
 });
 
+export const jsonLdToXmlOptionsSchema = z.object({
+  // EPCIS version of the XML to produce; 1.2 output goes through the 2.0 to 1.2 downgrade
+  epcisVersion: z.enum(["2.0", "1.2"]).default("2.0"),
+  // Check the JSON-LD against the EPCIS 2.0 JSON Schema and the produced XML against the EPCIS XSD
+  validate: z.boolean().optional()
+});
+
+export const xmlConversionResultSchema = z.object({
+  xml: z.string(),
+  warnings: z.array(conversionWarningSchema)
+});
+
+// A schema validation problem, located by line/column and XPath where they can be determined
+export const validationIssueSchema = z.object({
+  line: z.number().nullable(),
+  column: z.number().nullable(),
+  xpath: z.string().nullable(),
+  message: z.string()
+});
+
+export const schemaValidationResultSchema = z.object({
+  valid: z.boolean(),
+  // EPCIS version whose XSD the document was checked against, null when it could not be determined
+  schemaVersion: z.enum(["1.2", "2.0"]).nullable(),
+  errors: z.array(validationIssueSchema)
+});
+
+// A JSON Schema violation in a JSON-LD document, located by the JSON Pointer of the offending value
+export const jsonLdValidationIssueSchema = z.object({
+  pointer: z.string(),
+  message: z.string()
+});
+
+export const jsonLdValidationResultSchema = z.object({
+  valid: z.boolean(),
+  errors: z.array(jsonLdValidationIssueSchema)
+});
+
+export const ruleSeveritySchema = z.enum(["error", "warning", "info"]);
+
+// A business rule finding, located by the index of its event in document order and an XPath
+export const ruleIssueSchema = z.object({
+  severity: ruleSeveritySchema,
+  ruleId: z.string(),
+  eventIndex: z.number().nullable(),
+  xpath: z.string().nullable(),
+  message: z.string()
+});
+
+export const validationReportSchema = z.object({
+  // False when any issue has severity "error"
+  valid: z.boolean(),
+  issues: z.array(ruleIssueSchema)
+});
+
+export const ruleValidationOptionsSchema = z.object({
+  // Severity overrides by rule id, "off" disables a rule
+  rules: z.record(z.string(), z.union([ruleSeveritySchema, z.literal("off")])).default({}),
+  // Optional rule packs to run next to the built-in rules
+  rulePacks: z.array(z.enum(["dscsa"])).default([]),
+  // Also check the document against its EPCIS XSD, reporting each schema issue under the "xsd" rule id
+  schema: z.boolean().default(false)
+});
+
+// One part of an EPC URN, e.g. the company prefix, with an explanation of what it holds
+export const epcComponentSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+  description: z.string()
+});
+
+export const epcInspectionSchema = z.object({
+  uri: z.string(),
+  valid: z.boolean(),
+  // id for pure identities, class for lgtin, idpat for patterns; null when the URN could not be read
+  type: z.enum(["id", "class", "idpat"]).nullable(),
+  scheme: z.string().nullable(),
+  // Partition value of the binary encodings, set by the company prefix length
+  partition: z.number().nullable(),
+  components: z.array(epcComponentSchema),
+  // GS1 key with its computed check digit, e.g. { name: "GTIN", value: "10614141123458" }
+  gs1Key: z.object({ name: z.string(), value: z.string() }).nullable(),
+  elementString: z.string().nullable(),
+  errors: z.array(z.string())
+});
+
+// Formats the transform entry point writes
+export const epcisFormatSchema = z.enum(["epcis12-xml", "epcis20-xml", "jsonld"]);
+
+// Formats it reads; EPCIS 1.0 and 1.1 XML are epcis11-xml and are upgraded on the way to any other format
+export const epcisSourceFormatSchema = z.enum(["epcis11-xml", ...epcisFormatSchema.options]);
+
+export const transformOptionsSchema = z.object({
+  to: epcisFormatSchema,
+  // Check the input and output of every conversion step against their schemas
+  validate: z.boolean().optional()
+});
+
+export const transformResultSchema = z.object({
+  result: z.string(),
+  // Format the input was detected as
+  sourceFormat: epcisSourceFormatSchema,
+  // Formats the document went through, from the detected format to the requested one
+  chain: z.array(epcisSourceFormatSchema),
+  warnings: z.array(conversionWarningSchema)
+});
+
+// Options of iterateEvents, parseEpcis and serializeEpcis, which work on the object model of epcis-model.ts
+export const epcisModelOptionsSchema = z.object({
+  // Called for data a conversion could not carry over and for unknown CBV values
+  onWarning: z.function().args(conversionWarningSchema).returns(z.void()).optional()
+});
+
 export const jsonLdTransformOptionsSchema = z.object({
   prettyPrint: z.boolean().default(true),
-  includeContext: z.boolean().default(true)
+  includeContext: z.boolean().default(true),
+  // Check the produced JSON-LD against the EPCIS 2.0 JSON Schema and fail when it is not valid
+  validate: z.boolean().default(false),
+  // Reject input whose EPC URNs have a bad syntax, company prefix length or embedded check digit
+  validateEpcs: z.boolean().default(false),
+  // Give events without an eventID their CBV 2.0 event hash ID
+  assignEventIds: z.boolean().optional(),
+  ...identifierFormatOptionsSchema.shape,
+  ...cbvFormatOptionsSchema.shape
 });
 
+export type IdentifierFormatOptions = z.infer<typeof identifierFormatOptionsSchema>;
+export type CbvFormat = NonNullable<z.infer<typeof cbvFormatOptionsSchema>["cbvFormat"]>;
+export type EpcisVersion = z.infer<typeof epcisVersionSchema>;
 export type XmlTransformOptions = z.infer<typeof xmlTransformOptionsSchema>;
 export type JsonLdTransformOptions = z.infer<typeof jsonLdTransformOptionsSchema>;
+export type Xml12TransformOptions = z.infer<typeof xml12TransformOptionsSchema>;
+export type JsonLdToXmlOptions = z.infer<typeof jsonLdToXmlOptionsSchema>;
+export type EpcisFormat = z.infer<typeof epcisFormatSchema>;
+export type EpcisSourceFormat = z.infer<typeof epcisSourceFormatSchema>;
+export type TransformOptions = z.infer<typeof transformOptionsSchema>;
+export type TransformResult = z.infer<typeof transformResultSchema>;
+export type EpcisModelOptions = z.infer<typeof epcisModelOptionsSchema>;
+export type ConversionWarning = z.infer<typeof conversionWarningSchema>;
+export type XmlConversionResult = z.infer<typeof xmlConversionResultSchema>;
+export type ValidationIssue = z.infer<typeof validationIssueSchema>;
+export type SchemaValidationResult = z.infer<typeof schemaValidationResultSchema>;
+export type JsonLdValidationIssue = z.infer<typeof jsonLdValidationIssueSchema>;
+export type JsonLdValidationResult = z.infer<typeof jsonLdValidationResultSchema>;
+export type RuleSeverity = z.infer<typeof ruleSeveritySchema>;
+export type RuleIssue = z.infer<typeof ruleIssueSchema>;
+export type ValidationReport = z.infer<typeof validationReportSchema>;
+export type RuleValidationOptions = z.infer<typeof ruleValidationOptionsSchema>;
+export type EpcComponent = z.infer<typeof epcComponentSchema>;
+export type EpcInspection = z.infer<typeof epcInspectionSchema>;
 
 // Status message schema for the UI
 export const statusSchema = z.object({
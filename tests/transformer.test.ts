@@ -1,10 +1,48 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import fs from 'fs/promises';
 import path from 'path';
+import { createHash } from 'crypto';
+import { Readable, type Transform } from 'stream';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { DOMParser } from '@xmldom/xmldom';
 import {
   convertToEpcis20Xml,
-  convertToJsonLd
+  convertToEpcis20XmlSync,
+  convertToEpcis12Xml,
+  convertToJsonLd,
+  convertToJsonLdSync,
+  convertJsonLdToXml,
+  validateEpcisXml,
+  validateJsonLd,
+  validateEpcis,
+  RuleEngine,
+  inspectEpc,
+  toDigitalLink,
+  toEpcUrn,
+  formatCbvValue,
+  eventHash,
+  detectEpcisVersion,
+  detectFormat,
+  transform,
+  createEpcis20XmlStream,
+  createJsonLdStream,
+  iterateEvents,
+  parseEpcis,
+  serializeEpcis,
+  EpcisDocumentBuilder,
+  createTransformer,
+  createRemoteEngine,
+  registerEngine,
+  listEngines,
+  ValidationError,
+  TransformationError,
+  type EpcisItem,
+  type EpcisDocument,
+  type EpcisEvent,
+  type ConversionEngine
 } from '../server/epcis-transformer';
+import { registerRoutes } from '../server/routes';
 
 // Test files
 const TEST_FILES = [
@@ -14,7 +52,7 @@ const TEST_FILES = [
 
 // Options - disable XML validation to avoid issues with malformed XML
 const xmlOptions = { validateXml: false, preserveComments: false };
-const jsonOptions = { prettyPrint: true, includeContext: true };
+const jsonOptions = { prettyPrint: true, includeContext: true, validate: false };
 
 // Helper function to normalize XML/JSON for comparison
 function normalizeString(str: string): string {
@@ -47,6 +85,34 @@ function hasEvents(obj: any): boolean {
   return false;
 }
 
+/**
+ * Reduce an EPCIS 2.0 XML document to its event structure: the event types in document order
+ * and, per event, the names of its fields. Identifier values are left out because OpenEPCIS
+ * rewrites EPC URNs as GS1 Digital Link URIs. OpenEPCIS also inlines ILMD fields into the event,
+ * so ILMD children are listed in place of the ilmd element, sorted by name.
+ */
+function eventOutline(xml: string): Array<{ type: string; fields: string[] }> {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const eventList = doc.getElementsByTagName('EventList')[0];
+  const elementChildren = (node: any): any[] =>
+    Array.from(node.childNodes as ArrayLike<any>).filter(child => child.nodeType === 1);
+
+  return elementChildren(eventList).map(event => {
+    const fields: string[] = [];
+    const ilmdFields: string[] = [];
+    for (const child of elementChildren(event)) {
+      if (child.localName === 'ilmd') {
+        ilmdFields.push(...elementChildren(child).map(field => field.localName));
+      } else if (child.namespaceURI) {
+        ilmdFields.push(child.localName);
+      } else {
+        fields.push(child.localName);
+      }
+    }
+    return { type: event.localName, fields: [...fields, ...ilmdFields.sort()] };
+  });
+}
+
 describe('EPCIS Transformer Tests', () => {
   describe('XML 1.2 to XML 2.0 Conversion', () => {
     for (const fileName of TEST_FILES) {
@@ -84,6 +150,283 @@ describe('EPCIS Transformer Tests', () => {
     }
   });
 
+  describe('XML 1.2 to XML 2.0 Event Structure', () => {
+    for (const engine of ['local', 'xslt'] as const) {
+      for (const fileName of TEST_FILES) {
+        it(`converts ${fileName} to the same event structure as OpenEPCIS (${engine} engine)`, async () => {
+          const xmlContent = await fs.readFile(path.join('attached_assets', fileName), 'utf-8');
+          const expectedOutput = await fs.readFile(path.join('tests/fixtures', `${fileName}.epcis20.xml`), 'utf-8');
+          
+          const result = await convertToEpcis20Xml(xmlContent, { ...xmlOptions, engine });
+          const body = result.slice(result.indexOf('<EPCISBody'));
+          
+          expect(result).toContain('xmlns:epcis="urn:epcglobal:epcis:xsd:2"');
+          expect(result).toContain('schemaVersion="2.0"');
+          expect(body).not.toContain('<extension>');
+          expect(body.match(/<EventList>/g)).toHaveLength(1);
+          expect(eventOutline(result)).toEqual(eventOutline(expectedOutput));
+        });
+      }
+    }
+
+    it('moves extension constructs of every event type to their EPCIS 2.0 positions', async () => {
+      const xml = `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" xmlns:ex="http://example.com/ext" schemaVersion="1.2" creationDate="2024-01-01T00:00:00Z">
+        <EPCISBody><EventList>
+          <AggregationEvent>
+            <eventTime>2024-01-01T00:00:00Z</eventTime><eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+            <baseExtension><eventID>urn:uuid:1</eventID></baseExtension>
+            <parentID>urn:epc:id:sscc:0614141.1234567890</parentID>
+            <action>ADD</action>
+            <extension>
+              <childQuantityList><quantityElement><epcClass>urn:epc:class:lgtin:4012345.012345.998877</epcClass><quantity>10</quantity></quantityElement></childQuantityList>
+              <extension><ex:temperature>4</ex:temperature></extension>
+            </extension>
+          </AggregationEvent>
+          <extension>
+            <TransformationEvent>
+              <eventTime>2024-01-01T00:00:00Z</eventTime><eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+              <baseExtension>
+                <errorDeclaration>
+                  <declarationTime>2024-01-02T00:00:00Z</declarationTime>
+                  <extension><ex:note>typo</ex:note></extension>
+                </errorDeclaration>
+              </baseExtension>
+              <inputEPCList><epc>urn:epc:id:sgtin:4012345.011122.25</epc></inputEPCList>
+              <ilmd><ex:lot>L1</ex:lot></ilmd>
+            </TransformationEvent>
+          </extension>
+        </EventList></EPCISBody>
+      </epcis:EPCISDocument>`;
+      
+      const result = await convertToEpcis20Xml(xml, xmlOptions);
+      
+      expect(eventOutline(result)).toEqual([
+        { type: 'AggregationEvent', fields: ['eventTime', 'eventTimeZoneOffset', 'eventID', 'parentID', 'childEPCs', 'action', 'childQuantityList', 'temperature'] },
+        { type: 'TransformationEvent', fields: ['eventTime', 'eventTimeZoneOffset', 'errorDeclaration', 'inputEPCList', 'lot'] }
+      ]);
+      const errorDeclaration = new DOMParser().parseFromString(result, 'application/xml').getElementsByTagName('errorDeclaration')[0];
+      expect(errorDeclaration.getElementsByTagName('extension')).toHaveLength(0);
+      expect(errorDeclaration.getElementsByTagName('ex:note')).toHaveLength(1);
+    });
+  });
+
+  describe('EPCISHeader Conversion', () => {
+    for (const engine of ['local', 'xslt'] as const) {
+      it(`keeps SBDH, master data and the DSCSA statement in the 2.0 header layout (${engine} engine)`, async () => {
+        const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+        
+        const result = await convertToEpcis20Xml(xmlContent, { ...xmlOptions, engine });
+        const doc = new DOMParser().parseFromString(result, 'application/xml');
+        const header = doc.getElementsByTagName('EPCISHeader')[0];
+        const fields = Array.from(header.childNodes as ArrayLike<any>)
+          .filter(child => child.nodeType === 1)
+          .map(child => child.localName);
+        
+        expect(fields).toEqual(['StandardBusinessDocumentHeader', 'epcisMasterData', 'dscsaTransactionStatement']);
+        expect(header.getElementsByTagName('extension')).toHaveLength(0);
+        expect(header.getElementsByTagName('EPCISMasterData')).toHaveLength(0);
+        expect(header.getElementsByTagName('VocabularyElement')).toHaveLength(6);
+        expect(header.getElementsByTagName('sbdh:Identifier')[0].getAttribute('Authority')).toBe('SGLN');
+      });
+    }
+
+    it('carries the header into JSON-LD', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      
+      const xml20Result = await convertToEpcis20Xml(xmlContent, xmlOptions);
+      const resultJson = JSON.parse(await convertToJsonLd(xml20Result, jsonOptions));
+      const header = resultJson.epcisHeader;
+      
+      expect(resultJson['@context'][1]).toEqual({
+        sbdh: 'http://www.unece.org/cefact/namespaces/StandardBusinessDocumentHeader',
+        gs1ushc: 'http://epcis.gs1us.org/hc/ns',
+        cbvmda: 'urn:epcglobal:cbv:mda'
+      });
+      expect(header['sbdh:StandardBusinessDocumentHeader']['sbdh:Sender']['sbdh:Identifier']).toEqual({
+        Authority: 'SGLN',
+        '#text': 'urn:epc:id:sgln:030001.111124.0'
+      });
+      expect(header.epcisMasterData.vocabularyList.map((vocabulary: any) => vocabulary.type)).toEqual([
+        'urn:epcglobal:epcis:vtype:EPCClass',
+        'urn:epcglobal:epcis:vtype:Location'
+      ]);
+      expect(header.epcisMasterData.vocabularyList[0].vocabularyElementList[0].attributes[1]).toEqual({
+        id: 'urn:epcglobal:cbv:mda#additionalTradeItemIdentificationTypeCode',
+        attribute: 'FDA_NDC_11'
+      });
+      expect(header['gs1ushc:dscsaTransactionStatement']['gs1ushc:affirmTransactionStatement']).toBe('true');
+    });
+  });
+
+  describe('XML 2.0 to XML 1.2 Conversion', () => {
+    for (const fileName of TEST_FILES) {
+      it(`round-trips ${fileName} through EPCIS 1.2 without losing data`, async () => {
+        const xmlContent = await fs.readFile(path.join('attached_assets', fileName), 'utf-8');
+        
+        const xml20Result = await convertToEpcis20Xml(xmlContent, xmlOptions);
+        const { xml: xml12Result, warnings } = await convertToEpcis12Xml(xml20Result, xmlOptions);
+        
+        expect(warnings).toEqual([]);
+        expect(xml12Result).toContain('xmlns:epcis="urn:epcglobal:epcis:xsd:1"');
+        expect(xml12Result).toContain('schemaVersion="1.2"');
+        expect(await convertToEpcis20Xml(xml12Result, xmlOptions)).toBe(xml20Result);
+      });
+    }
+    
+    it('moves 2.0 fields into 1.2 extensions and reports what 1.2 cannot represent', async () => {
+      const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
+<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2" schemaVersion="2.0" creationDate="2024-01-01T00:00:00Z">
+  <EPCISBody>
+    <EventList>
+      <ObjectEvent>
+        <eventTime>2024-01-01T10:00:00Z</eventTime>
+        <eventTimeZoneOffset>+01:00</eventTimeZoneOffset>
+        <eventID>urn:uuid:1</eventID>
+        <certificationInfo>https://example.com/cert/1</certificationInfo>
+        <epcList><epc>urn:epc:id:sgtin:0614141.107346.2017</epc></epcList>
+        <action>OBSERVE</action>
+        <quantityList>
+          <quantityElement><epcClass>urn:epc:class:lgtin:4012345.012345.998877</epcClass></quantityElement>
+        </quantityList>
+        <sensorElementList>
+          <sensorElement><sensorReport type="gs1:Temperature" value="4.5"/></sensorElement>
+        </sensorElementList>
+      </ObjectEvent>
+      <TransformationEvent>
+        <eventTime>2024-01-01T11:00:00Z</eventTime>
+        <eventTimeZoneOffset>+01:00</eventTimeZoneOffset>
+        <transformationID>urn:epc:id:gdti:0614141.12345.400</transformationID>
+      </TransformationEvent>
+      <AssociationEvent>
+        <eventTime>2024-01-01T12:00:00Z</eventTime>
+        <eventTimeZoneOffset>+01:00</eventTimeZoneOffset>
+        <parentID>urn:epc:id:grai:4012345.55555.987</parentID>
+        <action>ADD</action>
+      </AssociationEvent>
+    </EventList>
+  </EPCISBody>
+</epcis:EPCISDocument>`;
+      
+      const { xml, warnings } = await convertToEpcis12Xml(xmlContent, xmlOptions);
+      const result = normalizeString(xml);
+      
+      expect(result).toContain('<eventTimeZoneOffset>+01:00</eventTimeZoneOffset><baseExtension><eventID>urn:uuid:1</eventID></baseExtension><epcList>');
+      expect(result).toContain('<action>OBSERVE</action><extension><quantityList>');
+      expect(result).toContain('<extension><TransformationEvent>');
+      expect(result).not.toContain('certificationInfo');
+      expect(result).not.toContain('sensorElementList');
+      expect(result).not.toContain('AssociationEvent');
+      expect(warnings.map(warning => warning.path)).toEqual([
+        'EPCISBody/EventList/ObjectEvent[1]/certificationInfo',
+        'EPCISBody/EventList/ObjectEvent[1]/sensorElementList',
+        'EPCISBody/EventList/AssociationEvent[1]'
+      ]);
+    });
+    
+    it('rejects documents that are not EPCIS 2.0', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      
+      await expect(convertToEpcis12Xml(xmlContent, xmlOptions)).rejects.toThrow('Not an EPCIS 2.0 document');
+    });
+  });
+
+  describe('Comment Handling', () => {
+    const commentTexts = (xml: string) => (xml.match(/<!--[\s\S]*?-->/g) || []).map(comment => comment.trim());
+    
+    it('drops comments by default', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      expect(commentTexts(xmlContent).length).toBeGreaterThan(0);
+      
+      const result = await convertToEpcis20Xml(xmlContent, xmlOptions);
+      
+      expect(commentTexts(result)).toEqual([]);
+    });
+    
+    it('keeps every comment when preserveComments is set', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      
+      const result = await convertToEpcis20Xml(xmlContent, { ...xmlOptions, preserveComments: true });
+      
+      expect(commentTexts(result)).toEqual(commentTexts(xmlContent));
+    });
+    
+    it('moves comments with the elements they precede', async () => {
+      const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- generated by partner tooling -->
+<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" xmlns:ex="http://example.com/ext"
+    schemaVersion="1.2" creationDate="2024-01-01T00:00:00Z">
+  <EPCISBody>
+    <EventList>
+      <ObjectEvent>
+        <eventTime>2024-01-01T10:00:00Z</eventTime>
+        <eventTimeZoneOffset>+01:00</eventTimeZoneOffset>
+        <epcList/>
+        <action>ADD</action>
+        <!-- partner field -->
+        <ex:note>moved after the standard fields</ex:note>
+        <extension>
+          <!-- lot information -->
+          <ilmd><ex:lot>LOT1</ex:lot></ilmd>
+        </extension>
+      </ObjectEvent>
+    </EventList>
+  </EPCISBody>
+</epcis:EPCISDocument>`;
+      
+      const result = normalizeString(await convertToEpcis20Xml(xmlContent, { ...xmlOptions, preserveComments: true }));
+      
+      expect(result).toContain('<?xml version="1.0" encoding="UTF-8"?><!-- generated by partner tooling --><epcis:EPCISDocument');
+      expect(result).toContain('<action>ADD</action><!-- lot information --><ilmd>');
+      expect(result).toContain('</ilmd><!-- partner field --><ex:note>');
+    });
+  });
+
+  describe('Namespace Resolution', () => {
+    // Rewrites the conventional prefixes the way Java tooling generates them
+    const withGeneratedPrefixes = (xml: string) => xml
+      .replace(/(<\/?|xmlns:)epcis\b/g, '$1ns3')
+      .replace(/(<\/?|xmlns:)sbdh\b/g, '$1ns2')
+      .replace(/(<\/?|xmlns:)cbvmda\b/g, '$1ns4')
+      .replace(/(<\/?|xmlns:)gs1ushc\b/g, '$1ns5');
+    
+    // Moves the EPCIS namespace from the epcis: prefix to a default namespace declaration
+    const withDefaultNamespace = (xml: string) => xml
+      .replace(/<(\/?)epcis:EPCISDocument/g, '<$1EPCISDocument')
+      .replace('xmlns:epcis=', 'xmlns=');
+    
+    let xmlContent: string;
+    let expectedXml: string;
+    let expectedJsonLd: string;
+    
+    beforeAll(async () => {
+      xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      expectedXml = await convertToEpcis20Xml(xmlContent, xmlOptions);
+      expectedJsonLd = await convertToJsonLd(expectedXml, jsonOptions);
+    });
+    
+    it('converts documents using generated ns2/ns3 prefixes', async () => {
+      const xml20Result = await convertToEpcis20Xml(withGeneratedPrefixes(xmlContent), xmlOptions);
+      
+      expect(eventOutline(xml20Result)).toEqual(eventOutline(expectedXml));
+      expect(xml20Result).toContain('<sbdh:StandardBusinessDocumentHeader>');
+      expect(await convertToJsonLd(xml20Result, jsonOptions)).toBe(expectedJsonLd);
+    });
+    
+    it('converts documents using a default EPCIS namespace', async () => {
+      const xml20Result = await convertToEpcis20Xml(withDefaultNamespace(xmlContent), xmlOptions);
+      
+      expect(xml20Result).toBe(expectedXml);
+      expect(await convertToJsonLd(xml20Result, jsonOptions)).toBe(expectedJsonLd);
+    });
+    
+    it('rejects documents whose root is not an EPCISDocument', async () => {
+      const xml = '<epcis:EPCISDocument xmlns:epcis="http://example.com/other"><EPCISBody/></epcis:EPCISDocument>';
+      
+      await expect(convertToEpcis20Xml(xml, xmlOptions)).rejects.toThrow('Not an EPCIS document');
+      await expect(convertToJsonLd(xml, jsonOptions)).rejects.toThrow('Not an EPCIS document');
+    });
+  });
+
   describe('XML 2.0 to JSON-LD Conversion', () => {
     for (const fileName of TEST_FILES) {
       it(`correctly converts ${fileName} from EPCIS 2.0 XML to JSON-LD`, async () => {
@@ -119,6 +462,1365 @@ describe('EPCIS Transformer Tests', () => {
     }
   });
 
+  describe('JSON-LD Event Fields', () => {
+    for (const fileName of TEST_FILES) {
+      it(`matches the OpenEPCIS events of ${fileName} field for field`, async () => {
+        const xmlContent = await fs.readFile(path.join('tests/fixtures', `${fileName}.epcis20.xml`), 'utf-8');
+        const expectedJson = JSON.parse(await fs.readFile(path.join('tests/fixtures', `${fileName}.jsonld`), 'utf-8'));
+        
+        const resultJson = JSON.parse(await convertToJsonLd(xmlContent, jsonOptions));
+        
+        expect(resultJson.epcisBody.eventList).toEqual(expectedJson.epcisBody.eventList);
+      });
+    }
+    
+    const eventListDocument = (root: string) => `<?xml version="1.0" encoding="UTF-8"?>
+${root}
+  <EPCISBody>
+    <EventList>
+      <AggregationEvent><eventTime>2024-01-01T12:00:00Z</eventTime><eventTimeZoneOffset>+00:00</eventTimeZoneOffset><action>ADD</action></AggregationEvent>
+      <ObjectEvent><eventTime>2024-01-01T10:00:00Z</eventTime><eventTimeZoneOffset>+00:00</eventTimeZoneOffset><action>OBSERVE</action></ObjectEvent>
+      <TransformationEvent><eventTime>2024-01-01T11:00:00Z</eventTime><eventTimeZoneOffset>+00:00</eventTimeZoneOffset></TransformationEvent>
+      <ObjectEvent><eventTime>2024-01-01T09:00:00Z</eventTime><eventTimeZoneOffset>+00:00</eventTimeZoneOffset><action>ADD</action></ObjectEvent>
+    </EventList>
+  </EPCISBody>
+</${root.match(/^<([^\s>]+)/)![1]}>`;
+    
+    const documentVariants = {
+      prefixed: eventListDocument(
+        '<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2" schemaVersion="2.0" creationDate="2024-01-01T00:00:00Z">'
+      ),
+      unprefixed: eventListDocument(
+        '<EPCISDocument schemaVersion="2.0" creationDate="2024-01-01T00:00:00Z">'
+      ),
+      'default-namespaced': eventListDocument(
+        '<EPCISDocument xmlns="urn:epcglobal:epcis:xsd:2" schemaVersion="2.0" creationDate="2024-01-01T00:00:00Z">'
+      )
+    };
+    
+    for (const [variant, xmlContent] of Object.entries(documentVariants)) {
+      it(`keeps document event order and type labels for ${variant} documents`, async () => {
+        const resultJson = JSON.parse(await convertToJsonLd(xmlContent, jsonOptions));
+        
+        expect(resultJson.epcisBody.eventList.map((event: any) => [event.type, event.eventTime])).toEqual([
+          ['AggregationEvent', '2024-01-01T12:00:00Z'],
+          ['ObjectEvent', '2024-01-01T10:00:00Z'],
+          ['TransformationEvent', '2024-01-01T11:00:00Z'],
+          ['ObjectEvent', '2024-01-01T09:00:00Z']
+        ]);
+        expect(resultJson['@context']).toEqual(['https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld']);
+      });
+    }
+    
+    it('converts every EPCIS 2.0 event field', async () => {
+      const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
+<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2" xmlns:cbvmda="urn:epcglobal:cbv:mda"
+    xmlns:ex="http://example.com/ext" schemaVersion="2.0" creationDate="2024-01-01T00:00:00Z">
+  <EPCISBody>
+    <EventList>
+      <ObjectEvent>
+        <eventTime>2024-01-01T10:00:00Z</eventTime>
+        <recordTime>2024-01-01T10:05:00Z</recordTime>
+        <eventTimeZoneOffset>+01:00</eventTimeZoneOffset>
+        <eventID>ni:///sha-256;abc?ver=CBV2.0</eventID>
+        <errorDeclaration>
+          <declarationTime>2024-01-02T00:00:00Z</declarationTime>
+          <reason>urn:epcglobal:cbv:er:incorrect_data</reason>
+          <correctiveEventIDs>
+            <correctiveEventID>urn:uuid:1</correctiveEventID>
+            <correctiveEventID>urn:uuid:2</correctiveEventID>
+          </correctiveEventIDs>
+        </errorDeclaration>
+        <certificationInfo>https://example.com/cert/1</certificationInfo>
+        <epcList/>
+        <action>OBSERVE</action>
+        <bizStep>urn:epcglobal:cbv:bizstep:receiving</bizStep>
+        <disposition>https://example.com/disp/custom</disposition>
+        <readPoint><id>urn:epc:id:sgln:0614141.00777.0</id><ex:door>4</ex:door></readPoint>
+        <bizTransactionList>
+          <bizTransaction type="urn:epcglobal:cbv:btt:po">urn:epcglobal:cbv:bt:0614141000005:PO1</bizTransaction>
+        </bizTransactionList>
+        <quantityList>
+          <quantityElement>
+            <epcClass>urn:epc:class:lgtin:4012345.012345.998877</epcClass>
+            <quantity>200.5</quantity>
+            <uom>KGM</uom>
+          </quantityElement>
+        </quantityList>
+        <sourceList><source type="urn:epcglobal:cbv:sdt:owning_party">urn:epc:id:pgln:0614141.00001</source></sourceList>
+        <destinationList><destination type="urn:epcglobal:cbv:sdt:location">urn:epc:id:sgln:0614141.00002.0</destination></destinationList>
+        <sensorElementList>
+          <sensorElement>
+            <sensorMetadata time="2024-01-01T09:00:00Z" deviceID="urn:epc:id:giai:4000001.111"/>
+            <sensorReport type="gs1:Temperature" value="4.5" uom="CEL" xmlns:gs1="https://gs1.org/voc/"/>
+            <sensorReport type="gs1:Humidity" booleanValue="true" xmlns:gs1="https://gs1.org/voc/"/>
+          </sensorElement>
+        </sensorElementList>
+        <persistentDisposition>
+          <set>urn:epcglobal:cbv:disp:completeness_verified</set>
+          <unset>urn:epcglobal:cbv:disp:completeness_inferred</unset>
+        </persistentDisposition>
+        <ilmd><cbvmda:lotNumber>LOT1</cbvmda:lotNumber></ilmd>
+        <ex:note>hello</ex:note>
+      </ObjectEvent>
+      <AggregationEvent>
+        <eventTime>2024-01-01T11:00:00Z</eventTime>
+        <eventTimeZoneOffset>+01:00</eventTimeZoneOffset>
+        <parentID>urn:epc:id:sscc:0614141.1234567890</parentID>
+        <childEPCs><epc>urn:epc:id:sgtin:0614141.107346.2017</epc></childEPCs>
+        <action>ADD</action>
+        <childQuantityList>
+          <quantityElement>
+            <epcClass>urn:epc:idpat:sgtin:4012345.098765.*</epcClass>
+            <quantity>10</quantity>
+          </quantityElement>
+        </childQuantityList>
+      </AggregationEvent>
+      <TransformationEvent>
+        <eventTime>2024-01-01T12:00:00Z</eventTime>
+        <eventTimeZoneOffset>+01:00</eventTimeZoneOffset>
+        <inputEPCList><epc>urn:epc:id:sgtin:4012345.011122.25</epc></inputEPCList>
+        <outputEPCList><epc>urn:epc:id:sgtin:4012345.077889.25</epc></outputEPCList>
+        <transformationID>urn:epc:id:gdti:0614141.12345.400</transformationID>
+      </TransformationEvent>
+    </EventList>
+  </EPCISBody>
+</epcis:EPCISDocument>`;
+      
+      const resultJson = JSON.parse(await convertToJsonLd(xmlContent, jsonOptions));
+      const [objectEvent, aggregationEvent, transformationEvent] = resultJson.epcisBody.eventList;
+      
+      expect(objectEvent).toEqual({
+        type: 'ObjectEvent',
+        eventTime: '2024-01-01T10:00:00Z',
+        recordTime: '2024-01-01T10:05:00Z',
+        eventTimeZoneOffset: '+01:00',
+        eventID: 'ni:///sha-256;abc?ver=CBV2.0',
+        errorDeclaration: {
+          declarationTime: '2024-01-02T00:00:00Z',
+          reason: 'incorrect_data',
+          correctiveEventIDs: ['urn:uuid:1', 'urn:uuid:2']
+        },
+        certificationInfo: 'https://example.com/cert/1',
+        epcList: [],
+        action: 'OBSERVE',
+        bizStep: 'receiving',
+        disposition: 'https://example.com/disp/custom',
+        readPoint: { id: 'urn:epc:id:sgln:0614141.00777.0', 'ex:door': '4' },
+        bizTransactionList: [{ type: 'po', bizTransaction: 'urn:epcglobal:cbv:bt:0614141000005:PO1' }],
+        quantityList: [{ epcClass: 'urn:epc:class:lgtin:4012345.012345.998877', quantity: 200.5, uom: 'KGM' }],
+        sourceList: [{ type: 'owning_party', source: 'urn:epc:id:pgln:0614141.00001' }],
+        destinationList: [{ type: 'location', destination: 'urn:epc:id:sgln:0614141.00002.0' }],
+        sensorElementList: [{
+          sensorMetadata: { time: '2024-01-01T09:00:00Z', deviceID: 'urn:epc:id:giai:4000001.111' },
+          sensorReport: [
+            { type: 'gs1:Temperature', value: 4.5, uom: 'CEL' },
+            { type: 'gs1:Humidity', booleanValue: true }
+          ]
+        }],
+        persistentDisposition: { set: ['completeness_verified'], unset: ['completeness_inferred'] },
+        ilmd: { 'cbvmda:lotNumber': 'LOT1' },
+        'ex:note': 'hello'
+      });
+      expect(aggregationEvent.parentID).toBe('urn:epc:id:sscc:0614141.1234567890');
+      expect(aggregationEvent.childEPCs).toEqual(['urn:epc:id:sgtin:0614141.107346.2017']);
+      expect(aggregationEvent.childQuantityList).toEqual([
+        { epcClass: 'urn:epc:idpat:sgtin:4012345.098765.*', quantity: 10 }
+      ]);
+      expect(transformationEvent.inputEPCList).toEqual(['urn:epc:id:sgtin:4012345.011122.25']);
+      expect(transformationEvent.outputEPCList).toEqual(['urn:epc:id:sgtin:4012345.077889.25']);
+      expect(transformationEvent.transformationID).toBe('urn:epc:id:gdti:0614141.12345.400');
+      expect(resultJson['@context'][1]).toEqual({ cbvmda: 'urn:epcglobal:cbv:mda', ex: 'http://example.com/ext' });
+    });
+  });
+
+  describe('JSON-LD to XML Conversion', () => {
+    for (const fileName of TEST_FILES) {
+      it(`round-trips the ${fileName} JSON-LD fixture through EPCIS 2.0 XML`, async () => {
+        const fixture = JSON.parse(await fs.readFile(path.join('tests/fixtures', `${fileName}.jsonld`), 'utf-8'));
+        
+        const { xml, warnings } = await convertJsonLdToXml(JSON.stringify(fixture));
+        const resultJson = JSON.parse(await convertToJsonLd(xml, jsonOptions));
+        
+        expect(warnings).toEqual([]);
+        expect(xml).toContain('xmlns:epcis="urn:epcglobal:epcis:xsd:2"');
+        expect(resultJson.epcisBody).toEqual(fixture.epcisBody);
+      });
+    }
+    
+    it('writes extension fields in the namespaces defined by @context', async () => {
+      const jsonLd = JSON.stringify({
+        '@context': ['https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld', { ex: 'http://example.com/ext' }],
+        type: 'EPCISDocument',
+        schemaVersion: '2.0',
+        creationDate: '2024-01-01T00:00:00Z',
+        epcisBody: {
+          eventList: [{
+            type: 'ObjectEvent',
+            eventTime: '2024-01-01T10:00:00Z',
+            eventTimeZoneOffset: '+01:00',
+            epcList: ['urn:epc:id:sgtin:0614141.107346.2017'],
+            action: 'OBSERVE',
+            bizStep: 'shipping',
+            'ex:temperature': { unit: 'CEL', '#text': '4.5' },
+            'ex:handler': ['alice', 'bob'],
+            'undefined:field': 'x'
+          }]
+        }
+      });
+      
+      const { xml, warnings } = await convertJsonLdToXml(jsonLd);
+      const result = normalizeString(xml);
+      
+      expect(result).toContain('xmlns:ex="http://example.com/ext"');
+      expect(result).toContain('<bizStep>urn:epcglobal:cbv:bizstep:shipping</bizStep>');
+      expect(result).toContain('<ex:temperature unit="CEL">4.5</ex:temperature><ex:handler>alice</ex:handler><ex:handler>bob</ex:handler></ObjectEvent>');
+      expect(result).not.toContain('undefined:field');
+      expect(warnings.map(warning => warning.path)).toEqual(['epcisBody.eventList[0].undefined:field']);
+    });
+    
+    it('produces EPCIS 1.2 XML when asked', async () => {
+      const fixture = await fs.readFile(path.join('tests/fixtures', 'epcis_1.2.sample.xml.jsonld'), 'utf-8');
+      
+      const { xml, warnings } = await convertJsonLdToXml(fixture, { epcisVersion: '1.2' });
+      
+      expect(warnings).toEqual([]);
+      expect(xml).toContain('xmlns:epcis="urn:epcglobal:epcis:xsd:1"');
+      expect(xml).toContain('schemaVersion="1.2"');
+    });
+    
+    it('rejects JSON that is not an EPCIS document', async () => {
+      await expect(convertJsonLdToXml('{"type": "Foo"}')).rejects.toThrow('Not an EPCIS JSON-LD document');
+      await expect(convertJsonLdToXml('<xml/>')).rejects.toThrow('Invalid JSON-LD document');
+    });
+  });
+
+  describe('XSD Schema Validation', () => {
+    it('accepts schema-valid input and checks the converted documents', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      const validateOptions = { validateXml: true, preserveComments: false };
+      
+      expect(await validateEpcisXml(xmlContent)).toEqual({ valid: true, schemaVersion: '1.2', errors: [] });
+      
+      const xml20Result = await convertToEpcis20Xml(xmlContent, validateOptions);
+      const { xml: xml12Result } = await convertToEpcis12Xml(xml20Result, validateOptions);
+      
+      expect((await validateEpcisXml(xml20Result)).schemaVersion).toBe('2.0');
+      expect((await validateEpcisXml(xml12Result)).valid).toBe(true);
+    });
+    
+    it('rejects schema-invalid input with line, column and XPath of each issue', async () => {
+      // The sample document has a second EventList, which the EPCIS 1.2 schema does not allow
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      
+      const error = await convertToEpcis20Xml(xmlContent, { validateXml: true, preserveComments: false })
+        .catch(error => error);
+      
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toContain('Input document is not valid against the EPCIS 1.2 schema');
+      expect(error.errors).toEqual([{
+        line: 131,
+        column: 3,
+        xpath: '/epcis:EPCISDocument/EPCISBody/EventList[2]',
+        message: expect.stringContaining("Element 'EventList': This element is not expected")
+      }]);
+    });
+    
+    it('locates issues in single-line documents by element and invalid value', async () => {
+      const event = (eventTime: string, fields: string) =>
+        `<ObjectEvent><eventTime>${eventTime}</eventTime><eventTimeZoneOffset>+01:00</eventTimeZoneOffset>${fields}</ObjectEvent>`;
+      const xmlContent = '<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2" schemaVersion="2.0" creationDate="2024-01-01T00:00:00Z">'
+        + '<EPCISBody><EventList>'
+        + event('2024-01-01T10:00:00Z', '<epcList/><bizStep>urn:epcglobal:cbv:bizstep:shipping</bizStep><action>ADD</action>')
+        + event('yesterday', '<epcList/><action>ADD</action>')
+        + '</EventList></EPCISBody></epcis:EPCISDocument>';
+      
+      const { valid, errors } = await validateEpcisXml(xmlContent);
+      
+      expect(valid).toBe(false);
+      expect(errors.map(({ line, xpath }) => ({ line, xpath }))).toEqual([
+        { line: 1, xpath: '/epcis:EPCISDocument/EPCISBody/EventList/ObjectEvent[1]/bizStep' },
+        { line: 1, xpath: '/epcis:EPCISDocument/EPCISBody/EventList/ObjectEvent[2]/eventTime' }
+      ]);
+      expect(errors[1].message).toContain("'yesterday' is not a valid value of the atomic type 'xs:dateTime'");
+    });
+    
+    it('reports malformed XML at the unclosed element', async () => {
+      const { valid, schemaVersion, errors } = await validateEpcisXml(
+        '<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2">\n  <EPCISBody>\n</epcis:EPCISDocument>'
+      );
+      
+      expect(valid).toBe(false);
+      expect(schemaVersion).toBeNull();
+      // The parser reports the position just after the unclosed EPCISBody start tag
+      expect(errors).toEqual([{ line: 2, column: 14, xpath: null, message: expect.stringContaining('EPCISBody') }]);
+    });
+  });
+
+  describe('JSON Schema Validation', () => {
+    it('accepts the converted cardinal_health JSON-LD and validates on request', async () => {
+      const xml20 = await fs.readFile(path.join('tests/fixtures', 'epcis_1.2.cardinal_health.xml.epcis20.xml'), 'utf-8');
+      const jsonLd = await convertToJsonLd(xml20, { ...jsonOptions, validate: true });
+      
+      expect(validateJsonLd(jsonLd)).toEqual({ valid: true, errors: [] });
+    });
+    
+    it('reports violations with the JSON Pointer of the offending value', async () => {
+      const jsonLd = JSON.parse(await fs.readFile(path.join('tests/fixtures', 'epcis_1.2.cardinal_health.xml.jsonld'), 'utf-8'));
+      delete jsonLd.epcisBody.eventList[0].eventTime;
+      jsonLd.epcisBody.eventList[1].action = 'MOVE';
+      
+      const { valid, errors } = validateJsonLd(jsonLd);
+      
+      expect(valid).toBe(false);
+      expect(errors).toEqual([
+        { pointer: '/epcisBody/eventList/0', message: "must have required property 'eventTime'" },
+        { pointer: '/epcisBody/eventList/1/action', message: 'must be equal to one of the allowed values: OBSERVE, ADD, DELETE' }
+      ]);
+    });
+    
+    it('fails a conversion whose output is not valid', async () => {
+      // The sample misspells the "location" source type, which the schema only accepts as a CBV term or URI
+      const xml20 = await fs.readFile(path.join('tests/fixtures', 'epcis_1.2.sample.xml.epcis20.xml'), 'utf-8');
+      
+      const error = await convertToJsonLd(xml20, { ...jsonOptions, validate: true }).catch(e => e);
+      
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.errors).toContainEqual({
+        pointer: '/epcisBody/eventList/4/sourceList/1/type',
+        message: 'must be equal to one of the allowed values: owning_party, possessing_party, location'
+      });
+    });
+  });
+
+  describe('Business Rule Validation', () => {
+    const epcis20Document = (events: string) =>
+      '<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2" schemaVersion="2.0" creationDate="2024-01-01T00:00:00Z">'
+        + `<EPCISBody><EventList>${events}</EventList></EPCISBody></epcis:EPCISDocument>`;
+    const eventHead = (offset: string = '+01:00') =>
+      `<eventTime>2024-01-01T10:00:00Z</eventTime><eventTimeZoneOffset>${offset}</eventTimeZoneOffset>`;
+    
+    it('finds no issues in the sample documents', async () => {
+      for (const fileName of TEST_FILES) {
+        const xmlContent = await fs.readFile(path.join('attached_assets', fileName), 'utf-8');
+        
+        expect(await validateEpcis(xmlContent)).toEqual({ valid: true, issues: [] });
+      }
+    });
+    
+    it('reports each finding with severity, rule id, event index and XPath', async () => {
+      const xmlContent = epcis20Document(
+        `<ObjectEvent>${eventHead()}<epcList/><action>ADD</action>`
+          + '<bizStep>urn:epcglobal:cbv:bizstep:shipping</bizStep><disposition>urn:epcglobal:cbv:disp:active</disposition></ObjectEvent>'
+          + `<AggregationEvent>${eventHead('+15:00')}<parentID>urn:epc:id:sscc:0614141.1234567890</parentID><action>DELETE</action></AggregationEvent>`
+      );
+      
+      const report = await validateEpcis(xmlContent);
+      
+      expect(report.valid).toBe(false);
+      expect(report.issues.map(({ message, ...issue }) => issue)).toEqual([
+        { severity: 'error', ruleId: 'object-add-requires-epcs', eventIndex: 0, xpath: '/epcis:EPCISDocument/EPCISBody/EventList/ObjectEvent' },
+        { severity: 'warning', ruleId: 'disposition-matches-bizstep', eventIndex: 0, xpath: '/epcis:EPCISDocument/EPCISBody/EventList/ObjectEvent/disposition' },
+        { severity: 'info', ruleId: 'aggregation-delete-unpacks-all', eventIndex: 1, xpath: '/epcis:EPCISDocument/EPCISBody/EventList/AggregationEvent' },
+        { severity: 'error', ruleId: 'valid-timezone-offset', eventIndex: 1, xpath: '/epcis:EPCISDocument/EPCISBody/EventList/AggregationEvent/eventTimeZoneOffset' }
+      ]);
+      expect(report.issues[2].message).toContain('all children of urn:epc:id:sscc:0614141.1234567890 are unpacked');
+    });
+    
+    it('applies severity overrides and additional rules', async () => {
+      const xmlContent = epcis20Document(`<ObjectEvent>${eventHead('+15:00')}<epcList/><action>ADD</action></ObjectEvent>`);
+      const engine = new RuleEngine({ rules: { 'object-add-requires-epcs': 'off', 'valid-timezone-offset': 'warning' } })
+        .addRule({
+          id: 'requires-read-point',
+          description: 'Every event must have a readPoint',
+          severity: 'error',
+          checkEvent: event => event.getField('readPoint') ? [] : [{ message: 'No readPoint' }]
+        });
+      
+      const report = await engine.validate(xmlContent);
+      
+      expect(report.valid).toBe(false);
+      expect(report.issues.map(issue => `${issue.severity} ${issue.ruleId}`)).toEqual([
+        'warning valid-timezone-offset',
+        'error requires-read-point'
+      ]);
+      await expect(validateEpcis(xmlContent, { rules: { 'no-such-rule': 'off' } })).rejects.toThrow("Unknown rule 'no-such-rule'");
+    });
+    
+    it('checks DSCSA requirements with the dscsa rule pack', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      expect(await validateEpcis(xmlContent, { rulePacks: ['dscsa'] })).toEqual({ valid: true, issues: [] });
+      
+      const broken = xmlContent
+        .replace(/<gs1ushc:dscsaTransactionStatement>[\s\S]*<\/gs1ushc:dscsaTransactionStatement>/, '')
+        .replace(/<sbdh:Receiver>[\s\S]*<\/sbdh:Receiver>/, '')
+        .replace('<cbvmda:lotNumber>PR456</cbvmda:lotNumber>', '')
+        .replace('FDA_NDC_11</attribute>\n              <attribute id="urn:epcglobal:cbv:mda#regulatedProductName">EpcistraCASE', 'GTIN</attribute>\n              <attribute id="urn:epcglobal:cbv:mda#regulatedProductName">EpcistraCASE')
+        .replace(/<bizTransaction type="urn:epcglobal:cbv:btt:(inv|po)">/g, '<bizTransaction type="urn:epcglobal:cbv:btt:desadv">');
+      
+      const report = await validateEpcis(broken, { rulePacks: ['dscsa'] });
+      
+      expect(report.valid).toBe(false);
+      expect(report.issues.map(({ ruleId, eventIndex }) => ({ ruleId, eventIndex }))).toEqual([
+        { ruleId: 'dscsa-transaction-statement', eventIndex: null },
+        { ruleId: 'dscsa-shipping-sbdh-parties', eventIndex: null },
+        { ruleId: 'dscsa-commissioning-lot-expiry', eventIndex: 0 },
+        { ruleId: 'dscsa-sgtin-master-data', eventIndex: 0 },
+        { ruleId: 'dscsa-shipping-business-transaction', eventIndex: 2 }
+      ]);
+      expect(report.issues[1].message).toBe('The document has shipping events but no SBDH Receiver identifier');
+      expect(report.issues[3]).toMatchObject({
+        xpath: '/epcis:EPCISDocument/EPCISBody/EventList/ObjectEvent[1]/epcList/epc[5]',
+        message: 'The EPCClass master data for urn:epc:idpat:sgtin:0355154.394495.* has no NDC, used by urn:epc:id:sgtin:0355154.394495.40072894693743'
+      });
+    });
+    
+    it('finds the NDC among several trade item identifications of an EPCClass', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      const identification = (value: string, typeCode: string) =>
+        `<attribute id="urn:epcglobal:cbv:mda#additionalTradeItemIdentification">${value}</attribute>\n              `
+        + `<attribute id="urn:epcglobal:cbv:mda#additionalTradeItemIdentificationTypeCode">${typeCode}</attribute>\n              `;
+      const ndcFirst = identification('05515494495', 'FDA_NDC_11');
+      
+      const withGtin = xmlContent.replace(ndcFirst, ndcFirst + identification('00355154394495', 'GTIN_14'));
+      expect(await validateEpcis(withGtin, { rulePacks: ['dscsa'] })).toEqual({ valid: true, issues: [] });
+      
+      const withoutNdc = xmlContent.replace(ndcFirst, identification('00355154094495', 'GTIN_14') + identification('', 'FDA_NDC_11'));
+      const report = await validateEpcis(withoutNdc, { rulePacks: ['dscsa'] });
+      expect(report.issues.map(issue => issue.ruleId)).toEqual(['dscsa-sgtin-master-data']);
+    });
+    
+    it('adds XSD issues under the xsd rule id when asked', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      
+      const report = await validateEpcis(xmlContent, { schema: true });
+      
+      expect(report.valid).toBe(false);
+      expect(report.issues[0]).toMatchObject({
+        severity: 'error',
+        ruleId: 'xsd',
+        eventIndex: null,
+        xpath: '/epcis:EPCISDocument/EPCISBody/EventList[2]'
+      });
+    });
+  });
+
+  describe('EPC URI Validation', () => {
+    it('explains the parts of a pure identity URN and gives its GS1 key', () => {
+      const inspection = inspectEpc('urn:epc:id:sgtin:0614141.112345.400');
+      
+      expect(inspection).toMatchObject({
+        valid: true,
+        type: 'id',
+        scheme: 'sgtin',
+        partition: 5,
+        gs1Key: { name: 'GTIN', value: '10614141123459' },
+        elementString: '(01)10614141123459(21)400',
+        errors: []
+      });
+      expect(inspection.components.map(component => component.name)).toEqual(['companyPrefix', 'indicatorItemReference', 'serial']);
+      expect(inspectEpc('urn:epc:id:sscc:0614141.1234567890').gs1Key).toEqual({ name: 'SSCC', value: '106141412345678908' });
+      expect(inspectEpc('urn:epc:id:gdti:0614141.12345.006847').elementString).toBe('(253)0614141123452006847');
+      expect(inspectEpc('urn:epc:class:lgtin:4012345.012345.998877').elementString).toBe('(01)04012345123456(10)998877');
+      expect(inspectEpc('urn:epc:idpat:sgtin:0614141.*.*').valid).toBe(true);
+    });
+    
+    it('reports bad lengths, embedded check digits and characters', () => {
+      expect(inspectEpc('urn:epc:id:sgtin:12345.1234567.1').errors).toEqual([
+        "The GS1 Company Prefix must be 6 to 12 digits, found '12345'"
+      ]);
+      expect(inspectEpc('urn:epc:id:sgtin:0614141.11234.400').errors).toEqual([
+        'With a 7-digit company prefix the indicatorItemReference must be 6 digits, found 5'
+      ]);
+      expect(inspectEpc('urn:epc:id:sgtin:0614141.1123459.400').errors).toEqual([
+        'The indicatorItemReference ends in the check digit 9 of the GTIN, which EPC URNs leave out'
+      ]);
+      expect(inspectEpc('urn:epc:id:sgtin:0614141.112345.a/b').valid).toBe(false);
+      expect(inspectEpc('urn:epc:idpat:sgtin:0614141.*.400').valid).toBe(false);
+    });
+    
+    it('rejects conversion input with invalid EPCs when asked', async () => {
+      const xmlContent = (await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8'))
+        .replaceAll('urn:epc:id:sgtin:0355154.094495.40023811077021', 'urn:epc:id:sgtin:0355154.0944954.40023811077021');
+      
+      const error = await convertToEpcis20Xml(xmlContent, { ...xmlOptions, validateEpcs: true }).catch(e => e);
+      
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.errors).toEqual([
+        {
+          line: 111,
+          column: 9,
+          xpath: '/epcis:EPCISDocument/EPCISBody/EventList/ObjectEvent[1]/epcList/epc[2]',
+          message: expect.stringContaining('ends in the check digit 4 of the GTIN')
+        },
+        {
+          line: 139,
+          column: 9,
+          xpath: '/epcis:EPCISDocument/EPCISBody/EventList/AggregationEvent/childEPCs/epc[2]',
+          message: expect.stringContaining('ends in the check digit 4 of the GTIN')
+        }
+      ]);
+      await expect(convertToEpcis20Xml(xmlContent, xmlOptions)).resolves.toContain('0944954');
+    });
+  });
+
+  describe('Digital Link Identifiers', () => {
+    // Values of the identifier elements of the events, in document order
+    const identifiers = (xml: string): string[] =>
+      Array.from(xml.matchAll(/<(?:epc|parentID|epcClass|id|source|destination)>([^<]*)</g)).map(match => match[1]);
+    
+    it('converts EPC URNs to Digital Link URIs and back', () => {
+      const pairs = [
+        ['urn:epc:id:sgtin:0614141.112345.400', 'https://id.gs1.org/01/10614141123459/21/400'],
+        ['urn:epc:id:sscc:0614141.1234567890', 'https://id.gs1.org/00/106141412345678908'],
+        ['urn:epc:id:sgln:0614141.12345.0', 'https://id.gs1.org/414/0614141123452'],
+        ['urn:epc:id:sgln:0614141.12345.a%2Fb', 'https://id.gs1.org/414/0614141123452/254/a%2Fb'],
+        ['urn:epc:class:lgtin:0614141.112345.LOT1', 'https://id.gs1.org/01/10614141123459/10/LOT1'],
+        ['urn:epc:idpat:sgtin:0614141.112345.*', 'https://id.gs1.org/01/10614141123459']
+      ];
+      for (const [urn, digitalLink] of pairs) {
+        expect(toDigitalLink(urn)).toBe(digitalLink);
+        expect(toEpcUrn(digitalLink)).toBe(urn);
+      }
+      
+      expect(toDigitalLink('urn:epc:id:sgtin:0614141.112345.400', 'https://example.com/')).toBe('https://example.com/01/10614141123459/21/400');
+      expect(toEpcUrn('https://example.com/dl/01/10614141123459/21/400')).toBe('urn:epc:id:sgtin:0614141.112345.400');
+      expect(toEpcUrn('https://id.gs1.org/01/10614141123459/21/400', { '06141': 6 })).toBe('urn:epc:id:sgtin:061414.1112345.400');
+      // Bad check digit, and a qualifier EPC URNs have no place for
+      expect(toEpcUrn('https://id.gs1.org/01/10614141123458/21/400')).toBeNull();
+      expect(toEpcUrn('https://id.gs1.org/01/10614141123459/22/2A')).toBeNull();
+      expect(toDigitalLink('urn:epc:idpat:sgtin:0614141.*.*')).toBeNull();
+    });
+    
+    it('writes the identifiers OpenEPCIS writes when converting to EPCIS 2.0 XML', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      const openEpcisXml = await fs.readFile(path.join('tests/fixtures', 'epcis_1.2.cardinal_health.xml.epcis20.xml'), 'utf-8');
+      
+      const result = await convertToEpcis20Xml(xmlContent, { ...xmlOptions, validateEpcs: false, identifierFormat: 'digitalLink' });
+      
+      expect(identifiers(result)).toEqual(identifiers(openEpcisXml));
+      // Master data is keyed by the same identifiers
+      expect(result).toContain('<VocabularyElement id="https://id.gs1.org/01/00355154944954">');
+      
+      // Back to URNs, the 6-digit prefix of the location GLNs given
+      const urns = await convertToEpcis20Xml(result, {
+        ...xmlOptions,
+        validateEpcs: false,
+        identifierFormat: 'urn',
+        companyPrefixLengths: { '0300': 6, '0399': 6 }
+      });
+      expect(identifiers(urns)).toEqual(identifiers(await convertToEpcis20Xml(xmlContent, { ...xmlOptions, validateEpcs: false })));
+    });
+    
+    it('writes Digital Link URIs on a configured domain in JSON-LD', async () => {
+      const urnXml = await convertToEpcis20Xml(
+        await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8'),
+        { ...xmlOptions, validateEpcs: false }
+      );
+      
+      const jsonLd = JSON.parse(await convertToJsonLd(urnXml, {
+        ...jsonOptions,
+        validate: true,
+        validateEpcs: false,
+        identifierFormat: 'digitalLink',
+        digitalLinkDomain: 'https://dl.example.com'
+      }));
+      const [event] = jsonLd.epcisBody.eventList;
+      
+      expect(event.epcList[0]).toBe('https://dl.example.com/01/00355154944954/21/40095247428196');
+      expect(event.readPoint.id).toBe('https://dl.example.com/414/0300011111246');
+    });
+  });
+
+  describe('CBV Vocabulary Normalization', () => {
+    // Warnings are located in the document being converted
+    const unknownSourceType = (path: string) => ({
+      path,
+      message: "'urn:epcglobal:cbv:sdt:locaton' is not a CBV 2.0 source/destination type"
+    });
+    
+    it('writes CBV values as bare terms, URNs or Web URIs', () => {
+      expect(formatCbvValue('urn:epcglobal:cbv:bizstep:commissioning', 'bizstep', 'webUri')).toEqual({
+        value: 'https://ref.gs1.org/cbv/BizStep-commissioning',
+        known: true
+      });
+      expect(formatCbvValue('https://ref.gs1.org/cbv/Disp-active', 'disp', 'urn')).toEqual({ value: 'urn:epcglobal:cbv:disp:active', known: true });
+      expect(formatCbvValue('po', 'btt', 'bare')).toEqual({ value: 'po', known: true });
+      expect(formatCbvValue('urn:epcglobal:cbv:bizstep:shiping', 'bizstep', 'bare')).toEqual({ value: 'shiping', known: false });
+      // Another vocabulary's URI is kept, and reported when it is a CBV one
+      expect(formatCbvValue('urn:example:bizstep:labelling', 'bizstep', 'bare')).toEqual({ value: 'urn:example:bizstep:labelling', known: true });
+      expect(formatCbvValue('urn:epcglobal:cbv:disp:active', 'bizstep', 'bare')).toEqual({ value: 'urn:epcglobal:cbv:disp:active', known: false });
+    });
+    
+    it('reports unknown values while converting to JSON-LD', async () => {
+      const xml20 = await convertToEpcis20Xml(
+        await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8'),
+        { ...xmlOptions, validateEpcs: false }
+      );
+      const warnings: any[] = [];
+      
+      const jsonLd = JSON.parse(await convertToJsonLd(xml20, {
+        ...jsonOptions,
+        validateEpcs: false,
+        cbvFormat: 'webUri',
+        onWarning: warning => warnings.push(warning)
+      }));
+      const shipping = jsonLd.epcisBody.eventList[4];
+      
+      expect(warnings).toEqual([
+        unknownSourceType('/epcis:EPCISDocument/EPCISBody/EventList/ObjectEvent[3]/sourceList/source[2]/@type')
+      ]);
+      expect(shipping.bizStep).toBe('https://ref.gs1.org/cbv/BizStep-shipping');
+      expect(shipping.bizTransactionList[0].type).toBe('https://ref.gs1.org/cbv/BTT-inv');
+      expect(shipping.sourceList[1].type).toBe('https://ref.gs1.org/cbv/SDT-locaton');
+    });
+    
+    it('keeps CBV values of EPCIS 2.0 XML as written unless a form is asked for', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      const warnings: any[] = [];
+      
+      const kept = await convertToEpcis20Xml(xmlContent, { ...xmlOptions, validateEpcs: false, onWarning: warning => warnings.push(warning) });
+      const webUris = await convertToEpcis20Xml(xmlContent, {
+        ...xmlOptions,
+        validateEpcs: false,
+        cbvFormat: 'webUri',
+        onWarning: warning => warnings.push(warning)
+      });
+      
+      expect(kept).toContain('<bizStep>urn:epcglobal:cbv:bizstep:shipping</bizStep>');
+      expect(webUris).toContain('<bizStep>https://ref.gs1.org/cbv/BizStep-shipping</bizStep>');
+      expect(webUris).not.toContain('urn:epcglobal:cbv:disp:');
+      expect(warnings).toEqual([
+        unknownSourceType('/epcis:EPCISDocument/EPCISBody/EventList[2]/ObjectEvent/extension/sourceList/source[2]/@type')
+      ]);
+    });
+  });
+
+  describe('Event Hash IDs', () => {
+    // IDs the GS1 reference implementation computes for the events of the OpenEPCIS JSON-LD fixture
+    const REFERENCE_IDS = [
+      'ni:///sha-256;4b8facbb0122ed5b87181e314e4b94db0d798e11979318797d43914114488163?ver=CBV2.0',
+      'ni:///sha-256;ca16b3b9194731a0f6d240a55f43a8ede6aff7c33b47718962d39ed55cce9338?ver=CBV2.0',
+      'ni:///sha-256;93dd9649f43cfa03839a5e28f2c60f2dc486586e464c4294a9d1d8773b2fdb2d?ver=CBV2.0',
+      'ni:///sha-256;fc76a3e5da963bcd11857e384ec1b827f3be99b3126534ce9d24dcadbc955a5c?ver=CBV2.0',
+      'ni:///sha-256;17dbc5b57d3928f28652a7c08555046f060fd9c80f7576b773ed72b6ac74a988?ver=CBV2.0'
+    ];
+    
+    it('computes the IDs of the GS1 reference implementation', async () => {
+      const fixture = JSON.parse(await fs.readFile(path.join('tests/fixtures', 'epcis_1.2.sample.xml.jsonld'), 'utf-8'));
+      
+      expect(fixture.epcisBody.eventList.map((event: any) => eventHash(event, fixture['@context']))).toEqual(REFERENCE_IDS);
+    });
+    
+    it('assigns the same IDs whatever format the converted events are written in', async () => {
+      const xmlContent = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      const eventIds = (xml: string) => Array.from(xml.matchAll(/<eventID>([^<]+)<\/eventID>/g), match => match[1]);
+      
+      const xml20 = await convertToEpcis20Xml(xmlContent, { ...xmlOptions, validateEpcs: false, assignEventIds: true });
+      const digitalLinks = await convertToEpcis20Xml(xmlContent, {
+        ...xmlOptions,
+        validateEpcs: false,
+        assignEventIds: true,
+        identifierFormat: 'digitalLink',
+        cbvFormat: 'urn'
+      });
+      const jsonLd = JSON.parse(await convertToJsonLd(
+        await convertToEpcis20Xml(xmlContent, { ...xmlOptions, validateEpcs: false }),
+        { ...jsonOptions, validateEpcs: false, assignEventIds: true, cbvFormat: 'webUri' }
+      ));
+      
+      expect(xml20).toMatch(/<eventTimeZoneOffset>-05:00<\/eventTimeZoneOffset>\s*<eventID>ni:\/\/\/sha-256;/);
+      expect(eventIds(digitalLinks)).toEqual(eventIds(xml20));
+      expect(jsonLd.epcisBody.eventList.map((event: any) => event.eventID)).toEqual(eventIds(xml20));
+      // The OpenEPCIS fixture lost the ILMD of the first event, the others are the same events
+      expect(eventIds(xml20).slice(1)).toEqual(REFERENCE_IDS.slice(1));
+    });
+    
+    it('writes parentID before epcList in the canonical order', async () => {
+      const fixture = JSON.parse(await fs.readFile(path.join('tests/fixtures', 'transaction_event.jsonld'), 'utf-8'));
+      const preHash = 'eventType=TransactionEvent'
+        + 'eventTime=2024-03-01T08:30:00.000ZeventTimeZoneOffset=+01:00'
+        + 'parentID=https://id.gs1.org/00/106141412345678908'
+        + 'epcListepc=https://id.gs1.org/01/10614141123459/21/400epc=https://id.gs1.org/01/10614141123459/21/401'
+        + 'action=ADDbizStep=https://ref.gs1.org/cbv/BizStep-shipping'
+        + 'bizTransactionListtype=https://ref.gs1.org/cbv/BTT-pobizTransaction=urn:epcglobal:cbv:bt:0614141000005:PO-4711';
+      
+      expect(eventHash(fixture.epcisBody.eventList[0], fixture['@context']))
+        .toBe(`ni:///sha-256;${createHash('sha256').update(preHash).digest('hex')}?ver=CBV2.0`);
+    });
+    
+    it('keeps existing event IDs and leaves out what is not part of the event', async () => {
+      const event = {
+        type: 'ObjectEvent',
+        eventTime: '2022-06-25T03:00:01-05:00',
+        eventTimeZoneOffset: '-05:00',
+        epcList: ['urn:epc:id:sgtin:0614141.112345.400'],
+        action: 'OBSERVE',
+        'example:temperature': '21.50'
+      };
+      const context = { example: 'http://ns.example.com/epcis/' };
+      const xml = `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:2" schemaVersion="2.0" creationDate="2022-06-25T03:00:00Z">
+        <EPCISBody><EventList><ObjectEvent>
+          <eventTime>2022-06-25T03:00:01-05:00</eventTime>
+          <eventTimeZoneOffset>-05:00</eventTimeZoneOffset>
+          <eventID>urn:uuid:4d7a3e0c-6b6f-4e1a-9c2d-1f0e8b7a6c5d</eventID>
+          <epcList><epc>urn:epc:id:sgtin:0614141.112345.400</epc></epcList>
+          <action>OBSERVE</action>
+        </ObjectEvent></EventList></EPCISBody>
+      </epcis:EPCISDocument>`;
+      
+      const id = eventHash(event, context);
+      expect(eventHash({
+        ...event,
+        eventTime: '2022-06-25T08:00:01.000Z',
+        epcList: ['https://id.gs1.org/01/10614141123459/21/400'],
+        recordTime: '2022-06-26T00:00:00Z',
+        errorDeclaration: { declarationTime: '2022-06-26T00:00:00Z', reason: 'incorrect_data' }
+      }, context)).toBe(id);
+      expect(eventHash({ ...event, action: 'ADD' }, context)).not.toBe(id);
+      expect(() => eventHash(event)).toThrow(ValidationError);
+      
+      const jsonLd = JSON.parse(await convertToJsonLd(xml, { ...jsonOptions, assignEventIds: true }));
+      expect(jsonLd.epcisBody.eventList[0].eventID).toBe('urn:uuid:4d7a3e0c-6b6f-4e1a-9c2d-1f0e8b7a6c5d');
+    });
+    
+    it('writes numeric fields as numbers and other text as it is', () => {
+      const event: EpcisEvent = {
+        type: 'ObjectEvent',
+        eventTime: '2024-03-01T08:30:00.000Z',
+        eventTimeZoneOffset: '+00:00',
+        action: 'OBSERVE',
+        quantityList: [{ epcClass: 'urn:epc:class:lgtin:4012345.012345.998877', quantity: 0.5, uom: 'KGM' }],
+        sensorElementList: [{ sensorReport: [{ type: 'Temperature', value: 5, uom: 'CEL' }] }],
+        'example:lot': '0012',
+        'example:ratio': '0.5'
+      };
+      const context = { example: 'http://ns.example.com/epcis/' };
+      const preHash = 'eventType=ObjectEvent'
+        + 'eventTime=2024-03-01T08:30:00.000ZeventTimeZoneOffset=+00:00'
+        + 'quantityListquantityElementepcClass=https://id.gs1.org/01/04012345123456/10/998877quantity=0.5uom=KGM'
+        + 'action=OBSERVE'
+        + 'sensorElementListsensorElementsensorReporttype=https://gs1.org/voc/Temperaturevalue=5uom=CEL'
+        + '{http://ns.example.com/epcis/}lot=0012{http://ns.example.com/epcis/}ratio=0.5';
+      
+      expect(eventHash(event, context)).toBe(`ni:///sha-256;${createHash('sha256').update(preHash).digest('hex')}?ver=CBV2.0`);
+      expect(eventHash({ ...event, 'example:lot': '12' }, context)).not.toBe(eventHash(event, context));
+      expect(eventHash({ ...event, 'example:lot': '05' }, context))
+        .not.toBe(eventHash({ ...event, 'example:lot': '5' }, context));
+    });
+  });
+
+  describe('EPCIS 1.0 and 1.1 Input', () => {
+    const epcis1Document = (schemaVersion: string, events: string) => `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" schemaVersion="${schemaVersion}" creationDate="2008-03-15T15:00:00Z">
+      <EPCISBody><EventList>${events}</EventList></EPCISBody>
+    </epcis:EPCISDocument>`;
+    const quantityEvent = `<QuantityEvent>
+        <eventTime>2008-03-15T14:58:56.591Z</eventTime>
+        <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+        <epcClass>urn:epc:idpat:sgtin:0614141.112345.*</epcClass>
+        <quantity>200</quantity>
+        <bizStep>urn:epcglobal:cbv:bizstep:receiving</bizStep>
+        <readPoint><id>urn:epc:id:sgln:0614141.00777.0</id></readPoint>
+      </QuantityEvent>`;
+    const transformationEvent = `<extension><TransformationEvent>
+        <eventTime>2008-03-15T15:00:00Z</eventTime>
+        <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+        <inputEPCList><epc>urn:epc:id:sgtin:0614141.112345.400</epc></inputEPCList>
+        <outputEPCList><epc>urn:epc:id:sgtin:0614141.112345.401</epc></outputEPCList>
+      </TransformationEvent></extension>`;
+
+    it('detects the version from the namespace and schemaVersion', async () => {
+      const xml12 = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      
+      expect(detectEpcisVersion(epcis1Document('1.0', ''))).toBe('1.0');
+      expect(detectEpcisVersion(epcis1Document('1', ''))).toBe('1.0');
+      expect(detectEpcisVersion(epcis1Document('1.1', ''))).toBe('1.1');
+      expect(detectEpcisVersion(xml12)).toBe('1.2');
+      expect(detectEpcisVersion(await convertToEpcis20Xml(xml12, xmlOptions))).toBe('2.0');
+      expect(() => detectEpcisVersion(epcis1Document('1.3', ''))).toThrow(/Unsupported EPCIS schemaVersion '1.3'/);
+      expect(() => detectEpcisVersion('<root/>')).toThrow(ValidationError);
+    });
+
+    it('converts the QuantityEvents of an EPCIS 1.0 document to ObjectEvents with a quantityList', async () => {
+      const versions: string[] = [];
+      const warnings: { path: string; message: string }[] = [];
+      const result = await convertToEpcis20Xml(epcis1Document('1.0', quantityEvent), {
+        ...xmlOptions,
+        validateXml: true,
+        onWarning: warning => warnings.push(warning),
+        onSourceVersion: version => versions.push(version)
+      });
+      
+      expect(versions).toEqual(['1.0']);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].path).toBe('/epcis:EPCISDocument/EPCISBody/EventList/QuantityEvent');
+      expect(warnings[0].message).toMatch(/QuantityEvent is not defined in EPCIS 2.0/);
+      
+      const doc = new DOMParser().parseFromString(result, 'application/xml');
+      expect(doc.getElementsByTagName('QuantityEvent').length).toBe(0);
+      const event = doc.getElementsByTagName('ObjectEvent')[0];
+      expect(event.getElementsByTagName('action')[0].textContent).toBe('OBSERVE');
+      expect(event.getElementsByTagName('epcClass')[0].textContent).toBe('urn:epc:idpat:sgtin:0614141.112345.*');
+      expect(event.getElementsByTagName('quantity')[0].textContent).toBe('200');
+      expect(event.getElementsByTagName('bizStep')[0].textContent).toBe('urn:epcglobal:cbv:bizstep:receiving');
+    });
+
+    it('reports the elements the claimed version did not define yet and still converts them', async () => {
+      for (const engine of ['local', 'xslt'] as const) {
+        const warnings: { path: string; message: string }[] = [];
+        const result = await convertToEpcis20Xml(epcis1Document('1.0', transformationEvent), {
+          ...xmlOptions,
+          engine,
+          onWarning: warning => warnings.push(warning)
+        });
+        
+        expect(warnings.map(warning => warning.message)).toEqual(['TransformationEvent is not defined in EPCIS 1.0']);
+        expect(result).toContain('TransformationEvent');
+        expect((await validateEpcisXml(result)).valid).toBe(true);
+      }
+      
+      const warnings: { path: string; message: string }[] = [];
+      await convertToEpcis20Xml(epcis1Document('1.1', `<ObjectEvent>
+          <eventTime>2008-03-15T15:00:00Z</eventTime>
+          <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+          <baseExtension><eventID>urn:uuid:4d7a3e0c-6b6f-4e1a-9c2d-1f0e8b7a6c5d</eventID></baseExtension>
+          <epcList><epc>urn:epc:id:sgtin:0614141.112345.400</epc></epcList>
+          <action>OBSERVE</action>
+        </ObjectEvent>`), { ...xmlOptions, onWarning: warning => warnings.push(warning) });
+      expect(warnings.map(warning => warning.message)).toEqual(['eventID is not defined in EPCIS 1.1']);
+    });
+  });
+
+  describe('Format Detection and transform', () => {
+    it('detects the format of XML and JSON-LD documents', async () => {
+      const xml12 = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      const jsonLd = await fs.readFile(path.join('tests/fixtures', 'epcis_1.2.sample.xml.jsonld'), 'utf-8');
+      
+      expect(detectFormat(xml12)).toBe('epcis12-xml');
+      expect(detectFormat(await convertToEpcis20Xml(xml12, xmlOptions))).toBe('epcis20-xml');
+      expect(detectFormat(`\n  ${jsonLd}`)).toBe('jsonld');
+      expect(() => detectFormat('{"type": "Catalog"}')).toThrow(ValidationError);
+      expect(() => detectFormat('<catalog/>')).toThrow(ValidationError);
+    });
+
+    it('plans the conversion chain from the detected format', async () => {
+      const xml12 = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      
+      const toJsonLd = await transform(xml12, { to: 'jsonld' });
+      expect(toJsonLd.sourceFormat).toBe('epcis12-xml');
+      expect(toJsonLd.chain).toEqual(['epcis12-xml', 'epcis20-xml', 'jsonld']);
+      expect(toJsonLd.result).toBe(await convertToJsonLd(await convertToEpcis20Xml(xml12, xmlOptions), jsonOptions));
+      
+      const transactionEvent = await fs.readFile(path.join('tests/fixtures', 'transaction_event.jsonld'), 'utf-8');
+      const toXml12 = await transform(transactionEvent, { to: 'epcis12-xml', validate: true });
+      expect(toXml12.chain).toEqual(['jsonld', 'epcis12-xml']);
+      expect(detectFormat(toXml12.result)).toBe('epcis12-xml');
+      
+      const unchanged = await transform(xml12, { to: 'epcis12-xml' });
+      expect(unchanged.chain).toEqual(['epcis12-xml']);
+      expect(unchanged.result).toBe(xml12);
+    });
+
+    it('upgrades EPCIS 1.0 and 1.1 documents asked for as EPCIS 1.2 XML', async () => {
+      const xml11 = `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" schemaVersion="1.1" creationDate="2008-03-15T15:00:00Z">
+        <EPCISBody><EventList><QuantityEvent>
+          <eventTime>2008-03-15T14:58:56.591Z</eventTime>
+          <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+          <epcClass>urn:epc:idpat:sgtin:0614141.112345.*</epcClass>
+          <quantity>200</quantity>
+        </QuantityEvent></EventList></EPCISBody>
+      </epcis:EPCISDocument>`;
+      
+      expect(detectFormat(xml11)).toBe('epcis11-xml');
+      const { result, chain, warnings } = await transform(xml11, { to: 'epcis12-xml', validate: true });
+      expect(chain).toEqual(['epcis11-xml', 'epcis12-xml']);
+      expect(detectEpcisVersion(result)).toBe('1.2');
+      expect(result).toContain('<ObjectEvent>');
+      expect(warnings.map(warning => warning.message)).toEqual([
+        expect.stringMatching(/QuantityEvent is not defined in EPCIS 2.0/)
+      ]);
+    });
+
+    it('checks every step against the schemas when asked', async () => {
+      const xml12 = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      const { result: jsonLd } = await transform(xml12, { to: 'jsonld' });
+      const invalidXml12 = xml12.replace(/<action>[^<]*<\/action>/, '<action>SHIPPED</action>');
+      
+      // The sample has a source type that is not a URI, which the JSON Schema rejects
+      await expect(transform(jsonLd, { to: 'epcis20-xml', validate: true })).rejects.toThrow(/JSON Schema/);
+      await expect(transform(jsonLd, { to: 'jsonld', validate: true })).rejects.toThrow(ValidationError);
+      await expect(transform(invalidXml12, { to: 'epcis12-xml', validate: true })).rejects.toThrow(/EPCIS 1.2 schema/);
+      expect((await transform(invalidXml12, { to: 'epcis12-xml' })).result).toBe(invalidXml12);
+    });
+
+    it('collects the warnings of every step', async () => {
+      const xml10 = `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" schemaVersion="1.0" creationDate="2008-03-15T15:00:00Z">
+        <EPCISBody><EventList><QuantityEvent>
+          <eventTime>2008-03-15T14:58:56.591Z</eventTime>
+          <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+          <epcClass>urn:epc:idpat:sgtin:0614141.112345.*</epcClass>
+          <quantity>200</quantity>
+        </QuantityEvent></EventList></EPCISBody>
+      </epcis:EPCISDocument>`;
+      
+      const { result, warnings } = await transform(xml10, { to: 'jsonld', validate: true });
+      expect(warnings.map(warning => warning.message)).toEqual([
+        expect.stringMatching(/QuantityEvent is not defined in EPCIS 2.0/)
+      ]);
+      expect(JSON.parse(result).epcisBody.eventList[0].quantityList).toEqual([
+        { epcClass: 'urn:epc:idpat:sgtin:0614141.112345.*', quantity: 200 }
+      ]);
+    });
+  });
+
+  describe('Synchronous Conversion', () => {
+    it('gives the same EPCIS 2.0 XML as the asynchronous converter', async () => {
+      for (const fileName of TEST_FILES) {
+        const xml = await fs.readFile(path.join('attached_assets', fileName), 'utf-8');
+        for (const options of [
+          xmlOptions,
+          { ...xmlOptions, engine: 'xslt' as const },
+          { ...xmlOptions, identifierFormat: 'digitalLink' as const, cbvFormat: 'webUri' as const, assignEventIds: true }
+        ]) {
+          const result = convertToEpcis20XmlSync(xml, options);
+          expect(typeof result).toBe('string');
+          expect(result).toBe(await convertToEpcis20Xml(xml, options));
+        }
+      }
+    });
+
+    it('gives the same JSON-LD as the asynchronous converter', async () => {
+      for (const fileName of TEST_FILES) {
+        const xml20 = await convertToEpcis20Xml(await fs.readFile(path.join('attached_assets', fileName), 'utf-8'), xmlOptions);
+        for (const options of [jsonOptions, { ...jsonOptions, validate: true, cbvFormat: 'webUri' as const, assignEventIds: true }]) {
+          const result = convertToJsonLdSync(xml20, options);
+          expect(typeof result).toBe('string');
+          expect(result).toBe(await convertToJsonLd(xml20, options));
+        }
+      }
+    });
+
+    it('throws the errors the asynchronous converters reject with', async () => {
+      expect(() => convertToEpcis20XmlSync('<catalog/>', xmlOptions)).toThrow('Not an EPCIS document');
+      await expect(convertToEpcis20Xml('<catalog/>', xmlOptions)).rejects.toThrow('Not an EPCIS document');
+      expect(() => convertToJsonLdSync('<catalog/>', jsonOptions)).toThrow(ValidationError);
+      await expect(convertToJsonLd('<catalog/>', jsonOptions)).rejects.toThrow(ValidationError);
+      expect(() => convertToEpcis20XmlSync('<catalog/>', { ...xmlOptions, validateXml: true })).toThrow(/use convertToEpcis20Xml/);
+    });
+  });
+
+  describe('Streaming Conversion', () => {
+    // Feeds the input in small chunks, so tags and text are split across them
+    const runStream = async (stream: Transform, input: string, chunkSize = 50): Promise<string> => {
+      const buffer = Buffer.from(input);
+      const chunks: Buffer[] = [];
+      for (let i = 0; i < buffer.length; i += chunkSize) {
+        chunks.push(buffer.subarray(i, i + chunkSize));
+      }
+      let output = '';
+      await new Promise((resolve, reject) => {
+        Readable.from(chunks).pipe(stream).on('data', chunk => output += chunk).on('end', resolve).on('error', reject);
+      });
+      return output;
+    };
+
+    it('gives the same EPCIS 2.0 XML as convertToEpcis20Xml', async () => {
+      for (const fileName of TEST_FILES) {
+        const xml = await fs.readFile(path.join('attached_assets', fileName), 'utf-8');
+        for (const options of [xmlOptions, { ...xmlOptions, engine: 'xslt' as const, assignEventIds: true }]) {
+          const result = await runStream(createEpcis20XmlStream(options), xml);
+          expect(normalizeString(result)).toBe(normalizeString(await convertToEpcis20Xml(xml, options)));
+        }
+      }
+    });
+
+    it('gives the same JSON-LD as convertToJsonLd', async () => {
+      for (const fileName of TEST_FILES) {
+        const xml20 = await convertToEpcis20Xml(await fs.readFile(path.join('attached_assets', fileName), 'utf-8'), xmlOptions);
+        const result = await runStream(createJsonLdStream(jsonOptions), xml20);
+        expect(result).toBe(await convertToJsonLd(xml20, jsonOptions));
+      }
+    });
+
+    it('emits errors and reports warnings with the positions of the events', async () => {
+      await expect(runStream(createEpcis20XmlStream(xmlOptions), '<catalog><item/></catalog>')).rejects.toThrow(ValidationError);
+      expect(() => createEpcis20XmlStream({ ...xmlOptions, validateXml: true })).toThrow(/not available when streaming/);
+      
+      const warnings: { path: string; message: string }[] = [];
+      const result = await runStream(createEpcis20XmlStream({ ...xmlOptions, onWarning: warning => warnings.push(warning) }), `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" schemaVersion="1.0" creationDate="2008-03-15T15:00:00Z">
+        <EPCISBody><EventList><QuantityEvent>
+          <eventTime>2008-03-15T14:58:56.591Z</eventTime>
+          <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+          <epcClass>urn:epc:idpat:sgtin:0614141.112345.*</epcClass>
+          <quantity>200</quantity>
+        </QuantityEvent></EventList></EPCISBody>
+      </epcis:EPCISDocument>`);
+      expect(warnings.map(warning => warning.path)).toEqual(['/epcis:EPCISDocument/EPCISBody/EventList[1]/QuantityEvent[1]']);
+      expect((await validateEpcisXml(result)).valid).toBe(true);
+    });
+  });
+
+  describe('Event Iteration', () => {
+    const collect = async (source: Parameters<typeof iterateEvents>[0], options = {}): Promise<EpcisItem[]> => {
+      const items: EpcisItem[] = [];
+      for await (const item of iterateEvents(source, options)) {
+        items.push(item);
+      }
+      return items;
+    };
+
+    it('yields the header, the master data and the events of an EPCIS 1.2 file', async () => {
+      const filePath = path.join('attached_assets', 'epcis_1.2.sample.xml');
+      const expected = JSON.parse(await convertToJsonLd(await convertToEpcis20Xml(await fs.readFile(filePath, 'utf-8'), xmlOptions), jsonOptions));
+      const items = await collect(filePath);
+      
+      expect(items.map(item => item.kind)).toEqual(['header', 'masterData', 'event', 'event', 'event', 'event', 'event']);
+      const [header, masterData] = items;
+      expect(header).toMatchObject({ kind: 'header', sourceFormat: 'epcis12-xml', sourceVersion: '1.2', creationDate: expected.creationDate });
+      expect(header.kind === 'header' && header.header['sbdh:StandardBusinessDocumentHeader']).toBeTruthy();
+      expect(masterData.kind === 'masterData' && masterData.vocabularyList).toEqual(expected.epcisHeader.epcisMasterData.vocabularyList);
+      expect(items.flatMap(item => item.kind === 'event' ? [item.event] : [])).toEqual(expected.epcisBody.eventList);
+      expect(items[4]).toMatchObject({ kind: 'event', path: '/epcis:EPCISDocument/EPCISBody/EventList[2]/AggregationEvent[1]' });
+    });
+
+    it('yields the same events from EPCIS 2.0 XML streams and JSON-LD', async () => {
+      const xml = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      const xml20 = await convertToEpcis20Xml(xml, xmlOptions);
+      const jsonLd = await convertToJsonLd(xml20, jsonOptions);
+      const events = (items: EpcisItem[]) => items.filter(item => item.kind !== 'header');
+      
+      const fromXml = await collect(Readable.from([Buffer.from(xml20)]));
+      const fromJsonLd = await collect(Buffer.from(jsonLd));
+      expect(fromXml[0]).toMatchObject({ kind: 'header', sourceFormat: 'epcis20-xml', sourceVersion: '2.0' });
+      expect(fromJsonLd[0]).toMatchObject({ kind: 'header', sourceFormat: 'jsonld', context: JSON.parse(jsonLd)['@context'] });
+      expect(events(fromJsonLd).map(item => item.kind === 'event' ? item.event : item))
+        .toEqual(events(fromXml).map(item => item.kind === 'event' ? item.event : item));
+      expect(fromJsonLd[fromJsonLd.length - 1]).toMatchObject({ path: `/epcisBody/eventList/${JSON.parse(jsonLd).epcisBody.eventList.length - 1}` });
+    });
+
+    it('rejects documents that are not EPCIS and reports warnings at the events', async () => {
+      await expect(collect('<catalog><item/></catalog>')).rejects.toThrow(ValidationError);
+      await expect(collect('{"type": "Catalog"}')).rejects.toThrow('Not an EPCIS JSON-LD document');
+      
+      const warnings: { path: string; message: string }[] = [];
+      const items = await collect(`<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" schemaVersion="1.0" creationDate="2008-03-15T15:00:00Z">
+        <EPCISBody><EventList><QuantityEvent>
+          <eventTime>2008-03-15T14:58:56.591Z</eventTime>
+          <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+          <epcClass>urn:epc:idpat:sgtin:0614141.112345.*</epcClass>
+          <quantity>200</quantity>
+        </QuantityEvent></EventList></EPCISBody>
+      </epcis:EPCISDocument>`, { onWarning: (warning: { path: string; message: string }) => warnings.push(warning) });
+      expect(items[0]).toMatchObject({ kind: 'header', sourceVersion: '1.0' });
+      expect(items[1]).toMatchObject({ kind: 'event', event: { type: 'ObjectEvent', action: 'OBSERVE' } });
+      expect(warnings.map(warning => warning.path)).toEqual(['/epcis:EPCISDocument/EPCISBody/EventList[1]/QuantityEvent[1]']);
+    });
+  });
+
+  describe('EPCIS Object Model', () => {
+    it('parses every format into the same document', async () => {
+      const xml = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      const xml20 = await convertToEpcis20Xml(xml, xmlOptions);
+      const jsonLd = await convertToJsonLd(xml20, jsonOptions);
+      
+      const document = parseEpcis(xml);
+      expect(document).toEqual(JSON.parse(jsonLd));
+      expect(parseEpcis(xml20)).toEqual(document);
+      expect(parseEpcis(jsonLd)).toEqual(document);
+      
+      const event = document.epcisBody.eventList[0];
+      expect(event.type).toBe('ObjectEvent');
+      if (event.type === 'ObjectEvent') {
+        expect(event.action).toBe('ADD');
+        expect(event.epcList!.length).toBeGreaterThan(0);
+      }
+      expect(document.epcisHeader!.epcisMasterData!.vocabularyList.length).toBeGreaterThan(0);
+    });
+
+    it('serializes with the output of the converters', async () => {
+      const xml = await fs.readFile(path.join('attached_assets', 'epcis_1.2.cardinal_health.xml'), 'utf-8');
+      const jsonLd = await convertToJsonLd(await convertToEpcis20Xml(xml, xmlOptions), jsonOptions);
+      const document = parseEpcis(xml);
+      
+      expect(await serializeEpcis(document, 'jsonld')).toBe(jsonLd);
+      expect(await serializeEpcis(document, 'epcis20-xml')).toBe((await convertJsonLdToXml(jsonLd)).xml);
+      expect(await serializeEpcis(document, 'epcis12-xml')).toBe((await convertJsonLdToXml(jsonLd, { epcisVersion: '1.2' })).xml);
+      expect(parseEpcis(await serializeEpcis(document, 'epcis20-xml')).epcisBody).toEqual(document.epcisBody);
+    });
+
+    it('rejects input that is not EPCIS and reports data the format cannot hold', async () => {
+      expect(() => parseEpcis('<catalog/>')).toThrow(ValidationError);
+      expect(() => parseEpcis('{"type": "Catalog"}')).toThrow(ValidationError);
+      
+      const document: EpcisDocument = {
+        '@context': ['https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld'],
+        type: 'EPCISDocument',
+        schemaVersion: '2.0',
+        creationDate: '2024-01-10T10:00:00Z',
+        epcisBody: {
+          eventList: [{
+            type: 'AssociationEvent',
+            eventTime: '2024-01-10T09:00:00Z',
+            eventTimeZoneOffset: '+00:00',
+            action: 'ADD',
+            parentID: 'urn:epc:id:grai:4012345.55555.987',
+            childEPCs: ['urn:epc:id:giai:4000001.12345'],
+            'undeclared:note': 'no namespace'
+          }]
+        }
+      };
+      const warnings: { path: string; message: string }[] = [];
+      const xml12 = await serializeEpcis(document, 'epcis12-xml', { onWarning: warning => warnings.push(warning) });
+      
+      expect(warnings.some(warning => warning.path === 'epcisBody.eventList[0].undeclared:note')).toBe(true);
+      expect(warnings.some(warning => /AssociationEvent/.test(warning.message))).toBe(true);
+      expect(detectFormat(xml12)).toBe('epcis12-xml');
+    });
+
+    it('reads each field with its type and leaves out what the model has no place for', () => {
+      const event = {
+        type: 'ObjectEvent',
+        eventTime: '2024-01-10T09:00:00Z',
+        eventTimeZoneOffset: '+00:00',
+        action: 'OBSERVE',
+        quantityList: [{ epcClass: 'urn:epc:class:lgtin:4012345.012345.998877', quantity: 5 }],
+        note: 'no prefix'
+      };
+      const jsonLd = (events: object[]) => JSON.stringify({
+        '@context': ['https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld'],
+        type: 'EPCISDocument',
+        schemaVersion: '2.0',
+        creationDate: '2024-01-10T10:00:00Z',
+        epcisBody: { eventList: events }
+      });
+
+      const warnings: { path: string; message: string }[] = [];
+      const document = parseEpcis(jsonLd([event]), { onWarning: warning => warnings.push(warning) });
+      expect(document.epcisBody.eventList[0]).not.toHaveProperty('note');
+      expect(warnings).toEqual([expect.objectContaining({ path: 'epcisBody.eventList[0].note' })]);
+
+      const quantityList = [{ epcClass: 'urn:epc:class:lgtin:4012345.012345.998877', quantity: '5' }];
+      expect(() => parseEpcis(jsonLd([{ ...event, quantityList }]))).toThrow(/quantity is not a number/);
+      expect(() => parseEpcis(jsonLd([{ ...event, action: 'UPDATE' }]))).toThrow(/expected ADD, OBSERVE or DELETE/);
+      const { eventTimeZoneOffset, ...withoutOffset } = event;
+      expect(() => parseEpcis(jsonLd([withoutOffset]))).toThrow(/has no eventTimeZoneOffset/);
+
+      const xml = `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" schemaVersion="1.2" creationDate="2024-01-10T10:00:00Z">
+  <EPCISBody>
+    <EventList>
+      <ObjectEvent><eventTime>2024-01-10T09:00:00Z</eventTime><eventTimeZoneOffset>+00:00</eventTimeZoneOffset><action>OBSERVE</action><note>no namespace</note></ObjectEvent>
+    </EventList>
+  </EPCISBody>
+</epcis:EPCISDocument>`;
+      warnings.length = 0;
+      parseEpcis(xml, { onWarning: warning => warnings.push(warning) });
+      expect(warnings.map(warning => warning.message)).toEqual([expect.stringMatching(/^note .*it was left out$/)]);
+    });
+  });
+
+  describe('Document Builder', () => {
+    const sgtin = 'urn:epc:id:sgtin:0614141.112345.400';
+    const sscc = 'urn:epc:id:sscc:0614141.1234567890';
+    
+    it('builds documents that serialize to valid JSON-LD and XML', async () => {
+      const builder = new EpcisDocumentBuilder({ creationDate: '2024-01-10T10:00:00Z' })
+        .namespace('example', 'https://example.com/epcis/')
+        .objectEvent().eventTime('2024-01-10T09:00:00+01:00').action('ADD').epcs([sgtin])
+          .bizStep('urn:epcglobal:cbv:bizstep:commissioning').disposition('active')
+          .readPoint('urn:epc:id:sgln:0614141.00777.0').ilmd('example:lot', 'L1').extension('example:temperature', '5')
+        .aggregationEvent().eventTime(new Date('2024-01-10T09:05:00Z')).action('ADD').parentID(sscc).childEPCs([sgtin])
+        .transactionEvent().eventTime('2024-01-10T10:00:00Z').action('ADD').epcs([sscc])
+          .bizTransaction('urn:epcglobal:cbv:bt:0614141073467:1152', 'po')
+          .source('owning_party', 'urn:epc:id:pgln:0614141.00001');
+      
+      const document = builder.build();
+      expect(document.epcisBody.eventList.map(event => event.type)).toEqual(['ObjectEvent', 'AggregationEvent', 'TransactionEvent']);
+      expect(document.epcisBody.eventList[0]).toMatchObject({ eventTimeZoneOffset: '+01:00', bizStep: 'commissioning' });
+      expect(document.epcisBody.eventList[1]).toMatchObject({ eventTime: '2024-01-10T09:05:00.000Z', eventTimeZoneOffset: '+00:00' });
+      expect(document['@context']).toEqual([expect.any(String), { example: 'https://example.com/epcis/' }]);
+      
+      const warnings: unknown[] = [];
+      const jsonLd = await builder.serialize('jsonld');
+      expect(validateJsonLd(jsonLd).valid).toBe(true);
+      expect(parseEpcis(jsonLd)).toEqual(document);
+      for (const format of ['epcis20-xml', 'epcis12-xml'] as const) {
+        const xml = await builder.serialize(format, { onWarning: warning => warnings.push(warning) });
+        expect(detectFormat(xml)).toBe(format);
+        expect((await validateEpcisXml(xml)).valid).toBe(true);
+      }
+      expect(warnings).toEqual([]);
+    });
+
+    it('rejects invalid values as they are set', () => {
+      const event = new EpcisDocumentBuilder().objectEvent();
+      
+      expect(() => event.epcs(['urn:epc:id:sgtin:0614141.112345'])).toThrow(/not a valid EPC URN/);
+      expect(() => event.bizStep('unpacking_boxes')).toThrow(/not in the CBV 2.0 list/);
+      expect(() => event.eventTime('2024-01-10 09:00')).toThrow(ValidationError);
+      expect(() => event.extension('unknown:note', 'x')).toThrow(/not declared/);
+      expect(() => event.quantity('urn:epc:class:lgtin:4012345.012345.998877', -1)).toThrow(ValidationError);
+      expect(event.bizStep('https://example.com/bizstep/unpacking')).toBe(event);
+    });
+
+    it('checks the required fields of each event when it ends', () => {
+      const missingAction = new EpcisDocumentBuilder().objectEvent().eventTime('2024-01-10T09:00:00Z').epcs([sgtin]);
+      expect(() => missingAction.aggregationEvent()).toThrow('ObjectEvent 1 is missing action');
+      
+      const missingEpcs = new EpcisDocumentBuilder().objectEvent().eventTime('2024-01-10T09:00:00Z').action('OBSERVE');
+      expect(() => missingEpcs.build()).toThrow('ObjectEvent 1 needs EPCs or quantities');
+      
+      const missingParent = new EpcisDocumentBuilder()
+        .objectEvent().eventTime('2024-01-10T09:00:00Z').action('OBSERVE').epcs([sgtin])
+        .aggregationEvent().eventTime('2024-01-10T09:05:00Z').action('ADD').childEPCs([sgtin]);
+      expect(() => missingParent.serialize('jsonld')).toThrow('AggregationEvent 2 is missing parentID, which action ADD needs');
+    });
+  });
+
+  describe('Conversion Engines', () => {
+    it('runs the local and xslt engines with the output of the converters', async () => {
+      const xml = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      const local = createTransformer();
+      const xslt = createTransformer({ engine: 'xslt' });
+      
+      expect(local.engine).toBe('local');
+      expect(await local.convertToEpcis20Xml(xml, xmlOptions)).toBe(await convertToEpcis20Xml(xml, xmlOptions));
+      expect(await xslt.convertToEpcis20Xml(xml, xmlOptions)).toBe(await convertToEpcis20Xml(xml, { ...xmlOptions, engine: 'xslt' }));
+      expect(await local.convertFrom12ToJsonLd(xml, jsonOptions))
+        .toBe(await convertToJsonLd(await convertToEpcis20Xml(xml, xmlOptions), jsonOptions));
+      expect(xslt.createEpcis20XmlStream).toBeDefined();
+      expect(createTransformer({ engine: 'openepcis' }).createEpcis20XmlStream).toBeUndefined();
+      expect(await xslt.testConnection()).toBe(true);
+    });
+
+    it('runs engines registered by name', async () => {
+      const calls: string[] = [];
+      const inHouse: ConversionEngine = {
+        name: 'in-house',
+        convertToEpcis20Xml: async xml => { calls.push('xml'); return convertToEpcis20Xml(xml, xmlOptions); },
+        convertToJsonLd: async (xml, options) => { calls.push('jsonld'); return convertToJsonLd(xml, options); }
+      };
+      registerEngine(inHouse);
+      const xml = await fs.readFile(path.join('attached_assets', 'epcis_1.2.sample.xml'), 'utf-8');
+      const transformer = createTransformer({ engine: 'in-house' });
+      
+      expect(listEngines()).toEqual(['local', 'xslt', 'openepcis', 'in-house']);
+      expect(transformer.createEpcis20XmlStream).toBeUndefined();
+      // Without a direct conversion of its own, the engine goes through EPCIS 2.0 XML
+      expect(await transformer.convertFrom12ToJsonLd(xml, jsonOptions))
+        .toBe(await convertToJsonLd(await convertToEpcis20Xml(xml, xmlOptions), jsonOptions));
+      expect(calls).toEqual(['xml', 'jsonld']);
+      expect(() => registerEngine({ ...inHouse, name: 'In House' })).toThrow(ValidationError);
+    });
+
+    it('applies the conversion options around remote engines behind the API endpoints', async () => {
+      // A service that converts documents without options, as the OpenEPCIS API does
+      registerEngine(createRemoteEngine({
+        name: 'remote',
+        convertToEpcis20Xml: xml => convertToEpcis20Xml(xml),
+        convertToJsonLd: xml => convertToJsonLd(xml)
+      }));
+      const app = express();
+      app.use(express.json({ limit: '10mb' }));
+      const server = await registerRoutes(app);
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      const post = async (endpoint: string, body: object) => {
+        const response = await fetch(`http://localhost:${(server.address() as AddressInfo).port}/api/${endpoint}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        });
+        return { status: response.status, body: await response.json() };
+      };
+      
+      try {
+        const xml = await fs.readFile('sample-epcis12.xml', 'utf-8');
+        const xmlRequest = (engine: string) => post('convert-to-epcis20-xml', {
+          xml,
+          engine,
+          options: { validateXml: true, preserveComments: false, validateEpcs: true, identifierFormat: 'digitalLink', cbvFormat: 'urn', assignEventIds: true }
+        });
+        const remote = await xmlRequest('remote');
+        expect(remote.status).toBe(200);
+        expect(remote.body.sourceVersion).toBe('1.2');
+        expect(remote.body).toEqual((await xmlRequest('local')).body);
+        
+        const xml20 = await convertToEpcis20Xml(xml, xmlOptions);
+        const jsonLdRequest = (engine: string) => post('convert-to-jsonld', {
+          xml: xml20,
+          engine,
+          options: { prettyPrint: false, includeContext: false, validate: false, validateEpcs: true, identifierFormat: 'digitalLink', assignEventIds: true }
+        });
+        expect((await jsonLdRequest('remote')).body).toEqual((await jsonLdRequest('local')).body);
+        
+        const xml11 = `<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1" schemaVersion="1.1" creationDate="2008-03-15T15:00:00Z">
+          <EPCISBody><EventList><QuantityEvent>
+            <eventTime>2008-03-15T14:58:56.591Z</eventTime>
+            <eventTimeZoneOffset>+00:00</eventTimeZoneOffset>
+            <epcClass>urn:epc:idpat:sgtin:0614141.112345.*</epcClass>
+            <quantity>200</quantity>
+          </QuantityEvent></EventList></EPCISBody>
+        </epcis:EPCISDocument>`;
+        const upgraded = await post('convert-to-epcis20-xml', { xml: xml11, engine: 'remote' });
+        expect(upgraded.body.sourceVersion).toBe('1.1');
+        expect(upgraded.body.warnings.map((warning: { message: string }) => warning.message)).toEqual([
+          expect.stringMatching(/QuantityEvent is not defined in EPCIS 2.0/)
+        ]);
+        
+        const withComments = await post('convert-to-epcis20-xml', { xml, engine: 'remote', options: { preserveComments: true } });
+        expect(withComments.status).toBe(400);
+        expect(withComments.body.message).toBe('The remote engine does not keep comments');
+        const withUrns = await post('convert-to-jsonld', { xml: xml20, engine: 'remote', options: { cbvFormat: 'urn' } });
+        expect(withUrns.status).toBe(400);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('answers malformed XML with a validation error behind the API endpoints', async () => {
+      const app = express();
+      app.use(express.json({ limit: '10mb' }));
+      const server = await registerRoutes(app);
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      const post = async (endpoint: string, body: object) => {
+        const response = await fetch(`http://localhost:${(server.address() as AddressInfo).port}/api/${endpoint}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        });
+        return { status: response.status, body: await response.json() };
+      };
+
+      try {
+        const xml = '<epcis:EPCISDocument xmlns:epcis="urn:epcglobal:epcis:xsd:1"><EPCISBody></epcis:EPCISDocument>';
+        for (const endpoint of ['convert-to-epcis20-xml', 'convert-to-epcis12-xml', 'convert-to-jsonld', 'convert-from-12-to-jsonld']) {
+          const response = await post(endpoint, { xml });
+          expect(response.status).toBe(400);
+          expect(response.body.message).toMatch(/^XML parsing failed: /);
+        }
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('rejects unknown engines and reports engine failures as transformation errors', async () => {
+      expect(() => createTransformer({ engine: 'saxon' })).toThrow(/Unknown conversion engine 'saxon', expected one of local, xslt, openepcis/);
+      
+      const failing = createTransformer({
+        engine: {
+          name: 'offline',
+          convertToEpcis20Xml: () => Promise.reject(new Error('connection refused')),
+          convertToJsonLd: () => Promise.reject(new ValidationError('Invalid EPCIS 2.0 XML')),
+          testConnection: async () => false
+        }
+      });
+      const error = await failing.convertToEpcis20Xml('<xml/>', xmlOptions).catch(e => e);
+      expect(error).toBeInstanceOf(TransformationError);
+      expect(error.message).toBe('Conversion engine offline failed: connection refused');
+      await expect(failing.convertToJsonLd('<xml/>', jsonOptions)).rejects.toBeInstanceOf(ValidationError);
+      expect(await failing.testConnection()).toBe(false);
+    });
+  });
+
   describe('End-to-End: EPCIS 1.2 XML to JSON-LD Conversion', () => {
     for (const fileName of TEST_FILES) {
       it(`correctly converts ${fileName} from EPCIS 1.2 XML to JSON-LD in sequence`, async () => {
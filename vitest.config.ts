@@ -1,6 +1,13 @@
 import { defineConfig } from 'vitest/config';
+import path from 'path';
 
 export default defineConfig({
+  resolve: {
+    // The aliases of vite.config.ts the server code imports, e.g. the route schemas
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
   test: {
     // Use ESM mode for TypeScript files
     include: ['tests/**/*.test.ts'],
@@ -9,4 +16,4 @@ export default defineConfig({
     // Increase timeout for potentially slow API calls
     testTimeout: 20000,
   },
-});
\ No newline at end of file
+});